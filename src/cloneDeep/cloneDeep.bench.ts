@@ -0,0 +1,20 @@
+import { bench, describe } from 'vitest';
+import { cloneDeep } from './index';
+
+const users = Array.from({ length: 10 }, (_, id) => ({
+  id,
+  name: `user${id}`,
+  tags: ['admin', 'editor'],
+  meta: { created: new Date(0), active: true, scores: [1, 2, 3] },
+}));
+
+describe('cloneDeep', () => {
+  bench('typical shallow payload', () => {
+    cloneDeep(users);
+  });
+
+  // Baseline: structuredClone copies the same values natively
+  bench('structuredClone baseline', () => {
+    structuredClone(users);
+  });
+});
@@ -1,5 +1,8 @@
+import { types } from 'node:util';
 import { describe, it, expect } from 'vitest';
-import { cloneDeep } from './index';
+import { cloneDeep, cloneDeepWith } from './index';
+import type { CloneDeepContext } from './index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
 
 describe('cloneDeep', () => {
   describe('primitive values', () => {
@@ -93,7 +96,7 @@ describe('cloneDeep', () => {
       expect(cloned[1]).not.toBe(original[1]);
 
       // Mutating cloned should not affect original
-      cloned[0].push(5);
+      cloned[0]!.push(5);
       expect(original[0]).toEqual([1, 2]);
     });
 
@@ -107,8 +110,8 @@ describe('cloneDeep', () => {
       expect(cloned[1]).not.toBe(original[1]);
 
       // Mutating cloned should not affect original
-      cloned[0].name = 'Bob';
-      expect(original[0].name).toBe('John');
+      cloned[0]!.name = 'Bob';
+      expect(original[0]!.name).toBe('John');
     });
 
     it('should clone empty arrays', () => {
@@ -148,6 +151,295 @@ describe('cloneDeep', () => {
     });
   });
 
+  describe('binary data', () => {
+    it('should clone typed arrays with their type and contents', () => {
+      const original = new Float64Array([1.5, 2.5, 3.5]);
+      const cloned = cloneDeep(original);
+
+      expect(cloned).toBeInstanceOf(Float64Array);
+      expect(cloned).toEqual(original);
+      expect(cloned.buffer).not.toBe(original.buffer);
+
+      cloned[0] = 9;
+      expect(original[0]).toBe(1.5);
+    });
+
+    it('should keep views over one buffer sharing the cloned buffer', () => {
+      const buffer = new ArrayBuffer(8);
+      const bytes = new Uint8Array(buffer);
+      const words = new Uint32Array(buffer, 4, 1);
+      const view = new DataView(buffer, 2, 4);
+
+      const cloned = cloneDeep({ buffer, bytes, words, view });
+
+      expect(cloned.buffer).not.toBe(buffer);
+      expect(cloned.bytes.buffer).toBe(cloned.buffer);
+      expect(cloned.words.buffer).toBe(cloned.buffer);
+      expect(cloned.view.buffer).toBe(cloned.buffer);
+      expect(cloned.words.byteOffset).toBe(4);
+      expect(cloned.view.byteOffset).toBe(2);
+      expect(cloned.view.byteLength).toBe(4);
+
+      cloned.words[0] = 0xffffffff;
+      expect(cloned.bytes[4]).toBe(0xff);
+      expect(bytes[4]).toBe(0);
+    });
+
+    it('should clone ArrayBuffers', () => {
+      const original = new Uint8Array([1, 2, 3]).buffer;
+      const cloned = cloneDeep(original);
+
+      expect(cloned).not.toBe(original);
+      expect(new Uint8Array(cloned)).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it('should keep Node.js Buffers as Buffers', () => {
+      const original = Buffer.from('hello');
+      const cloned = cloneDeep(original);
+
+      expect(Buffer.isBuffer(cloned)).toBe(true);
+      expect(cloned.toString()).toBe('hello');
+      expect(cloned.buffer).not.toBe(original.buffer);
+    });
+
+    it('should copy only the bytes of a pooled Buffer', () => {
+      const original = Buffer.from('pooled');
+      const cloned = cloneDeep(original);
+
+      expect(original.buffer.byteLength).toBeGreaterThan(original.length);
+      expect(cloned.buffer.byteLength).toBe(original.length);
+      expect(cloned.byteOffset).toBe(0);
+      expect(cloned.toString()).toBe('pooled');
+    });
+
+    it('should share one cloned buffer between overlapping views', () => {
+      const buffer = new ArrayBuffer(16);
+      const head = new Uint8Array(buffer, 0, 4);
+      const middle = new Uint8Array(buffer, 2, 6);
+
+      for (const cloned of [
+        cloneDeep({ head, middle }),
+        cloneDeep({ middle, head }),
+      ]) {
+        expect(cloned.head.buffer).toBe(cloned.middle.buffer);
+
+        cloned.middle[0] = 99;
+        expect(cloned.head[2]).toBe(99);
+        expect(head[2]).toBe(0);
+      }
+    });
+
+    it('should copy only the bytes that views cover', () => {
+      const buffer = new ArrayBuffer(64);
+      const first = new Uint8Array(buffer, 8, 4);
+      const second = new Uint16Array(buffer, 20, 2);
+
+      const cloned = cloneDeep({ first, second });
+
+      expect(cloned.first.buffer).toBe(cloned.second.buffer);
+      expect(cloned.first.buffer.byteLength).toBe(16);
+      expect(cloned.first.byteOffset).toBe(0);
+      expect(cloned.second.byteOffset).toBe(12);
+    });
+
+    it('should share the cloned buffer with views cloned before it', () => {
+      const buffer = new ArrayBuffer(8);
+      const words = new Uint32Array(buffer, 4, 1);
+
+      const cloned = cloneDeep({ words, buffer });
+
+      expect(cloned.words.buffer).toBe(cloned.buffer);
+      expect(cloned.buffer.byteLength).toBe(8);
+      expect(cloned.words.byteOffset).toBe(4);
+    });
+
+    it('should keep views sharing the cloned buffer after it is cloned', () => {
+      const buffer = new ArrayBuffer(8);
+      const words = new Uint32Array(buffer, 4, 1);
+
+      const cloned = cloneDeep({ buffer, words });
+
+      expect(cloned.words.buffer).toBe(cloned.buffer);
+      expect(cloned.words.byteOffset).toBe(4);
+    });
+  });
+
+  describe('Error objects', () => {
+    // ES2021/ES2022 error APIs, missing from the ES2020 lib this package targets
+    type CausedError = Error & { cause?: unknown };
+    const ErrorWithCause = Error as new (
+      message: string,
+      options?: { cause: unknown }
+    ) => CausedError;
+    const { AggregateError } = globalThis as unknown as {
+      AggregateError: new (
+        errors: Error[],
+        message: string
+      ) => Error & { errors: Error[] };
+    };
+
+    it('should clone errors with their subclass, message and stack', () => {
+      const original = new RangeError('out of range');
+      const cloned = cloneDeep(original);
+
+      expect(cloned).not.toBe(original);
+      expect(cloned).toBeInstanceOf(RangeError);
+      expect(cloned.message).toBe('out of range');
+      expect(cloned.stack).toBe(original.stack);
+      expect(Object.keys(cloned)).toEqual([]);
+    });
+
+    it('should clone errors as native errors', () => {
+      const original = new TypeError('bad input');
+      const cloned = cloneDeep(original);
+
+      expect(types.isNativeError(cloned)).toBe(true);
+      expect(Object.prototype.toString.call(cloned)).toBe('[object Error]');
+      expect(String(cloned)).toBe('TypeError: bad input');
+    });
+
+    it('should clone errors whose class requires constructor arguments', () => {
+      class HttpError extends Error {
+        constructor(readonly response: { status: number }) {
+          super(`HTTP ${response.status}`);
+        }
+      }
+      const original = new HttpError({ status: 404 });
+
+      const cloned = cloneDeep(original);
+
+      expect(cloned).toBeInstanceOf(HttpError);
+      expect(types.isNativeError(cloned)).toBe(true);
+      expect(cloned.response).toEqual({ status: 404 });
+      expect(cloned.response).not.toBe(original.response);
+    });
+
+    it('should clone DOMExceptions such as an abort reason', () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const cloned = cloneDeep({ reason: controller.signal.reason });
+
+      expect(cloned.reason).not.toBe(controller.signal.reason);
+      expect(cloned.reason).toBeInstanceOf(DOMException);
+      expect(cloned.reason.name).toBe('AbortError');
+      expect(cloned.reason.code).toBe(DOMException.ABORT_ERR);
+      expect(String(cloned.reason)).toBe(String(controller.signal.reason));
+      expect(cloned.reason.stack).toBe(controller.signal.reason.stack);
+    });
+
+    it('should not give an error a stack it did not have', () => {
+      const original = new Error('no stack');
+      delete original.stack;
+
+      expect(
+        Object.prototype.hasOwnProperty.call(cloneDeep(original), 'stack')
+      ).toBe(false);
+    });
+
+    it('should clone the cause and custom properties', () => {
+      const cause = { code: 'ECONNRESET', retries: [1, 2] };
+      const original = Object.assign(new ErrorWithCause('failed', { cause }), {
+        status: 503,
+      });
+
+      const cloned = cloneDeep(original);
+
+      expect(cloned.cause).toEqual(cause);
+      expect(cloned.cause).not.toBe(cause);
+      expect(cloned.status).toBe(503);
+    });
+
+    it('should clone errors of AggregateErrors', () => {
+      const original = new AggregateError([new Error('first')], 'many');
+      const cloned = cloneDeep(original);
+
+      expect(cloned.errors[0]).toBeInstanceOf(Error);
+      expect(cloned.errors[0]).not.toBe(original.errors[0]);
+      expect(cloned.errors[0]!.message).toBe('first');
+    });
+
+    it('should handle an error that is its own cause', () => {
+      const original = new ErrorWithCause('loop');
+      original.cause = original;
+
+      const cloned = cloneDeep(original);
+
+      expect(cloned.cause).toBe(cloned);
+    });
+  });
+
+  describe('boxed primitives and URLs', () => {
+    it('should clone Number, String and Boolean wrappers', () => {
+      const original = {
+        count: new Number(3),
+        label: new String('x'),
+        flag: new Boolean(false),
+      };
+
+      const cloned = cloneDeep(original);
+
+      expect(cloned.count).toBeInstanceOf(Number);
+      expect(cloned.count).not.toBe(original.count);
+      expect(cloned.count.valueOf()).toBe(3);
+      expect(cloned.label.valueOf()).toBe('x');
+      expect(cloned.flag.valueOf()).toBe(false);
+    });
+
+    it('should copy own properties of boxed primitives', () => {
+      const label = Object.assign(new String('ab'), {
+        lang: 'en',
+        meta: { source: 'form' },
+      });
+      const count = Object.assign(new Number(3), { unit: 'kg' });
+      const flag = new Boolean(true);
+      Object.defineProperty(flag, 'hidden', { value: 1, enumerable: false });
+
+      const cloned = cloneDeep({ label, count, flag });
+
+      expect(cloned.label.valueOf()).toBe('ab');
+      expect(cloned.label.lang).toBe('en');
+      expect(cloned.label.meta).toEqual({ source: 'form' });
+      expect(cloned.label.meta).not.toBe(label.meta);
+      expect(cloned.count.unit).toBe('kg');
+      expect(Object.keys(cloned.label)).toEqual(['0', '1', 'lang', 'meta']);
+      expect(Object.getOwnPropertyNames(cloned.flag)).toEqual([]);
+
+      const exact = cloneDeep(Object.freeze(flag), {
+        preserveDescriptors: true,
+      });
+      expect(Object.getOwnPropertyDescriptor(exact, 'hidden')).toEqual({
+        value: 1,
+        writable: false,
+        enumerable: false,
+        configurable: false,
+      });
+      expect(Object.isFrozen(exact)).toBe(true);
+    });
+
+    it('should keep circular references through boxed primitives', () => {
+      const label = Object.assign(new String('x'), { self: null as unknown });
+      label.self = label;
+
+      const cloned = cloneDeep(label);
+
+      expect(cloned.self).toBe(cloned);
+      expect(cloned).not.toBe(label);
+    });
+
+    it('should clone URLs', () => {
+      const original = new URL('https://example.com/path?q=1#top');
+      const cloned = cloneDeep(original);
+
+      expect(cloned).toBeInstanceOf(URL);
+      expect(cloned).not.toBe(original);
+      expect(cloned.href).toBe(original.href);
+
+      cloned.searchParams.set('q', '2');
+      expect(original.searchParams.get('q')).toBe('1');
+    });
+  });
+
   describe('Set objects', () => {
     it('should clone Set objects', () => {
       const original = new Set([1, 2, 3]);
@@ -208,8 +500,8 @@ describe('cloneDeep', () => {
       // Both keys and values should be cloned
       const clonedEntry = Array.from(cloned.entries())[0];
       const originalEntry = Array.from(original.entries())[0];
-      expect(clonedEntry[0]).not.toBe(originalEntry[0]); // key
-      expect(clonedEntry[1]).not.toBe(originalEntry[1]); // value
+      expect(clonedEntry![0]).not.toBe(originalEntry![0]); // key
+      expect(clonedEntry![1]).not.toBe(originalEntry![1]); // value
     });
   });
 
@@ -302,4 +594,422 @@ describe('cloneDeep', () => {
       expect(cloned.greet).toBe(original.greet); // Function should be same reference
     });
   });
+
+  describe('preserveDescriptors', () => {
+    class Account {
+      readonly owner: string;
+      private balance: number;
+
+      constructor(owner: string, balance: number) {
+        this.owner = owner;
+        this.balance = balance;
+      }
+
+      deposit(amount: number): void {
+        this.balance += amount;
+      }
+
+      get total(): number {
+        return this.balance;
+      }
+    }
+
+    it('should keep class instances with their methods', () => {
+      const original = new Account('ada', 10);
+      const cloned = cloneDeep(original, { preserveDescriptors: true });
+
+      expect(cloned).not.toBe(original);
+      expect(cloned).toBeInstanceOf(Account);
+      cloned.deposit(5);
+      expect(cloned.total).toBe(15);
+      expect(original.total).toBe(10);
+    });
+
+    it('should lose the prototype without the option', () => {
+      const cloned = cloneDeep(new Account('ada', 10));
+
+      expect(cloned).not.toBeInstanceOf(Account);
+      expect(Object.getPrototypeOf(cloned)).toBe(Object.prototype);
+    });
+
+    it('should copy symbol keys and non-enumerable properties', () => {
+      const id = Symbol('id');
+      const original = Object.defineProperty({ [id]: { n: 1 } }, 'hidden', {
+        value: 'secret',
+        enumerable: false,
+      });
+
+      const cloned = cloneDeep(original, { preserveDescriptors: true });
+
+      expect(cloned[id]).toEqual({ n: 1 });
+      expect(cloned[id]).not.toBe(original[id]);
+      expect(Object.getOwnPropertyDescriptor(cloned, 'hidden')).toEqual({
+        value: 'secret',
+        writable: false,
+        enumerable: false,
+        configurable: false,
+      });
+    });
+
+    it('should copy getters and setters without evaluating them', () => {
+      let reads = 0;
+      const state = { value: 1 };
+      const original = {
+        get value() {
+          reads++;
+          return state.value;
+        },
+        set value(next: number) {
+          state.value = next;
+        },
+      };
+
+      const cloned = cloneDeep(original, { preserveDescriptors: true });
+
+      expect(reads).toBe(0);
+      cloned.value = 2;
+      expect(cloned.value).toBe(2);
+      expect(reads).toBe(1);
+    });
+
+    it('should re-apply frozen, sealed and non-extensible state', () => {
+      const original = {
+        frozen: Object.freeze({ a: 1 }),
+        sealed: Object.seal({ b: 2 }),
+        fixed: Object.preventExtensions({ c: 3 }),
+        list: Object.freeze([1, 2]),
+        open: { d: 4 },
+      };
+
+      const cloned = cloneDeep(original, { preserveDescriptors: true });
+
+      expect(Object.isFrozen(cloned.frozen)).toBe(true);
+      expect(Object.isSealed(cloned.sealed)).toBe(true);
+      expect(Object.isFrozen(cloned.sealed)).toBe(false);
+      expect(Object.isExtensible(cloned.fixed)).toBe(false);
+      expect(Object.isSealed(cloned.fixed)).toBe(false);
+      expect(Object.isFrozen(cloned.list)).toBe(true);
+      expect(Object.isExtensible(cloned.open)).toBe(true);
+      expect(cloned.frozen).not.toBe(original.frozen);
+    });
+
+    it('should handle circular references through frozen objects', () => {
+      const original: any = { name: 'node' };
+      original.self = original;
+      Object.freeze(original);
+
+      const cloned = cloneDeep(original, { preserveDescriptors: true });
+
+      expect(cloned.self).toBe(cloned);
+      expect(Object.isFrozen(cloned)).toBe(true);
+    });
+
+    it('should keep subclasses of Map, Set and Array', () => {
+      class Registry extends Map<string, { id: number }> {
+        ids() {
+          return Array.from(this.values(), entry => entry.id);
+        }
+      }
+      class Tags extends Set<string> {}
+      class Stack extends Array<number> {
+        peek() {
+          return this[this.length - 1];
+        }
+      }
+      const stack = new Stack();
+      stack.push(1, 2);
+      const original = {
+        registry: new Registry([['a', { id: 1 }]]),
+        tags: new Tags(['x']),
+        stack,
+      };
+
+      const cloned = cloneDeep(original, { preserveDescriptors: true });
+
+      expect(cloned.registry).toBeInstanceOf(Registry);
+      expect(cloned.registry.ids()).toEqual([1]);
+      expect(cloned.registry.get('a')).not.toBe(original.registry.get('a'));
+      expect(cloned.tags).toBeInstanceOf(Tags);
+      expect(cloned.tags.has('x')).toBe(true);
+      expect(cloned.stack).toBeInstanceOf(Stack);
+      expect(cloned.stack.peek()).toBe(2);
+      expect(cloneDeep(original).registry).not.toBeInstanceOf(Registry);
+    });
+
+    it('should still skip unsafe keys', () => {
+      const original = JSON.parse('{"__proto__": {"admin": true}, "a": 1}');
+
+      const cloned = cloneDeep(original, { preserveDescriptors: true });
+
+      expect(Object.getPrototypeOf(cloned)).toBe(Object.prototype);
+      expect(cloned.admin).toBeUndefined();
+      expect(cloned.a).toBe(1);
+    });
+  });
+
+  describe('prototype pollution', () => {
+    it('should leave out own unsafe keys', () => {
+      const original = JSON.parse(
+        '{"a": 1, "__proto__": {"admin": true}, "nested": [{"constructor": {"prototype": 1}, "b": 2}]}'
+      );
+
+      const cloned = cloneDeep(original);
+
+      expect(Object.getPrototypeOf(cloned)).toBe(Object.prototype);
+      expect(cloned.admin).toBeUndefined();
+      expect(cloned).toEqual({ a: 1, nested: [{ b: 2 }] });
+    });
+
+    it('should leave out unsafe keys at any depth', () => {
+      const payload = JSON.parse(
+        '{"settings": {"__proto__": {"admin": true}}}'
+      );
+      const error = Object.assign(new Error('failed'), {
+        details: JSON.parse('{"constructor": {"prototype": {}}, "code": 1}'),
+      });
+      const original = {
+        lookup: new Map([['settings', payload.settings]]),
+        items: new Set([payload]),
+        error,
+      };
+
+      const cloned = cloneDeep(original);
+      const exact = cloneDeep(original, { preserveDescriptors: true });
+
+      for (const result of [cloned, exact]) {
+        const settings = result.lookup.get('settings');
+        expect(
+          Object.prototype.hasOwnProperty.call(settings, '__proto__')
+        ).toBe(false);
+        expect(Object.keys([...result.items][0].settings as object)).toEqual(
+          []
+        );
+        expect((result.error as any).details).toEqual({ code: 1 });
+      }
+      expect(() => cloneDeep(original, { unsafeKeys: 'throw' })).toThrow(
+        UnsafeKeyError
+      );
+    });
+
+    it('should throw on unsafe keys with the "throw" policy', () => {
+      expect(() =>
+        cloneDeep(JSON.parse('{"__proto__": {}}'), { unsafeKeys: 'throw' })
+      ).toThrow(UnsafeKeyError);
+    });
+
+    it('should copy unsafe keys with the "allow" policy', () => {
+      const cloned = cloneDeep(
+        { prototype: { a: 1 } },
+        { unsafeKeys: 'allow' }
+      );
+
+      expect(cloned.prototype).toEqual({ a: 1 });
+    });
+  });
+
+  describe('deeply nested values', () => {
+    const createList = (length: number) => {
+      let list: any = null;
+      for (let i = length - 1; i >= 0; i--) {
+        list = { value: i, next: list };
+      }
+      return list;
+    };
+
+    it('should clone long linked lists without overflowing the stack', () => {
+      const original = createList(50000);
+
+      const cloned = cloneDeep(original);
+
+      let length = 0;
+      for (let a = original, b = cloned; a; a = a.next, b = b.next) {
+        if (b === a || b.value !== a.value) {
+          break;
+        }
+        length++;
+      }
+      expect(length).toBe(50000);
+    });
+
+    it('should clone deeply nested arrays, Sets and Maps', () => {
+      let original: any = 'leaf';
+      for (let i = 0; i < 30000; i++) {
+        original = [new Set([new Map([['child', original]])])];
+      }
+
+      let cloned = cloneDeep(original);
+
+      let depth = 0;
+      while (cloned !== 'leaf' && cloned !== original) {
+        cloned = [...cloned[0]][0].get('child');
+        original = [...original[0]][0].get('child');
+        depth++;
+      }
+      expect(depth).toBe(30000);
+    });
+
+    it('should keep circular references in a long list', () => {
+      const original = createList(50000);
+      let tail = original;
+      while (tail.next) {
+        tail = tail.next;
+      }
+      tail.next = original;
+
+      const cloned = cloneDeep(original);
+
+      let clonedTail = cloned;
+      for (let i = 1; i < 50000; i++) {
+        clonedTail = clonedTail.next;
+      }
+      expect(clonedTail.value).toBe(49999);
+      expect(clonedTail.next).toBe(cloned);
+    });
+
+    it('should re-apply integrity levels on deep chains', () => {
+      let original: any = Object.freeze({ depth: 0 });
+      for (let i = 1; i < 5000; i++) {
+        original = Object.freeze({ depth: i, child: original });
+      }
+
+      let cloned = cloneDeep(original, { preserveDescriptors: true });
+
+      while (cloned) {
+        expect(Object.isFrozen(cloned)).toBe(true);
+        expect(cloned.depth).toBe(original.depth);
+        cloned = cloned.child;
+        original = original.child;
+      }
+      expect(original).toBeUndefined();
+    });
+
+    it('should pass paths to the customizer on deep lists', () => {
+      const original = createList(50000);
+      let deepest: readonly unknown[] = [];
+
+      cloneDeepWith(original, (value, context) => {
+        if (value === 49999) {
+          deepest = context.path;
+        }
+        return undefined;
+      });
+
+      expect(deepest).toHaveLength(50000);
+      expect(deepest.slice(0, 3)).toEqual(['next', 'next', 'next']);
+      expect(deepest[49999]).toBe('value');
+    });
+  });
+
+  describe('cloneDeepWith', () => {
+    it('should use the returned value as the clone', () => {
+      class Decimal {
+        constructor(readonly digits: string) {}
+      }
+      const price = new Decimal('9.99');
+
+      const cloned = cloneDeepWith({ items: [{ price }] }, value =>
+        value instanceof Decimal ? new Decimal(value.digits) : undefined
+      );
+
+      expect(cloned.items[0]!.price).toBeInstanceOf(Decimal);
+      expect(cloned.items[0]!.price).not.toBe(price);
+      expect(cloned.items[0]!.price.digits).toBe('9.99');
+    });
+
+    it('should clone the default way when the customizer returns undefined', () => {
+      const original = { a: { b: [1, 2] }, d: new Date(0) };
+
+      const cloned = cloneDeepWith(original, () => undefined);
+
+      expect(cloned).toEqual(original);
+      expect(cloned.a).not.toBe(original.a);
+      expect(cloned.d).not.toBe(original.d);
+    });
+
+    it('should pass the key, parent and path of every value', () => {
+      const original = {
+        users: [{ name: 'ada' }],
+        tags: new Set(['x']),
+        meta: new Map([['owner', 'root']]),
+      };
+      const calls: Array<[unknown, CloneDeepContext]> = [];
+
+      cloneDeepWith(original, (value, context) => {
+        calls.push([value, context]);
+        return undefined;
+      });
+
+      expect(calls.map(([, { path }]) => path)).toEqual([
+        [],
+        ['users'],
+        ['users', 0],
+        ['users', 0, 'name'],
+        ['tags'],
+        ['tags', 0],
+        ['meta'],
+        ['meta', 'owner'],
+      ]);
+      expect(calls[0]![1]).toEqual({
+        key: undefined,
+        parent: undefined,
+        path: [],
+      });
+      expect(calls[3]![1].key).toBe('name');
+      expect(calls[3]![1].parent).toBe(original.users[0]);
+      expect(calls[7]![1].parent).toBe(original.meta);
+    });
+
+    it('should redact secrets and drop handles while cloning', () => {
+      const handle = { nodeType: 1 };
+      const original = {
+        user: 'ada',
+        password: 'hunter2',
+        nested: { apiKey: 'k', element: handle },
+      };
+
+      const cloned = cloneDeepWith(original, (value, { key }) => {
+        if (key === 'password' || key === 'apiKey') {
+          return '[REDACTED]';
+        }
+        return value === handle ? null : undefined;
+      });
+
+      expect(cloned).toEqual({
+        user: 'ada',
+        password: '[REDACTED]',
+        nested: { apiKey: '[REDACTED]', element: null },
+      });
+      expect(original.password).toBe('hunter2');
+    });
+
+    it('should handle circular references', () => {
+      const original: any = { name: 'node', children: [] };
+      original.children.push({ parent: original });
+
+      const cloned = cloneDeepWith(original, value =>
+        value === 'node' ? 'NODE' : undefined
+      );
+
+      expect(cloned.name).toBe('NODE');
+      expect(cloned.children[0].parent).toBe(cloned);
+    });
+
+    it('should pass options through', () => {
+      class Point {
+        constructor(readonly x: number) {}
+      }
+
+      const cloned = cloneDeepWith(new Point(1), () => undefined, {
+        preserveDescriptors: true,
+      });
+
+      expect(cloned).toBeInstanceOf(Point);
+    });
+
+    it('should reject a customizer that is not a function', () => {
+      expect(() => cloneDeepWith({}, null as any)).toThrow(
+        'Expected customizer to be a function'
+      );
+    });
+  });
 });
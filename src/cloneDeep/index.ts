@@ -1,29 +1,188 @@
+import { isKeyAllowed } from '../unsafeKeys/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
+export interface CloneDeepOptions {
+  /**
+   * How to treat own `__proto__`, `constructor` and `prototype` keys of cloned objects.
+   * Defaults to `'skip'`.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+  /**
+   * Clone objects exactly: keep their prototype (so class instances keep their
+   * methods), copy symbol keys and non-enumerable properties, copy getters and
+   * setters as accessors instead of evaluating them, keep property attributes and
+   * re-apply `Object.freeze`, `Object.seal` and `Object.preventExtensions`.
+   */
+  preserveDescriptors?: boolean;
+}
+
 /**
- * Creates a deep clone of the given value, recursively cloning nested objects and arrays.
- * Handles circular references and preserves object types.
- *
- * @template T - The type of the value to clone
- * @param value - The value to clone
- * @returns A deep clone of the input value
- *
- * @example
- * ```typescript
- * import { cloneDeep } from 'datype';
- *
- * const original = {
- *   name: 'John',
- *   hobbies: ['reading', 'coding'],
- *   address: { city: 'Paris', zip: '75001' }
- * };
- *
- * const cloned = cloneDeep(original);
- * cloned.address.city = 'London';
- *
- * console.log(original.address.city); // 'Paris' (unchanged)
- * console.log(cloned.address.city);   // 'London'
- * ```
+ * Where `cloneDeepWith` found a value: its key in the parent (an array index, an
+ * object key, a Map key or a Set position), the parent itself, and the keys from
+ * the root. All are `undefined` or empty for the root value.
+ */
+export interface CloneDeepContext {
+  key: unknown;
+  parent: unknown;
+  path: readonly unknown[];
+}
+
+/**
+ * Returns the clone of a value, or `undefined` to clone it the default way.
  */
-export function cloneDeep<T>(value: T, seen = new WeakMap()): T {
+export type CloneDeepCustomizer = (
+  value: unknown,
+  context: CloneDeepContext
+) => unknown;
+
+// A key on the way from the root to a value, linked to the keys above it, so that
+// deep values do not copy long key arrays
+interface PathNode {
+  key: unknown;
+  parent: PathNode | undefined;
+}
+
+// Containers nested deeper than this are filled from `CloneState.pending` instead of
+// by recursion, so any depth of nesting clones without overflowing the call stack
+const MAX_RECURSION_DEPTH = 500;
+
+// Copies the contents of `source` into its empty clone `target`
+type FillContainer = (
+  source: any,
+  target: any,
+  state: CloneState,
+  path: PathNode | undefined
+) => void;
+
+interface PendingFill {
+  fill: FillContainer;
+  source: object;
+  target: object;
+  path: PathNode | undefined;
+}
+
+// The bytes `start` to `end` of a buffer
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// State shared by one clone call
+interface CloneState {
+  // Originals mapped to their clones, for circular and shared references
+  seen: WeakMap<object, unknown>;
+  // The value being cloned
+  root: unknown;
+  // The bytes reachable views cover in each buffer, worked out on the first view that
+  // covers only part of its buffer
+  coveredBytes: WeakMap<ArrayBuffer, ByteRange> | undefined;
+  // Where the clone of a buffer starts in the original, when only part was copied
+  bufferStarts: WeakMap<ArrayBuffer, number>;
+  policy: UnsafeKeyPolicy;
+  preserveDescriptors: boolean;
+  customizer: CloneDeepCustomizer | undefined;
+  // Containers being filled by recursion
+  depth: number;
+  // Containers too deep to fill by recursion, filled once the recursion unwinds
+  pending: PendingFill[];
+}
+
+function createState(
+  root: unknown,
+  options: CloneDeepOptions,
+  customizer: CloneDeepCustomizer | undefined
+): CloneState {
+  return {
+    seen: new WeakMap(),
+    root,
+    coveredBytes: undefined,
+    bufferStarts: new WeakMap(),
+    policy: options.unsafeKeys ?? 'skip',
+    preserveDescriptors: options.preserveDescriptors ?? false,
+    customizer,
+    depth: 0,
+    pending: [],
+  };
+}
+
+// Clones `value`, then fills the containers that were too deep to fill by recursion.
+// A deep linked list is cloned MAX_RECURSION_DEPTH levels at a time
+function cloneTree<T>(value: T, state: CloneState): T {
+  const root = cloneValue(value, state);
+
+  let task: PendingFill | undefined;
+  while ((task = state.pending.pop())) {
+    task.fill(task.source, task.target, state, task.path);
+  }
+  return root;
+}
+
+// Fills a new container now, or later when the recursion is already too deep
+function fillContainer(
+  fill: FillContainer,
+  source: object,
+  target: object,
+  state: CloneState,
+  path: PathNode | undefined
+): void {
+  if (state.depth >= MAX_RECURSION_DEPTH) {
+    state.pending.push({ fill, source, target, path });
+    return;
+  }
+
+  state.depth++;
+  fill(source, target, state, path);
+  state.depth--;
+}
+
+// Clones a value found at `path` in `parent`, asking the customizer first
+function cloneValue<T>(
+  value: T,
+  state: CloneState,
+  path?: PathNode,
+  parent?: unknown
+): T {
+  if (state.customizer) {
+    let keys: unknown[] | undefined;
+    const customized = state.customizer(value, {
+      key: path?.key,
+      parent,
+      get path() {
+        return (keys ??= pathKeys(path));
+      },
+    });
+    if (customized !== undefined) {
+      return customized as T;
+    }
+  }
+  return cloneNode(value, state, path);
+}
+
+// Paths are only tracked when there is a customizer to read them
+function childPath(
+  state: CloneState,
+  path: PathNode | undefined,
+  key: unknown
+): PathNode | undefined {
+  return state.customizer ? { key, parent: path } : path;
+}
+
+function pathKeys(path: PathNode | undefined): unknown[] {
+  const keys: unknown[] = [];
+  for (let node = path; node; node = node.parent) {
+    keys.push(node.key);
+  }
+  return keys.reverse();
+}
+
+// The default clone of a value; its children go through cloneValue
+function cloneNode<T>(
+  value: T,
+  state: CloneState,
+  path: PathNode | undefined
+): T {
+  const { seen } = state;
+
   // Handle null and undefined
   if (value === null || value === undefined) {
     return value;
@@ -36,7 +195,7 @@ export function cloneDeep<T>(value: T, seen = new WeakMap()): T {
 
   // Handle circular references
   if (seen.has(value as object)) {
-    return seen.get(value as object);
+    return seen.get(value as object) as T;
   }
 
   // Handle Date objects
@@ -49,60 +208,478 @@ export function cloneDeep<T>(value: T, seen = new WeakMap()): T {
     return new RegExp(value.source, value.flags) as T;
   }
 
+  // Handle boxed primitives, with their own properties
+  if (
+    value instanceof Number ||
+    value instanceof String ||
+    value instanceof Boolean
+  ) {
+    const clonedBox: object = Object(value.valueOf());
+    seen.set(value, clonedBox);
+    fillContainer(fillBoxed, value, clonedBox, state, path);
+    return clonedBox as T;
+  }
+
+  // Handle URL objects
+  if (typeof URL !== 'undefined' && value instanceof URL) {
+    return new URL(value.href) as T;
+  }
+
+  // Handle ArrayBuffer objects
+  if (value instanceof ArrayBuffer) {
+    const clonedBuffer = value.slice(0);
+    seen.set(value as object, clonedBuffer);
+    return clonedBuffer as T;
+  }
+
+  // Handle typed arrays and DataViews. Views over one buffer share its clone
+  if (ArrayBuffer.isView(value)) {
+    return cloneView(value, state) as T;
+  }
+
+  // Handle Error objects, keeping the subclass, message, stack and cause
+  if (value instanceof Error) {
+    const clonedError = createError(value);
+    seen.set(value, clonedError);
+    fillContainer(fillError, value, clonedError, state, path);
+    return clonedError as T;
+  }
+
   // Handle Arrays
   if (Array.isArray(value)) {
     const clonedArray: unknown[] = [];
+    keepPrototype(value, clonedArray, state);
     seen.set(value as object, clonedArray as T);
-
-    for (let i = 0; i < value.length; i++) {
-      clonedArray[i] = cloneDeep(value[i], seen);
-    }
-
+    fillContainer(fillArray, value, clonedArray, state, path);
     return clonedArray as T;
   }
 
   // Handle Set objects
   if (value instanceof Set) {
     const clonedSet = new Set();
+    keepPrototype(value, clonedSet, state);
     seen.set(value as object, clonedSet as T);
-
-    for (const item of Array.from(value as Set<any>)) {
-      clonedSet.add(cloneDeep(item, seen));
-    }
-
+    fillContainer(fillSet, value, clonedSet, state, path);
     return clonedSet as T;
   }
 
   // Handle Map objects
   if (value instanceof Map) {
     const clonedMap = new Map();
+    keepPrototype(value, clonedMap, state);
     seen.set(value as object, clonedMap as T);
-
-    for (const [key, val] of Array.from(value as Map<any, any>)) {
-      clonedMap.set(cloneDeep(key, seen), cloneDeep(val, seen));
-    }
-
+    fillContainer(fillMap, value, clonedMap, state, path);
     return clonedMap as T;
   }
 
+  // Handle other objects with their prototype, symbol keys and descriptors
+  if (state.preserveDescriptors) {
+    const clonedObject = Object.create(Object.getPrototypeOf(value));
+    seen.set(value as object, clonedObject);
+    fillContainer(fillObjectExact, value, clonedObject, state, path);
+    return clonedObject as T;
+  }
+
   // Handle plain objects
   if (typeof value === 'object') {
     const clonedObject: Record<string, unknown> = {};
     seen.set(value as object, clonedObject as T);
+    fillContainer(fillObject, value, clonedObject, state, path);
+    return clonedObject as T;
+  }
 
-    // Copy all enumerable properties (including inherited ones)
-    for (const key in value) {
-      if (Object.prototype.hasOwnProperty.call(value, key)) {
-        clonedObject[key] = cloneDeep(
-          (value as Record<string, unknown>)[key],
-          seen
+  // For other types (functions, etc.), return as-is
+  return value;
+}
+
+// With `preserveDescriptors`, subclasses of Array, Map and Set keep their prototype
+function keepPrototype(value: object, clone: object, state: CloneState): void {
+  const proto = Object.getPrototypeOf(value);
+  if (state.preserveDescriptors && proto !== Object.getPrototypeOf(clone)) {
+    Object.setPrototypeOf(clone, proto);
+  }
+}
+
+function fillArray(
+  source: unknown[],
+  target: unknown[],
+  state: CloneState,
+  path: PathNode | undefined
+): void {
+  for (let i = 0; i < source.length; i++) {
+    target[i] = cloneValue(source[i], state, childPath(state, path, i), source);
+  }
+
+  if (state.preserveDescriptors) {
+    copyIntegrity(source, target);
+  }
+}
+
+function fillSet(
+  source: Set<unknown>,
+  target: Set<unknown>,
+  state: CloneState,
+  path: PathNode | undefined
+): void {
+  let index = 0;
+  for (const item of Array.from(source)) {
+    target.add(
+      cloneValue(item, state, childPath(state, path, index++), source)
+    );
+  }
+}
+
+function fillMap(
+  source: Map<unknown, unknown>,
+  target: Map<unknown, unknown>,
+  state: CloneState,
+  path: PathNode | undefined
+): void {
+  for (const [key, val] of Array.from(source)) {
+    // Keys are cloned the default way; values get their key in the context
+    target.set(
+      cloneNode(key, state, path),
+      cloneValue(val, state, childPath(state, path, key), source)
+    );
+  }
+}
+
+function fillObject(
+  source: Record<string, unknown>,
+  target: Record<string, unknown>,
+  state: CloneState,
+  path: PathNode | undefined
+): void {
+  // Copy all enumerable properties (including inherited ones)
+  for (const key in source) {
+    if (
+      Object.prototype.hasOwnProperty.call(source, key) &&
+      isKeyAllowed(key, state.policy)
+    ) {
+      target[key] = cloneValue(
+        source[key],
+        state,
+        childPath(state, path, key),
+        source
+      );
+    }
+  }
+}
+
+function cloneView(view: ArrayBufferView, state: CloneState): ArrayBufferView {
+  // A SharedArrayBuffer is meant to be shared, so its views keep it
+  const { buffer, offset } =
+    view.buffer instanceof ArrayBuffer
+      ? cloneViewBuffer(view, view.buffer, state)
+      : { buffer: view.buffer, offset: view.byteOffset };
+
+  let clonedView: ArrayBufferView;
+  if (view instanceof DataView) {
+    clonedView = new DataView(buffer, offset, view.byteLength);
+  } else {
+    // The built-in constructor by name (`Uint8Array` for a Node.js Buffer), since
+    // subclass constructors may not accept (buffer, offset, length)
+    const name = Object.prototype.toString.call(view).slice(8, -1);
+    const TypedArray = (globalThis as Record<string, any>)[name];
+    clonedView = new TypedArray(
+      buffer,
+      offset,
+      view.byteLength / TypedArray.BYTES_PER_ELEMENT
+    );
+    // Subclasses such as Buffer keep their prototype
+    Object.setPrototypeOf(clonedView, Object.getPrototypeOf(view));
+  }
+
+  state.seen.set(view, clonedView);
+  return clonedView;
+}
+
+// The memory for the clone of a view, and the view's offset in it. Each buffer is
+// cloned once and shared by the clones of all its views. A buffer that only views
+// reach is copied from the first to the last byte they cover, so a pooled Node.js
+// Buffer (a few bytes of an 8 KB slab) does not copy the whole slab
+function cloneViewBuffer(
+  view: ArrayBufferView,
+  source: ArrayBuffer,
+  state: CloneState
+): { buffer: ArrayBuffer; offset: number } {
+  let buffer = state.seen.get(source) as ArrayBuffer | undefined;
+  if (!buffer) {
+    if (view.byteLength === source.byteLength) {
+      buffer = source.slice(0);
+    } else {
+      state.coveredBytes ??= findCoveredBytes(state.root);
+      // A view not reachable from the root (returned by a getter) covers its own bytes
+      const { start, end } = state.coveredBytes.get(source) ?? {
+        start: view.byteOffset,
+        end: view.byteOffset + view.byteLength,
+      };
+      buffer = source.slice(start, end);
+      state.bufferStarts.set(source, start);
+    }
+    state.seen.set(source, buffer);
+  }
+
+  const start = state.bufferStarts.get(source) ?? 0;
+  return { buffer, offset: view.byteOffset - start };
+}
+
+// Walks every value reachable from `root` (with an explicit stack, like cloneTree)
+// and records the bytes that views and buffers cover in each buffer
+function findCoveredBytes(root: unknown): WeakMap<ArrayBuffer, ByteRange> {
+  const covered = new WeakMap<ArrayBuffer, ByteRange>();
+  const cover = (buffer: ArrayBuffer, start: number, end: number) => {
+    const range = covered.get(buffer);
+    covered.set(
+      buffer,
+      range
+        ? { start: Math.min(start, range.start), end: Math.max(end, range.end) }
+        : { start, end }
+    );
+  };
+
+  const visited = new WeakSet<object>();
+  const stack: unknown[] = [root];
+  while (stack.length) {
+    const value = stack.pop();
+    if (typeof value !== 'object' || value === null || visited.has(value)) {
+      continue;
+    }
+    visited.add(value);
+
+    if (value instanceof ArrayBuffer) {
+      cover(value, 0, value.byteLength);
+    } else if (ArrayBuffer.isView(value)) {
+      if (value.buffer instanceof ArrayBuffer) {
+        const start = value.byteOffset;
+        cover(value.buffer, start, start + value.byteLength);
+      }
+    } else if (value instanceof Map) {
+      value.forEach((item, key) => stack.push(key, item));
+    } else if (value instanceof Set) {
+      value.forEach(item => stack.push(item));
+    } else {
+      // Getters are not evaluated; views they return cover their own bytes
+      for (const key of Reflect.ownKeys(value)) {
+        const descriptor = Object.getOwnPropertyDescriptor(value, key);
+        if (descriptor && 'value' in descriptor) {
+          stack.push(descriptor.value);
+        }
+      }
+    }
+  }
+  return covered;
+}
+
+// Made by the Error constructor, so the clone is a native error (`[object Error]`,
+// `util.types.isNativeError`) whatever arguments the subclass constructor expects.
+// A DOMException (as in `AbortSignal.reason`) keeps its name and message in internal
+// slots read by prototype getters, so it is made by its own constructor
+function createError(error: Error): Error {
+  const clonedError =
+    typeof DOMException !== 'undefined' && error instanceof DOMException
+      ? new DOMException(error.message, error.name)
+      : new Error();
+  // The stack of this call; the original's own properties are copied in fillError
+  Reflect.deleteProperty(clonedError, 'stack');
+  Object.setPrototypeOf(clonedError, Object.getPrototypeOf(error));
+  return clonedError;
+}
+
+function fillError(
+  error: Error,
+  clonedError: Error,
+  state: CloneState,
+  path: PathNode | undefined
+): void {
+  // Own properties include the non-enumerable message, stack, cause and errors
+  for (const key of Object.getOwnPropertyNames(error)) {
+    if (!isKeyAllowed(key, state.policy)) {
+      continue;
+    }
+
+    const descriptor = Object.getOwnPropertyDescriptor(error, key)!;
+    Object.defineProperty(clonedError, key, {
+      value: cloneValue(
+        (error as unknown as Record<string, unknown>)[key],
+        state,
+        childPath(state, path, key),
+        error
+      ),
+      writable: descriptor.writable ?? true,
+      enumerable: descriptor.enumerable ?? false,
+      configurable: true,
+    });
+  }
+}
+
+function fillObjectExact(
+  value: object,
+  clonedObject: object,
+  state: CloneState,
+  path: PathNode | undefined
+): void {
+  for (const key of Reflect.ownKeys(value)) {
+    if (typeof key === 'string' && !isKeyAllowed(key, state.policy)) {
+      continue;
+    }
+
+    const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+    // Accessors are copied as they are, so getters are not evaluated
+    if ('value' in descriptor) {
+      descriptor.value = cloneValue(
+        descriptor.value,
+        state,
+        childPath(state, path, key),
+        value
+      );
+    }
+    Object.defineProperty(clonedObject, key, descriptor);
+  }
+
+  copyIntegrity(value, clonedObject);
+}
+
+// A String wrapper comes with its read-only index keys and length, so keys the new
+// wrapper already has are skipped
+function fillBoxed(
+  value: object,
+  clonedBox: object,
+  state: CloneState,
+  path: PathNode | undefined
+): void {
+  for (const key of Reflect.ownKeys(value)) {
+    if (
+      Object.prototype.hasOwnProperty.call(clonedBox, key) ||
+      (typeof key === 'string' && !isKeyAllowed(key, state.policy))
+    ) {
+      continue;
+    }
+
+    const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+    if (state.preserveDescriptors) {
+      if ('value' in descriptor) {
+        descriptor.value = cloneValue(
+          descriptor.value,
+          state,
+          childPath(state, path, key),
+          value
         );
       }
+      Object.defineProperty(clonedBox, key, descriptor);
+    } else if (typeof key === 'string' && descriptor.enumerable) {
+      (clonedBox as Record<string, unknown>)[key] = cloneValue(
+        (value as Record<string, unknown>)[key],
+        state,
+        childPath(state, path, key),
+        value
+      );
     }
+  }
 
-    return clonedObject as T;
+  if (state.preserveDescriptors) {
+    copyIntegrity(value, clonedBox);
   }
+}
 
-  // For other types (functions, etc.), return as-is
-  return value;
+// Applied once the container is filled, so its own properties can still be defined
+function copyIntegrity(original: object, clone: object): void {
+  if (Object.isFrozen(original)) {
+    Object.freeze(clone);
+  } else if (Object.isSealed(original)) {
+    Object.seal(clone);
+  } else if (!Object.isExtensible(original)) {
+    Object.preventExtensions(clone);
+  }
+}
+
+/**
+ * Creates a deep clone of the given value, recursively cloning nested objects and arrays.
+ * Handles circular references and preserves object types: Dates, RegExps, Maps, Sets,
+ * typed arrays (views sharing a buffer keep sharing the cloned buffer, which holds only
+ * the bytes they cover unless the buffer itself is cloned too), `ArrayBuffer`,
+ * `DataView`, `Error`s (native errors with their subclass, message, stack and `cause`),
+ * boxed primitives (with their own properties) and `URL`s are cloned as such.
+ * Deeply nested values (long linked lists, parsed ASTs) are cloned without
+ * overflowing the call stack.
+ * Own keys named `__proto__`, `constructor` or `prototype` (as produced by `JSON.parse`)
+ * are left out of cloned objects unless the `unsafeKeys` option says otherwise.
+ *
+ * With `preserveDescriptors`, other objects are cloned exactly: class instances keep
+ * their prototype, symbol keys, non-enumerable properties and accessors are copied,
+ * and frozen, sealed or non-extensible objects are cloned into the same state.
+ * Subclasses of Array, Map and Set keep their prototype too.
+ *
+ * @template T - The type of the value to clone
+ * @param value - The value to clone
+ * @param options - Clone options (`unsafeKeys` policy for prototype-polluting keys,
+ * `preserveDescriptors`)
+ * @returns A deep clone of the input value
+ * @throws {UnsafeKeyError} If an object has an unsafe key and `unsafeKeys` is `'throw'`
+ *
+ * @example
+ * ```typescript
+ * import { cloneDeep } from 'datype';
+ *
+ * const original = {
+ *   name: 'John',
+ *   hobbies: ['reading', 'coding'],
+ *   address: { city: 'Paris', zip: '75001' }
+ * };
+ *
+ * const cloned = cloneDeep(original);
+ * cloned.address.city = 'London';
+ *
+ * console.log(original.address.city); // 'Paris' (unchanged)
+ * console.log(cloned.address.city);   // 'London'
+ *
+ * class Money {
+ *   constructor(readonly amount: number) {}
+ *   double() { return new Money(this.amount * 2); }
+ * }
+ * const price = cloneDeep(Object.freeze(new Money(5)), { preserveDescriptors: true });
+ * price.double(); // Money { amount: 10 }
+ * Object.isFrozen(price); // true
+ * ```
+ */
+export function cloneDeep<T>(value: T, options: CloneDeepOptions = {}): T {
+  return cloneTree(value, createState(value, options, undefined));
+}
+
+/**
+ * Like `cloneDeep`, but calls `customizer` for every value before cloning it, the
+ * root included. A value other than `undefined` is used as the clone as is (it is not
+ * cloned further); `undefined` clones the value the default way, calling the
+ * customizer for its children. Circular and shared references are handled as in
+ * `cloneDeep`.
+ *
+ * @template T - The type of the value to clone
+ * @param value - The value to clone
+ * @param customizer - Called with each value and its `{ key, parent, path }`
+ * @param options - Clone options, as for `cloneDeep`
+ * @returns A deep clone of the input value with customized values
+ * @throws {TypeError} If `customizer` is not a function
+ * @throws {UnsafeKeyError} If an object has an unsafe key and `unsafeKeys` is `'throw'`
+ *
+ * @example
+ * ```typescript
+ * import { cloneDeepWith } from 'datype';
+ *
+ * const clone = cloneDeepWith(order, (value, { key }) => {
+ *   if (value instanceof Decimal) return new Decimal(value); // clone library types
+ *   if (key === 'password') return '[REDACTED]'; // redact secrets
+ *   return undefined; // default clone
+ * });
+ * ```
+ */
+export function cloneDeepWith<T>(
+  value: T,
+  customizer: CloneDeepCustomizer,
+  options: CloneDeepOptions = {}
+): T {
+  if (typeof customizer !== 'function') {
+    throw new TypeError('Expected customizer to be a function');
+  }
+
+  return cloneTree(value, createState(value, options, customizer));
 }
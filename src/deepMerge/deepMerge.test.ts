@@ -2,7 +2,8 @@
  * Tests for deepMerge function
  */
 
-import { deepMerge } from './index';
+import { DELETE, deepMerge, deepMergeWith } from './index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
 import { describe, it, expect } from 'vitest';
 
 describe('deepMerge', () => {
@@ -16,12 +17,11 @@ describe('deepMerge', () => {
       expect(result).not.toBe(target); // Immutability check
     });
 
-    it('should return a copy when no sources provided', () => {
+    it('should return the target when no sources provided', () => {
       const target = { a: 1, b: 2 };
       const result = deepMerge(target);
 
-      expect(result).toEqual(target);
-      expect(result).not.toBe(target); // Immutability check
+      expect(result).toBe(target); // Nothing changed, so nothing is copied
     });
 
     it('should handle multiple sources', () => {
@@ -230,6 +230,63 @@ describe('deepMerge', () => {
       expect(source).toEqual(originalSource);
     });
 
+    it('should share unchanged subtrees with the target', () => {
+      const target = {
+        ui: { theme: 'dark', layout: { columns: 2 } },
+        api: { url: '/api', timeout: 5000 },
+        tags: ['a'],
+      };
+      const result = deepMerge(target, { api: { timeout: 10000 } });
+
+      expect(result).not.toBe(target);
+      expect(result.ui).toBe(target.ui);
+      expect(result.tags).toBe(target.tags);
+      expect(result.api).toEqual({ url: '/api', timeout: 10000 });
+    });
+
+    it('should return the target when the merge changes nothing', () => {
+      const target = {
+        ui: { theme: 'dark', layout: { columns: 2 } },
+        tags: ['a'],
+        lookup: new Map([['a', { id: 1 }]]),
+        roles: new Set(['read']),
+      };
+
+      expect(deepMerge(target, { ui: { layout: { columns: 2 } } })).toBe(
+        target
+      );
+      expect(deepMerge(target, { tags: [] }, {})).toBe(target);
+      expect(deepMerge(target, { ui: {} }, { ui: { theme: 'dark' } })).toBe(
+        target
+      );
+      expect(
+        deepMergeWith({ arrayMergeStrategy: 'union' })(target, { tags: ['a'] })
+      ).toBe(target);
+      expect(
+        deepMergeWith({ mergeMaps: true, mergeSets: true })(target, {
+          lookup: new Map([['a', { id: 1 }]]),
+          roles: new Set(['read']),
+        })
+      ).toBe(target);
+    });
+
+    it('should keep unchanged array elements by reference', () => {
+      const target = {
+        items: [
+          { id: 1, a: 1 },
+          { id: 2, b: 2 },
+        ],
+      };
+
+      const byId = deepMergeWith({ arrayMergeStrategy: { mergeBy: 'id' } });
+      const changed = byId(target, { items: [{ id: 2, b: 3 }] });
+      const unchanged = byId(target, { items: [{ id: 1, a: 1 }] });
+
+      expect(changed.items[0]).toBe(target.items[0]);
+      expect(changed.items[1]).toEqual({ id: 2, b: 3 });
+      expect(unchanged).toBe(target);
+    });
+
     it('should create new nested objects', () => {
       const target = { nested: { a: 1 } };
       const source = { nested: { b: 2 } };
@@ -412,6 +469,135 @@ describe('deepMerge', () => {
     });
   });
 
+  describe('Circular references', () => {
+    it('should close target cycles over the result', () => {
+      const target: any = { a: 1 };
+      target.self = target;
+
+      const result = deepMerge(target, { b: 2 });
+
+      expect(result.self).toBe(result);
+      expect(result.self.b).toBe(2);
+      expect(target.b).toBeUndefined();
+    });
+
+    it('should merge cycles present in both target and source', () => {
+      const target: any = { name: 'target', settings: { theme: 'dark' } };
+      target.self = target;
+      const source: any = { settings: { fontSize: 14 } };
+      source.self = source;
+
+      const result = deepMerge(target, source);
+
+      expect(result.self).toBe(result);
+      expect(result.settings).toEqual({ theme: 'dark', fontSize: 14 });
+      expect(target.settings).toEqual({ theme: 'dark' });
+    });
+
+    it('should merge circular sources without hitting maxDepth', () => {
+      const source: any = { level: 'source' };
+      source.next = source;
+      const target: any = { level: 'target' };
+      target.next = target;
+
+      const result = deepMergeWith({ maxDepth: 5 })(target, source);
+
+      expect(result.level).toBe('source');
+      expect(result.next).toBe(result);
+    });
+
+    it('should keep the period of a source cycle', () => {
+      const even: any = { parity: 'even' };
+      const odd: any = { parity: 'odd', next: even };
+      even.next = odd;
+      const target: any = { count: 0 };
+      target.next = target;
+
+      const result = deepMerge(target, even);
+
+      expect(result.parity).toBe('even');
+      expect(result.next.parity).toBe('odd');
+      expect(result.next.next).toBe(result);
+      expect(result.next.count).toBe(0);
+    });
+
+    it('should point parent references at merged parents', () => {
+      const tree: any = { name: 'root', child: { name: 'leaf' } };
+      tree.child.parent = tree;
+
+      const result = deepMerge(tree, { child: { name: 'renamed' } });
+
+      expect(result.child.name).toBe('renamed');
+      expect(result.child.parent).toBe(result);
+      expect(tree.child.parent).toBe(tree);
+    });
+
+    it('should not change shared references merged under another key', () => {
+      const STYLE = { color: 'black' };
+
+      const result = deepMerge(
+        { primary: STYLE, secondary: STYLE },
+        { primary: { color: 'red' } }
+      );
+
+      expect(result.primary).toEqual({ color: 'red' });
+      expect(result.secondary).toBe(STYLE);
+      expect(STYLE.color).toBe('black');
+    });
+
+    it('should keep target objects passed in by the source', () => {
+      const target = { a: { n: 1 } };
+
+      const result = deepMerge(target, { a: { n: 2 }, previous: target.a });
+
+      expect(result.a).toEqual({ n: 2 });
+      expect(result.previous).toBe(target.a);
+    });
+
+    it('should leave references between merged siblings as they are', () => {
+      const target: any = { a: { x: 1 }, b: { y: 1 } };
+      target.a.peer = target.b;
+      target.b.peer = target.a;
+
+      const result = deepMerge(target, { a: { x: 2 }, b: { y: 2 } });
+
+      expect(result.a.x).toBe(2);
+      expect(result.a.peer).toBe(target.b);
+      expect(result.b.peer).toBe(target.a);
+    });
+
+    it('should close cycles that exist only in the source', () => {
+      const source: any = { name: 's' };
+      source.self = source;
+
+      const result = deepMerge({ name: 't' }, source);
+
+      expect(result.name).toBe('s');
+      expect(result.self).toBe(result);
+      expect(source.self).toBe(source);
+    });
+
+    it('should close nested source cycles over the merged result', () => {
+      const source: any = { x: { z: 2 } };
+      source.x.up = source;
+
+      const result = deepMerge({ x: { y: 1 } }, source);
+
+      expect(result.x).toEqual({ y: 1, z: 2, up: result });
+      expect(result.x.up).toBe(result);
+      expect(result.x.up.x.y).toBe(1);
+    });
+
+    it('should assign circular sources by reference to missing keys', () => {
+      const source: any = { id: 1 };
+      source.self = source;
+
+      const result = deepMerge({ other: true }, { node: source });
+
+      expect(result.node).toBe(source);
+    });
+  });
+
   describe('Type testing demonstrations', () => {
     it('should preserve literal types', () => {
       const target = {
@@ -473,4 +659,730 @@ describe('deepMerge', () => {
       expect(result.features.logging.format).toBe('json');
     });
   });
+
+  describe('Array merge strategies', () => {
+    it('should merge arrays element by element with byIndex', () => {
+      const result = deepMergeWith({ arrayMergeStrategy: 'byIndex' })(
+        { ports: [{ port: 80, name: 'http' }, { port: 443 }], tags: ['a'] },
+        { ports: [{ port: 8080 }], tags: ['b', 'c'] }
+      );
+
+      expect(result.ports).toEqual([
+        { port: 8080, name: 'http' },
+        { port: 443 },
+      ]);
+      expect(result.tags).toEqual(['b', 'c']);
+    });
+
+    it('should deduplicate with isEqual for union', () => {
+      const result = deepMergeWith({ arrayMergeStrategy: 'union' })(
+        { plugins: ['auth', { name: 'cache' }, 'auth'] },
+        { plugins: [{ name: 'cache' }, 'metrics'] }
+      );
+
+      expect(result.plugins).toEqual(['auth', { name: 'cache' }, 'metrics']);
+    });
+
+    it('should merge elements sharing an identity key with mergeBy', () => {
+      const base = {
+        containers: [
+          { name: 'app', image: 'app:1', env: [{ name: 'A', value: '1' }] },
+          { name: 'sidecar', image: 'proxy:1' },
+        ],
+      };
+      const patch = {
+        containers: [
+          { name: 'app', image: 'app:2', env: [{ name: 'B', value: '2' }] },
+          { name: 'logger', image: 'fluent:1' },
+          { image: 'anonymous:1' },
+        ],
+      };
+
+      const result = deepMergeWith({
+        arrayMergeStrategy: { mergeBy: 'name' },
+      })(base, patch);
+
+      expect(result.containers).toEqual([
+        {
+          name: 'app',
+          image: 'app:2',
+          env: [
+            { name: 'A', value: '1' },
+            { name: 'B', value: '2' },
+          ],
+        },
+        { name: 'sidecar', image: 'proxy:1' },
+        { name: 'logger', image: 'fluent:1' },
+        { image: 'anonymous:1' },
+      ]);
+      expect(result.containers[1]).toBe(base.containers[1]);
+    });
+
+    it('should not mutate the input arrays', () => {
+      const target = { items: [{ id: 1, a: 1 }] };
+      const source = { items: [{ id: 1, b: 2 }] };
+
+      deepMergeWith({ arrayMergeStrategy: { mergeBy: 'id' } })(target, source);
+      deepMergeWith({ arrayMergeStrategy: 'byIndex' })(target, source);
+
+      expect(target).toEqual({ items: [{ id: 1, a: 1 }] });
+      expect(source).toEqual({ items: [{ id: 1, b: 2 }] });
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() =>
+        deepMergeWith({ arrayMergeStrategy: 'zip' as any })({}, {})
+      ).toThrow('Unknown array merge strategy "zip"');
+      expect(() =>
+        deepMergeWith({ arrayMergeStrategy: { mergeBy: 1 } as any })({}, {})
+      ).toThrow(TypeError);
+    });
+
+    it('should type results by strategy', () => {
+      const target = { tags: ['a'] as const };
+      const source = { tags: ['b'] as const };
+
+      const concat: readonly ['a', 'b'] = deepMerge(target, source).tags;
+      const replace: readonly ['b'] = deepMergeWith({
+        arrayMergeStrategy: 'replace',
+      })(target, source).tags;
+      const union: Array<'a' | 'b'> = deepMergeWith({
+        arrayMergeStrategy: 'union',
+      })(target, source).tags;
+
+      expect(concat).toEqual(['a', 'b']);
+      expect(replace).toEqual(['b']);
+      expect(union).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('deepMergeWith', () => {
+    it('should merge every argument as a source', () => {
+      const mergeConfig = deepMergeWith({ arrayMergeStrategy: 'replace' });
+      const result = mergeConfig(
+        { hosts: ['a'], retry: { attempts: 1 } },
+        { hosts: ['b'], maxDepth: 5 },
+        { arrayMergeStrategy: 'from-config' }
+      );
+
+      expect(result).toEqual({
+        hosts: ['b'],
+        retry: { attempts: 1 },
+        maxDepth: 5,
+        arrayMergeStrategy: 'from-config',
+      });
+    });
+
+    it('should be reusable and type results by strategy', () => {
+      const unionMerge = deepMergeWith({ arrayMergeStrategy: 'union' });
+
+      const first: number[] = unionMerge({ ids: [1, 2] }, { ids: [2, 3] }).ids;
+      const second = unionMerge({ ids: [1] }, { ids: [1] });
+
+      expect(first).toEqual([1, 2, 3]);
+      expect(second).toEqual({ ids: [1] });
+      expect(unionMerge({ a: 1 })).toEqual({ a: 1 });
+    });
+
+    it('should validate options when created', () => {
+      expect(() => deepMergeWith(null as any)).toThrow(
+        'Expected options to be an object'
+      );
+      expect(() => deepMergeWith({ arrayMergeStrategy: 'zip' as any })).toThrow(
+        'Unknown array merge strategy "zip"'
+      );
+      expect(() => deepMergeWith({})([] as any)).toThrow(
+        'Target must be a plain object'
+      );
+    });
+
+    it('should still read options passed as the last argument', () => {
+      const target = { hosts: ['a'] };
+
+      expect(
+        deepMerge(
+          target,
+          { hosts: ['b'] },
+          { hosts: ['c'] },
+          {
+            arrayMergeStrategy: 'replace',
+          }
+        )
+      ).toEqual({ hosts: ['c'] });
+      expect(deepMerge(target, { maxDepth: 5 })).toBe(target);
+      expect(() =>
+        deepMerge(target, { arrayMergeStrategy: 'zip' as any })
+      ).toThrow('Unknown array merge strategy "zip"');
+    });
+
+    it('should reject ambiguous last arguments whatever the argument count', () => {
+      const mixed = { maxDepth: 5, name: 'loader' };
+      const invalid = { maxDepth: 'deep' };
+
+      // @ts-expect-error a last argument mixing option keys is rejected
+      expect(() => deepMerge({ name: 'base' }, mixed)).toThrow(
+        'Ambiguous last argument to deepMerge: its option keys (maxDepth) do not form valid options. Use deepMergeWith(options).'
+      );
+      expect(() =>
+        // @ts-expect-error a last argument mixing option keys is rejected
+        deepMerge({ name: 'base' }, { retries: 1 }, mixed)
+      ).toThrow('Ambiguous last argument to deepMerge');
+      // @ts-expect-error option keys must hold option values
+      expect(() => deepMerge({}, invalid)).toThrow(TypeError);
+      // @ts-expect-error option keys must hold option values
+      expect(() => deepMerge({}, { a: 1 }, invalid)).toThrow(TypeError);
+      expect(deepMergeWith({})({ name: 'base' }, mixed)).toEqual(mixed);
+      expect(deepMergeWith({})({}, invalid)).toEqual(invalid);
+    });
+
+    it('should type options-only last arguments as options', () => {
+      const result = deepMerge(
+        { hosts: ['a'] },
+        { hosts: ['b'] },
+        { arrayMergeStrategy: 'replace' }
+      );
+
+      // @ts-expect-error options are not merged into the result
+      expect(result.arrayMergeStrategy).toBeUndefined();
+      expect(result).toEqual({ hosts: ['b'] });
+    });
+  });
+
+  describe('Maps, Sets and class instances', () => {
+    class Money {
+      constructor(
+        public amount: number,
+        public currency: string
+      ) {}
+    }
+
+    it('should replace Maps and Sets by default', () => {
+      const source = { lookup: new Map([['b', 2]]), ids: new Set([2]) };
+      const result = deepMerge(
+        { lookup: new Map([['a', 1]]), ids: new Set([1]) },
+        source
+      );
+
+      expect(result.lookup).toBe(source.lookup);
+      expect(result.ids).toBe(source.ids);
+    });
+
+    it('should merge Maps by key with mergeMaps', () => {
+      const target = {
+        routes: new Map([
+          ['home', { path: '/', auth: false }],
+          ['admin', { path: '/admin', auth: true }],
+        ]),
+      };
+      const source = {
+        routes: new Map([
+          ['home', { path: '/home' }],
+          ['about', { path: '/about' }],
+        ]),
+      };
+
+      const result = deepMergeWith({ mergeMaps: true })(target, source);
+
+      expect(result.routes).toBeInstanceOf(Map);
+      expect([...result.routes]).toEqual([
+        ['home', { path: '/home', auth: false }],
+        ['admin', { path: '/admin', auth: true }],
+        ['about', { path: '/about' }],
+      ]);
+      expect(target.routes.get('home')).toEqual({ path: '/', auth: false });
+    });
+
+    it('should union Sets with mergeSets', () => {
+      const target = { roles: new Set(['read']) };
+      const result = deepMergeWith({ mergeSets: true })(target, {
+        roles: new Set(['read', 'write']),
+      });
+
+      expect([...result.roles]).toEqual(['read', 'write']);
+      expect([...target.roles]).toEqual(['read']);
+    });
+
+    it('should take source instances by reference or clone them', () => {
+      const price = new Money(10, 'EUR');
+      const updatedAt = new Date('2024-01-01');
+
+      const replaced = deepMerge(
+        { price: new Money(5, 'USD'), updatedAt: new Date(0) },
+        { price, updatedAt }
+      );
+      expect(replaced.price).toBe(price);
+      expect(replaced.updatedAt).toBe(updatedAt);
+
+      const cloned = deepMergeWith({ classInstances: 'clone' })(
+        { price: new Money(5, 'USD') },
+        { price, updatedAt }
+      );
+      expect(cloned.price).not.toBe(price);
+      expect(cloned.price).toBeInstanceOf(Money);
+      expect(cloned.price).toEqual(price);
+      expect(cloned.updatedAt).not.toBe(updatedAt);
+      expect(cloned.updatedAt.getTime()).toBe(updatedAt.getTime());
+    });
+
+    it('should clone typed arrays, URLs and errors with their internal state', () => {
+      const bytes = new Uint8Array([1, 2, 3]);
+      const endpoint = new URL('https://example.com/api');
+      const failure = new RangeError('out of range');
+
+      const cloned = deepMergeWith({ classInstances: 'clone' })(
+        {},
+        { bytes, endpoint, failure }
+      );
+
+      expect(cloned.bytes).not.toBe(bytes);
+      expect(cloned.bytes).toBeInstanceOf(Uint8Array);
+      expect([...cloned.bytes]).toEqual([1, 2, 3]);
+      expect(cloned.endpoint).not.toBe(endpoint);
+      expect(cloned.endpoint.href).toBe('https://example.com/api');
+      expect(cloned.failure).not.toBe(failure);
+      expect(cloned.failure).toBeInstanceOf(RangeError);
+      expect(cloned.failure.message).toBe('out of range');
+    });
+
+    it('should use a registered merge function for matching instances', () => {
+      const addMoney = (a: Money, b: Money) =>
+        new Money(a.amount + b.amount, b.currency);
+
+      const result = deepMergeWith({
+        instanceMergers: new Map([[Money, addMoney]]),
+      })(
+        { total: new Money(5, 'EUR'), note: 'a' },
+        { total: new Money(10, 'EUR'), note: 'b' }
+      );
+
+      expect(result.total).toEqual(new Money(15, 'EUR'));
+    });
+
+    it('should validate the class instance options', () => {
+      expect(() =>
+        deepMergeWith({ classInstances: 'merge' as any })({}, {})
+      ).toThrow('Unknown class instance policy "merge"');
+      expect(() =>
+        deepMergeWith({ instanceMergers: {} as any })({}, {})
+      ).toThrow('Expected instanceMergers to be a Map');
+    });
+
+    it('should type merged Maps and Sets', () => {
+      const target = { m: new Map([['a', 1]]), s: new Set(['x']) };
+      const source = { m: new Map([['b', 'two']]), s: new Set([1]) };
+
+      const merged = deepMergeWith({
+        mergeMaps: true,
+        mergeSets: true,
+      })(target, source);
+      const values: Map<string, number | string> = merged.m;
+      const items: Set<string | number> = merged.s;
+
+      const replaced = deepMerge(target, source);
+      const sourceMap: Map<string, string> = replaced.m;
+
+      expect(values.size).toBe(2);
+      expect(items.size).toBe(2);
+      expect(sourceMap).toBe(source.m);
+    });
+  });
+
+  describe('Undefined, null and DELETE', () => {
+    const defaults = {
+      timeout: 5000,
+      retries: 3,
+      legacy: { enabled: true },
+      server: { host: 'localhost', port: 80 },
+    };
+
+    it('should write undefined source values by default', () => {
+      const result = deepMerge(defaults, { timeout: undefined });
+
+      expect(result).toHaveProperty('timeout', undefined);
+    });
+
+    it('should skip undefined source values with skipUndefined', () => {
+      const result = deepMergeWith({ skipUndefined: true })(defaults, {
+        timeout: undefined,
+        server: { port: undefined, host: 'example.com' },
+      });
+
+      expect(result.timeout).toBe(5000);
+      expect(result.server).toEqual({ host: 'example.com', port: 80 });
+
+      const typed: number = result.timeout;
+      expect(typed).toBe(5000);
+    });
+
+    it('should remove keys set to DELETE', () => {
+      const result = deepMerge(defaults, {
+        legacy: DELETE,
+        server: { port: DELETE },
+        missing: DELETE,
+      });
+
+      expect(result).toEqual({
+        timeout: 5000,
+        retries: 3,
+        server: { host: 'localhost' },
+      });
+      expect('legacy' in result).toBe(false);
+      expect(defaults.legacy).toEqual({ enabled: true });
+    });
+
+    it('should remove Map entries and let customizers return DELETE', () => {
+      const result = deepMergeWith({
+        mergeMaps: true,
+        customizer: (_target, _source, { key }) =>
+          key === 'debug' ? DELETE : undefined,
+      })(
+        {
+          flags: new Map([
+            ['a', 1],
+            ['b', 2],
+          ]),
+          debug: true,
+        },
+        { flags: new Map([['a', DELETE]]), debug: false }
+      );
+
+      expect([...result.flags]).toEqual([['b', 2]]);
+      expect(result).not.toHaveProperty('debug');
+    });
+
+    it('should reset null values to the target with nullAsReset', () => {
+      const result = deepMergeWith({ nullAsReset: true })(
+        defaults,
+        { timeout: 100, server: { port: 8080 } },
+        { timeout: null, server: { port: null }, custom: 1 },
+        { custom: null }
+      );
+
+      expect(result).toEqual({
+        timeout: 5000,
+        retries: 3,
+        legacy: { enabled: true },
+        server: { host: 'localhost', port: 80 },
+      });
+    });
+
+    it('should keep null as a value by default', () => {
+      const result = deepMerge(defaults, { timeout: null });
+
+      expect(result.timeout).toBeNull();
+    });
+
+    it('should reflect the directives in the result type', () => {
+      const result = deepMergeWith({ skipUndefined: true, nullAsReset: true })(
+        defaults,
+        { legacy: DELETE, retries: null, timeout: undefined }
+      );
+
+      const typed: {
+        timeout: number;
+        retries: number;
+        server: { host: string; port: number };
+      } = result;
+      // @ts-expect-error legacy was deleted
+      expect(result.legacy).toBeUndefined();
+      expect(typed.retries).toBe(3);
+    });
+  });
+
+  describe('Custom merge strategies', () => {
+    const base = {
+      plugins: ['auth', 'cache'],
+      headers: { 'Content-Type': 'text/plain', Accept: '*/*' },
+      secrets: { apiKey: 'base-key' },
+      server: { port: 80, tls: { enabled: false } },
+    };
+    const override = {
+      plugins: ['cache', 'metrics'],
+      headers: { 'content-type': 'application/json' },
+      secrets: { apiKey: 'leaked', token: 'new-token' },
+      server: { port: 8080, tls: { enabled: true } },
+    };
+
+    const union = (a: unknown, b: unknown) =>
+      Array.isArray(a) && Array.isArray(b)
+        ? [...new Set([...a, ...b])]
+        : undefined;
+
+    const mergeHeaders = (a: unknown, b: unknown) => {
+      const merged: Record<string, unknown> = {};
+      for (const headers of [a, b] as Array<Record<string, unknown>>) {
+        for (const [name, value] of Object.entries(headers ?? {})) {
+          merged[name.toLowerCase()] = value;
+        }
+      }
+      return merged;
+    };
+
+    it('should use a customizer and fall back on undefined', () => {
+      const calls: unknown[] = [];
+      const result = deepMergeWith({
+        customizer: (targetValue, sourceValue, context) => {
+          calls.push(context);
+          return context.key === 'plugins'
+            ? union(targetValue, sourceValue)
+            : undefined;
+        },
+      })(base, override);
+
+      expect(result.plugins).toEqual(['auth', 'cache', 'metrics']);
+      expect(result.server).toEqual({ port: 8080, tls: { enabled: true } });
+      expect(calls).toContainEqual({
+        key: 'enabled',
+        path: ['server', 'tls', 'enabled'],
+        depth: 2,
+      });
+    });
+
+    it('should apply strategies by path pattern', () => {
+      const result = deepMergeWith({
+        strategies: {
+          plugins: union,
+          headers: mergeHeaders,
+          secrets: 'keep',
+        },
+      })(base, override);
+
+      expect(result.plugins).toEqual(['auth', 'cache', 'metrics']);
+      expect(result.headers).toEqual({
+        'content-type': 'application/json',
+        accept: '*/*',
+      });
+      expect(result.secrets).toEqual({ apiKey: 'base-key' });
+    });
+
+    it('should keep existing values and fill in missing ones', () => {
+      const result = deepMergeWith({
+        strategies: { 'secrets.*': 'keep' },
+      })(base, override);
+
+      expect(result.secrets).toEqual({
+        apiKey: 'base-key',
+        token: 'new-token',
+      });
+    });
+
+    it('should replace values without merging into them', () => {
+      const result = deepMergeWith({
+        strategies: { 'server.tls': 'replace', plugins: 'replace' },
+      })(base, override);
+
+      expect(result.server.tls).toBe(override.server.tls);
+      expect(result.plugins).toEqual(['cache', 'metrics']);
+    });
+
+    it('should match * and ** wildcards', () => {
+      const result = deepMergeWith({ strategies: { '**.id': 'keep' } })(
+        { a: { x: { id: 1 } }, b: { c: { id: 2 } } },
+        { a: { x: { id: 10 } }, b: { c: { id: 20 } } }
+      );
+
+      expect(result).toEqual({ a: { x: { id: 1 } }, b: { c: { id: 2 } } });
+
+      const starResult = deepMergeWith({ strategies: { '*.x': 'keep' } })(
+        { a: { x: { id: 1 } }, b: { c: { id: 2 } } },
+        { a: { x: { id: 10 } }, b: { c: { id: 20 } } }
+      );
+
+      expect(starResult).toEqual({ a: { x: { id: 1 } }, b: { c: { id: 20 } } });
+    });
+
+    it('should prefer the first matching pattern over the customizer', () => {
+      const result = deepMergeWith({
+        strategies: { a: 'merge', '*': 'keep' },
+        customizer: () => 'customized',
+      })({ a: 1, b: 1 }, { a: 2, b: 2 });
+
+      expect(result).toEqual({ a: 2, b: 1 });
+    });
+
+    it('should validate customizers and strategies', () => {
+      expect(() =>
+        deepMergeWith({ customizer: 'nope' as any })({}, {})
+      ).toThrow('Expected customizer to be a function');
+      expect(() =>
+        deepMergeWith({ strategies: { a: 'union' as any } })({}, {})
+      ).toThrow('Unknown merge strategy "union" for "a"');
+    });
+  });
+
+  describe('Property descriptors', () => {
+    const descriptorMerge = deepMergeWith({ mergeDescriptors: true });
+
+    it('should copy getters at any depth without evaluating them', () => {
+      let reads = 0;
+      const source = {
+        server: {
+          get url() {
+            reads++;
+            return `http://${this.host}`;
+          },
+          host: 'example.com',
+        },
+      };
+
+      const result = descriptorMerge(
+        { server: { host: 'localhost', port: 80 } },
+        source
+      );
+
+      expect(reads).toBe(0);
+      expect(result.server.url).toBe('http://example.com');
+      expect(result.server.port).toBe(80);
+      expect(
+        typeof Object.getOwnPropertyDescriptor(result.server, 'url')!.get
+      ).toBe('function');
+    });
+
+    it('should not evaluate getters of the target', () => {
+      const target = {
+        get expensive(): number {
+          throw new Error('evaluated');
+        },
+        nested: { a: 1 },
+      };
+
+      const result = descriptorMerge(target, { nested: { b: 2 } });
+
+      expect(result.nested).toEqual({ a: 1, b: 2 });
+      expect(() => result.expensive).toThrow('evaluated');
+    });
+
+    it('should keep read-only and non-configurable attributes', () => {
+      const source = Object.defineProperty({}, 'id', {
+        value: 7,
+        enumerable: true,
+        writable: false,
+        configurable: false,
+      });
+
+      const result = descriptorMerge({ id: 1, name: 'a' }, source);
+
+      expect(Object.getOwnPropertyDescriptor(result, 'id')).toEqual({
+        value: 7,
+        enumerable: true,
+        writable: false,
+        configurable: false,
+      });
+      expect(result.name).toBe('a');
+    });
+
+    it('should merge non-enumerable properties only when asked', () => {
+      const source = Object.defineProperty({ visible: { a: 1 } }, 'hidden', {
+        value: { b: 2 },
+        enumerable: false,
+      });
+
+      expect(Object.getOwnPropertyNames(descriptorMerge({}, source))).toEqual([
+        'visible',
+      ]);
+
+      const result = deepMergeWith({
+        mergeDescriptors: true,
+        includeNonEnumerable: true,
+      })({ hidden: { a: 1 } }, source);
+      expect(Object.getOwnPropertyDescriptor(result, 'hidden')).toEqual({
+        value: { a: 1, b: 2 },
+        enumerable: false,
+        writable: false,
+        configurable: false,
+      });
+    });
+
+    it('should keep the prototype of null-prototype objects', () => {
+      const target = Object.assign(Object.create(null), {
+        nested: Object.assign(Object.create(null), { a: 1 }),
+      });
+
+      const result = descriptorMerge(target, { nested: { b: 2 } });
+
+      expect(Object.getPrototypeOf(result)).toBeNull();
+      expect(Object.getPrototypeOf(result.nested)).toBeNull();
+      expect({ ...result.nested }).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should keep sharing unchanged subtrees and cycles', () => {
+      const node: any = { name: 'root', config: { a: 1 } };
+      node.self = node;
+
+      const result = descriptorMerge(node, { name: 'merged' });
+
+      expect(result.self).toBe(result);
+      expect(result.config).toBe(node.config);
+    });
+  });
+
+  describe('Prototype pollution', () => {
+    it('should skip unsafe keys from untrusted sources', () => {
+      const payload = JSON.parse(
+        '{"__proto__": {"polluted": true}, "constructor": {"prototype": {"polluted": true}}, "settings": {"__proto__": {"admin": true}, "theme": "dark"}}'
+      );
+
+      const result = deepMerge({ settings: { theme: 'light' } }, payload);
+
+      expect(({} as any).polluted).toBeUndefined();
+      expect((result as any).polluted).toBeUndefined();
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(Object.keys(result)).toEqual(['settings']);
+      expect(result.settings).toEqual({ theme: 'dark' });
+      expect((result.settings as any).admin).toBeUndefined();
+    });
+
+    it('should throw when unsafeKeys is "throw"', () => {
+      const payload = JSON.parse('{"__proto__": {"polluted": true}}');
+
+      expect(() => deepMergeWith({ unsafeKeys: 'throw' })({}, payload)).toThrow(
+        UnsafeKeyError
+      );
+    });
+
+    it('should check unsafe keys nested under keys the target lacks', () => {
+      const payload = JSON.parse(
+        '{"settings": {"__proto__": {"admin": true}, "theme": "dark"}, "plugins": [{"constructor": {"prototype": {}}, "name": "a"}]}'
+      );
+      const shared = { theme: 'light' };
+
+      const result = deepMerge({ shared }, payload, { other: shared });
+
+      expect(
+        Object.prototype.hasOwnProperty.call(result.settings, '__proto__')
+      ).toBe(false);
+      expect(result.settings).toEqual({ theme: 'dark' });
+      expect(Object.keys(result.plugins[0]!)).toEqual(['name']);
+      expect(result.other).toBe(shared);
+      expect(payload.settings.__proto__).toEqual({ admin: true });
+      expect(() => deepMergeWith({ unsafeKeys: 'throw' })({}, payload)).toThrow(
+        UnsafeKeyError
+      );
+      expect(() =>
+        deepMergeWith({ unsafeKeys: 'throw', arrayMergeStrategy: 'replace' })(
+          { plugins: [] },
+          { plugins: payload.plugins }
+        )
+      ).toThrow(UnsafeKeyError);
+    });
+
+    it('should keep nested unsafe keys when unsafeKeys is "allow"', () => {
+      const payload = JSON.parse(
+        '{"settings": {"__proto__": {"admin": true}}}'
+      );
+
+      const result = deepMergeWith({ unsafeKeys: 'allow' })({}, payload);
+
+      expect(result.settings).toBe(payload.settings);
+    });
+
+    it('should copy unsafe keys when unsafeKeys is "allow"', () => {
+      const result = deepMergeWith({ unsafeKeys: 'allow' })(
+        {},
+        { constructor: 'custom' }
+      );
+
+      expect(result.constructor).toBe('custom');
+    });
+  });
 });
@@ -1,3 +1,9 @@
+import { cloneDeep, cloneDeepWith } from '../cloneDeep/index';
+import { isEqual } from '../isEqual/index';
+import { stringifyPath, toPath } from '../toPath/index';
+import { isKeyAllowed, isUnsafeKey } from '../unsafeKeys/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
 // Type definitions
 export type IsPlainObject<T> =
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -10,24 +16,182 @@ export type IsPlainObject<T> =
           ? false
           : T extends RegExp
             ? false
-            : true
+            : T extends ReadonlyMap<unknown, unknown>
+              ? false
+              : T extends ReadonlySet<unknown>
+                ? false
+                : true
     : false;
 
-export type DeepMergeResult<T, U> = {
-  [K in keyof T | keyof U]: K extends keyof T
+/**
+ * How arrays found at the same key are merged:
+ * - `'concat'` appends the source elements (the default)
+ * - `'replace'` takes the source array
+ * - `'byIndex'` deep-merges element `i` of the source into element `i` of the target
+ * - `'union'` concatenates and drops elements `isEqual` to an earlier one
+ * - `{ mergeBy: key }` deep-merges objects sharing the same `key` value and appends the rest
+ */
+export type ArrayMergeStrategy =
+  | 'concat'
+  | 'replace'
+  | 'byIndex'
+  | 'union'
+  | { mergeBy: string };
+
+/**
+ * The type of the `DELETE` sentinel. It is branded rather than a `unique symbol` so
+ * that `{ key: DELETE }` keeps its type in object literals.
+ */
+export type DeepMergeDelete = symbol & { readonly __deepMergeDelete: true };
+
+/**
+ * A source value that removes its key from the `deepMerge` result.
+ *
+ * @example
+ * ```typescript
+ * import { deepMerge, DELETE } from 'datype';
+ *
+ * deepMerge({ host: 'a', legacyFlag: true }, { legacyFlag: DELETE });
+ * // { host: 'a' }
+ * ```
+ */
+export const DELETE = Symbol('deepMerge.DELETE') as DeepMergeDelete;
+
+/**
+ * The options that change the shape of a merge result, as `DeepMergeResult` sees them.
+ */
+export interface DeepMergeConfig {
+  arrayMergeStrategy: ArrayMergeStrategy;
+  mergeMaps: boolean;
+  mergeSets: boolean;
+  skipUndefined: boolean;
+  nullAsReset: boolean;
+}
+
+export interface DefaultDeepMergeConfig extends DeepMergeConfig {
+  arrayMergeStrategy: 'concat';
+  mergeMaps: false;
+  mergeSets: false;
+  skipUndefined: false;
+  nullAsReset: false;
+}
+
+// The result config for an options object
+export type DeepMergeConfigOf<O> = {
+  arrayMergeStrategy: O extends {
+    arrayMergeStrategy: infer S extends ArrayMergeStrategy;
+  }
+    ? S
+    : 'concat';
+  mergeMaps: O extends { mergeMaps: true } ? true : false;
+  mergeSets: O extends { mergeSets: true } ? true : false;
+  skipUndefined: O extends { skipUndefined: true } ? true : false;
+  nullAsReset: O extends { nullAsReset: true } ? true : false;
+};
+
+type MergeElements<A, B, C extends DeepMergeConfig> =
+  IsPlainObject<A> extends true
+    ? IsPlainObject<B> extends true
+      ? DeepMergeResult<A, B, C> | A | B
+      : A | B
+    : A | B;
+
+type MergeArrays<
+  A,
+  B,
+  S extends ArrayMergeStrategy,
+  C extends DeepMergeConfig,
+> = A extends readonly unknown[]
+  ? B extends readonly unknown[]
+    ? S extends 'concat'
+      ? [...A, ...B]
+      : S extends 'replace'
+        ? B
+        : S extends 'union'
+          ? Array<A[number] | B[number]>
+          : Array<MergeElements<A[number], B[number], C>>
+    : B
+  : B;
+
+type MergeMaps<A, B, C extends DeepMergeConfig> = C['mergeMaps'] extends true
+  ? A extends ReadonlyMap<infer KA, infer VA>
+    ? B extends ReadonlyMap<infer KB, infer VB>
+      ? Map<KA | KB, MergeElements<VA, VB, C>>
+      : B
+    : B
+  : B;
+
+type MergeSets<A, B, C extends DeepMergeConfig> = C['mergeSets'] extends true
+  ? A extends ReadonlySet<infer EA>
+    ? B extends ReadonlySet<infer EB>
+      ? Set<EA | EB>
+      : B
+    : B
+  : B;
+
+// The merged value for a key found in both objects, ignoring merge directives
+type MergeValue<A, B, C extends DeepMergeConfig> =
+  IsPlainObject<A> extends true
+    ? IsPlainObject<B> extends true
+      ? DeepMergeResult<A, B, C>
+      : B
+    : [A] extends [readonly unknown[]]
+      ? [B] extends [readonly unknown[]]
+        ? MergeArrays<A, B, C['arrayMergeStrategy'], C>
+        : B
+      : [A] extends [ReadonlyMap<unknown, unknown>]
+        ? MergeMaps<A, B, C>
+        : [A] extends [ReadonlySet<unknown>]
+          ? MergeSets<A, B, C>
+          : B;
+
+// Source values that direct the merge instead of being merged
+type Directive<C extends DeepMergeConfig> =
+  | DeepMergeDelete
+  | (C['skipUndefined'] extends true ? undefined : never)
+  | (C['nullAsReset'] extends true ? null : never);
+
+// The source value without directives, or never when it only holds directives
+type MergedSource<B, C extends DeepMergeConfig> = Exclude<B, Directive<C>>;
+
+// Directives that keep (skipUndefined) or restore (nullAsReset) the target value
+type KeepsTarget<B, C extends DeepMergeConfig> = [
+  Extract<B, Exclude<Directive<C>, DeepMergeDelete>>,
+] extends [never]
+  ? false
+  : true;
+
+type IsRemoved<InTarget extends boolean, B, C extends DeepMergeConfig> = [
+  MergedSource<B, C>,
+] extends [never]
+  ? InTarget extends true
+    ? KeepsTarget<B, C> extends true
+      ? false
+      : true
+    : true
+  : false;
+
+type MergeKey<A, B, C extends DeepMergeConfig> =
+  | ([MergedSource<B, C>] extends [never]
+      ? never
+      : MergeValue<A, MergedSource<B, C>, C>)
+  | (KeepsTarget<B, C> extends true ? A : never);
+
+export type DeepMergeResult<
+  T,
+  U,
+  C extends DeepMergeConfig = DefaultDeepMergeConfig,
+> = {
+  [K in keyof T | keyof U as K extends keyof U
+    ? IsRemoved<K extends keyof T ? true : false, U[K], C> extends true
+      ? never
+      : K
+    : K]: K extends keyof T
     ? K extends keyof U
-      ? IsPlainObject<T[K]> extends true
-        ? IsPlainObject<U[K]> extends true
-          ? DeepMergeResult<T[K], U[K]>
-          : U[K]
-        : T[K] extends readonly unknown[]
-          ? U[K] extends readonly unknown[]
-            ? [...T[K], ...U[K]]
-            : U[K]
-          : U[K]
+      ? MergeKey<T[K], U[K], C>
       : T[K]
     : K extends keyof U
-      ? U[K]
+      ? MergedSource<U[K], C>
       : never;
 };
 
@@ -51,76 +215,1031 @@ function isPlainObject(obj: unknown): obj is MergeableObject {
   return proto === null || proto === Object.prototype;
 }
 
+/**
+ * Where a customizer is being asked to merge: the key, the full path of keys from
+ * the root, and the depth of the object that owns the key (0 for top-level keys).
+ */
+export interface DeepMergeContext {
+  key: string;
+  path: string[];
+  depth: number;
+}
+
+/**
+ * Decides the merged value for one key. Return `undefined` to fall back to the
+ * default merge behavior for that key.
+ */
+export type DeepMergeCustomizer = (
+  targetValue: unknown,
+  sourceValue: unknown,
+  context: DeepMergeContext
+) => unknown;
+
+/**
+ * How to merge the values at a path:
+ * - `'merge'` uses the default behavior
+ * - `'replace'` takes the source value without merging into it
+ * - `'keep'` keeps the existing value and only fills in missing keys
+ * - a customizer function decides the value itself
+ */
+export type DeepMergeStrategy =
+  | 'merge'
+  | 'replace'
+  | 'keep'
+  | DeepMergeCustomizer;
+
 export interface DeepMergeOptions {
-  arrayMergeStrategy?: 'concat' | 'replace';
+  /** How arrays at the same key are merged. Defaults to `'concat'`. */
+  arrayMergeStrategy?: ArrayMergeStrategy;
   maxDepth?: number;
+  /**
+   * How to treat `__proto__`, `constructor` and `prototype` keys in sources, at any depth.
+   * Defaults to `'skip'`.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+  /** Called for every source key; return `undefined` to use the default merge. */
+  customizer?: DeepMergeCustomizer;
+  /**
+   * Strategies by path pattern, using the `get` path syntax with `*` (any key) and
+   * `**` (any depth) wildcards. The first matching pattern wins over `customizer`.
+   */
+  strategies?: Record<string, DeepMergeStrategy>;
+  /** Merge Maps found at the same key by key, merging their values recursively. */
+  mergeMaps?: boolean;
+  /** Merge Sets found at the same key into their union. */
+  mergeSets?: boolean;
+  /**
+   * What to do with class instances (anything that is not a plain object, array,
+   * or a Map/Set merged above): `'replace'` (the default) takes the source instance,
+   * `'clone'` takes a copy of it made by `cloneDeep` with `preserveDescriptors`, keeping
+   * its prototype, property descriptors and built-in state (typed arrays, URLs, errors).
+   */
+  classInstances?: 'replace' | 'clone';
+  /**
+   * Merge functions by class. When the target and source values are both instances
+   * of a registered class, its function returns the merged value.
+   */
+  instanceMergers?: ReadonlyMap<InstanceConstructor, InstanceMerger>;
+  /** Ignore `undefined` source values instead of writing them over existing values. */
+  skipUndefined?: boolean;
+  /**
+   * Treat a `null` source value as "reset to default": the key gets its value from the
+   * target (the first argument), or is removed when the target does not have it.
+   */
+  nullAsReset?: boolean;
+  /**
+   * Copy property descriptors instead of values: getters and setters are copied as
+   * accessors (not merged), read-only and non-configurable properties keep their
+   * attributes, and copies keep the prototype of the object they copy.
+   */
+  mergeDescriptors?: boolean;
+  /** With `mergeDescriptors`, also merge non-enumerable properties. */
+  includeNonEnumerable?: boolean;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type InstanceConstructor = abstract new (...args: any[]) => unknown;
+
+/**
+ * Merges two instances of a registered class into the value for the result.
+ */
+export type InstanceMerger = (
+  targetValue: any, // eslint-disable-line @typescript-eslint/no-explicit-any
+  sourceValue: any // eslint-disable-line @typescript-eslint/no-explicit-any
+) => unknown;
+
+interface ResolvedOptions {
+  arrayMergeStrategy: ArrayMergeStrategy;
+  maxDepth: number;
+  unsafeKeys: UnsafeKeyPolicy;
+  customizer: DeepMergeCustomizer | undefined;
+  strategies: Array<[PropertyKey[], DeepMergeStrategy]>;
+  mergeMaps: boolean;
+  mergeSets: boolean;
+  classInstances: 'replace' | 'clone';
+  instanceMergers: ReadonlyMap<InstanceConstructor, InstanceMerger>;
+  skipUndefined: boolean;
+  nullAsReset: boolean;
+  mergeDescriptors: boolean;
+  includeNonEnumerable: boolean;
 }
 
-const DEFAULT_OPTIONS: Required<DeepMergeOptions> = {
+const DEFAULT_OPTIONS = {
   arrayMergeStrategy: 'concat',
   maxDepth: 50,
+  unsafeKeys: 'skip',
+  classInstances: 'replace',
+} as const;
+
+function resolveOptions(options: DeepMergeOptions): ResolvedOptions {
+  const {
+    arrayMergeStrategy = DEFAULT_OPTIONS.arrayMergeStrategy,
+    customizer,
+    strategies = {},
+    classInstances = DEFAULT_OPTIONS.classInstances,
+    instanceMergers = new Map(),
+  } = options;
+
+  if (
+    !['concat', 'replace', 'byIndex', 'union'].includes(
+      arrayMergeStrategy as string
+    ) &&
+    !(
+      typeof arrayMergeStrategy === 'object' &&
+      arrayMergeStrategy !== null &&
+      typeof arrayMergeStrategy.mergeBy === 'string'
+    )
+  ) {
+    throw new TypeError(
+      `Unknown array merge strategy "${String(arrayMergeStrategy)}"`
+    );
+  }
+
+  if (customizer !== undefined && typeof customizer !== 'function') {
+    throw new TypeError('Expected customizer to be a function');
+  }
+
+  if (classInstances !== 'replace' && classInstances !== 'clone') {
+    throw new TypeError(
+      `Unknown class instance policy "${String(classInstances)}"`
+    );
+  }
+
+  if (!(instanceMergers instanceof Map)) {
+    throw new TypeError('Expected instanceMergers to be a Map');
+  }
+
+  return {
+    arrayMergeStrategy,
+    maxDepth: options.maxDepth ?? DEFAULT_OPTIONS.maxDepth,
+    unsafeKeys: options.unsafeKeys ?? DEFAULT_OPTIONS.unsafeKeys,
+    customizer,
+    strategies: Object.entries(strategies).map(([pattern, strategy]) => {
+      if (
+        typeof strategy !== 'function' &&
+        strategy !== 'merge' &&
+        strategy !== 'replace' &&
+        strategy !== 'keep'
+      ) {
+        throw new TypeError(
+          `Unknown merge strategy "${String(strategy)}" for "${pattern}"`
+        );
+      }
+      return [toPath(pattern), strategy];
+    }),
+    mergeMaps: options.mergeMaps ?? false,
+    mergeSets: options.mergeSets ?? false,
+    classInstances,
+    instanceMergers,
+    skipUndefined: options.skipUndefined ?? false,
+    nullAsReset: options.nullAsReset ?? false,
+    mergeDescriptors: options.mergeDescriptors ?? false,
+    includeNonEnumerable: options.includeNonEnumerable ?? false,
+  };
+}
+
+// Matches a concrete path against a pattern with `*` and `**` segments
+function matchesPattern(
+  pattern: readonly PropertyKey[],
+  path: readonly string[],
+  i = 0,
+  j = 0
+): boolean {
+  if (i === pattern.length) {
+    return j === path.length;
+  }
+
+  const segment = pattern[i]!;
+  if (segment === '**') {
+    return (
+      matchesPattern(pattern, path, i + 1, j) ||
+      (j < path.length && matchesPattern(pattern, path, i, j + 1))
+    );
+  }
+
+  return (
+    j < path.length &&
+    (segment === '*' || String(segment) === path[j]) &&
+    matchesPattern(pattern, path, i + 1, j + 1)
+  );
+}
+
+function findStrategy(
+  options: ResolvedOptions,
+  path: string[]
+): DeepMergeStrategy | undefined {
+  for (const [pattern, strategy] of options.strategies) {
+    if (matchesPattern(pattern, path)) {
+      return strategy;
+    }
+  }
+  return options.customizer;
+}
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+
+// The type each option takes, to tell options apart from data with the same keys
+const OPTION_CHECKS: Record<
+  keyof DeepMergeOptions,
+  (value: unknown) => boolean
+> = {
+  arrayMergeStrategy: value =>
+    typeof value === 'string' ||
+    (isPlainObject(value) && typeof value.mergeBy === 'string'),
+  maxDepth: value => typeof value === 'number',
+  unsafeKeys: value =>
+    value === 'skip' || value === 'throw' || value === 'allow',
+  customizer: value => typeof value === 'function',
+  strategies: isPlainObject,
+  mergeMaps: isBoolean,
+  mergeSets: isBoolean,
+  classInstances: value => value === 'replace' || value === 'clone',
+  instanceMergers: value => value instanceof Map,
+  skipUndefined: isBoolean,
+  nullAsReset: isBoolean,
+  mergeDescriptors: isBoolean,
+  includeNonEnumerable: isBoolean,
+};
+
+// The last `deepMerge` argument: options when all of its keys are option keys,
+// rejected when it mixes them with other keys
+type OnlyOptionKeys<O> = O &
+  Record<Exclude<keyof O, keyof DeepMergeOptions>, never>;
+type NoOptionKeys<V> = V & {
+  [K in Extract<keyof V, keyof DeepMergeOptions>]?: never;
 };
+
+/**
+ * Decides whether the last `deepMerge` argument is options (the deprecated form).
+ * It is when every key is an option key holding a value of that option's type.
+ * An object with option keys that fails this is rejected rather than guessed at.
+ */
+function isOptionsObject(value: unknown): value is DeepMergeOptions {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+
+  const keys = Object.keys(value);
+  const optionKeys = keys.filter(key =>
+    Object.prototype.hasOwnProperty.call(OPTION_CHECKS, key)
+  );
+  if (optionKeys.length === 0) {
+    return false;
+  }
+
+  const isValid = optionKeys.every(
+    key =>
+      value[key] === undefined ||
+      OPTION_CHECKS[key as keyof DeepMergeOptions](value[key])
+  );
+  if (optionKeys.length < keys.length || !isValid) {
+    throw new TypeError(
+      `Ambiguous last argument to deepMerge: its option keys (${optionKeys.join(', ')}) do not form valid options. Use deepMergeWith(options).`
+    );
+  }
+  return true;
+}
+
+// One merge of a source into a target object; `result` is the target until it changes
+interface MergeFrame {
+  target: MergeableObject;
+  result: MergeableObject;
+  // Set once every source key is merged, when `result` is final
+  finished: boolean;
+}
+
+// State shared by one merge call
+interface MergeState {
+  options: ResolvedOptions;
+  // Merges by target and source, so cycles and shared references reuse one result
+  merges: WeakMap<object, Map<object, MergeFrame>>;
+  // Targets and sources being merged on the way to the current key, mapped to the
+  // innermost of their merges; references back to them close a cycle
+  targets: Map<unknown, MergeFrame>;
+  sources: Map<unknown, MergeFrame>;
+  // The first argument, where `null` resets values to
+  root: MergeableObject;
+  // Argument index that supplied each leaf, when tracked for resolveLayers
+  origins?: OriginNode;
+  // Argument index of the source being merged
+  layer: number;
+  // Keys of new objects to make non-configurable once merged (mergeDescriptors)
+  locks: Map<object, Set<string>>;
+  // Source objects and arrays already found free of unsafe keys
+  admitted: WeakSet<object>;
+}
+
+function createState(
+  target: MergeableObject,
+  options: ResolvedOptions
+): MergeState {
+  return {
+    options,
+    merges: new WeakMap(),
+    targets: new Map(),
+    sources: new Map(),
+    root: target,
+    layer: 0,
+    locks: new Map(),
+    admitted: new WeakSet(),
+  };
+}
+
+// Origins as a tree of keys, so the origins below a path are forgotten in one step
+interface OriginNode {
+  // Argument index that supplied the value at this path, when it is a leaf
+  layer?: number;
+  children?: Map<string, OriginNode>;
+}
+
+// Forgets the origins recorded at `path` and below it
+function clearOrigins(origins: OriginNode, path: string[]): void {
+  if (path.length === 0) {
+    delete origins.layer;
+    delete origins.children;
+    return;
+  }
+
+  let node: OriginNode | undefined = origins;
+  for (let i = 0; i < path.length - 1 && node; i++) {
+    node = node.children?.get(path[i]!);
+  }
+  node?.children?.delete(path[path.length - 1]!);
+}
+
+// Records `layer` as the origin of every leaf of `value`; arrays, Maps and Sets are leaves
+function recordOrigins(
+  origins: OriginNode,
+  path: string[],
+  value: unknown,
+  layer: number,
+  ancestors = new Set<object>()
+): void {
+  if (
+    isPlainObject(value) &&
+    Object.keys(value).length > 0 &&
+    !ancestors.has(value)
+  ) {
+    ancestors.add(value);
+    for (const key of Object.keys(value)) {
+      recordOrigins(origins, [...path, key], value[key], layer, ancestors);
+    }
+    ancestors.delete(value);
+    return;
+  }
+
+  if (path.length > 0) {
+    let node = origins;
+    for (const key of path) {
+      node.children ??= new Map();
+      let child = node.children.get(key);
+      if (!child) {
+        child = {};
+        node.children.set(key, child);
+      }
+      node = child;
+    }
+    node.layer = layer;
+  }
+}
+
+// Lists the recorded origins by leaf path, written with `stringifyPath`
+function collectOrigins(
+  node: OriginNode,
+  path: string[] = [],
+  result = new Map<string, number>()
+): Map<string, number> {
+  if (node.layer !== undefined) {
+    result.set(stringifyPath(path), node.layer);
+  }
+  for (const [key, child] of node.children ?? []) {
+    path.push(key);
+    collectOrigins(child, path, result);
+    path.pop();
+  }
+  return result;
+}
+
+// The value at `path` in the first argument, following plain objects only
+function defaultAt(
+  root: MergeableObject,
+  path: string[]
+): { found: boolean; value?: unknown } {
+  let current: unknown = root;
+  for (const key of path) {
+    if (
+      !isPlainObject(current) ||
+      !Object.prototype.hasOwnProperty.call(current, key)
+    ) {
+      return { found: false };
+    }
+    current = current[key];
+  }
+  return { found: true, value: current };
+}
+
 function mergeInternal<T extends MergeableObject>(
   target: T,
   sources: MergeableObject[],
-  options: Required<DeepMergeOptions>,
+  state: MergeState,
   depth = 0,
-  seen = new WeakSet()
+  path: string[] = []
 ): T {
+  const { options } = state;
+
   if (depth > options.maxDepth) {
     throw new Error(`Maximum merge depth (${options.maxDepth}) exceeded`);
   }
 
-  if (seen.has(target)) {
-    return target;
+  const [onlySource] = sources;
+  const known =
+    sources.length === 1 && isPlainObject(onlySource)
+      ? state.merges.get(target)?.get(onlySource)
+      : undefined;
+  if (known) {
+    // A cycle leads back to a merge under way, whose result is the copy; a shared
+    // reference leads to a finished merge
+    return (known.finished ? known.result : materialize(known, state)) as T;
   }
-  seen.add(target);
 
-  const result = { ...target };
+  const frame: MergeFrame = { target, result: target, finished: false };
+  const outerTarget = state.targets.get(target);
+  state.targets.set(target, frame);
+  // Keys the merge wrote or removed; the others still hold the target's values
+  const written = new Set<string>();
 
-  for (const source of sources) {
+  // Copied on the first change, so an unchanged target is returned as is.
+  // With mergeDescriptors, `attributes` is the source property's descriptor
+  const assign = (
+    key: string,
+    value: unknown,
+    attributes?: PropertyDescriptor
+  ) => {
+    written.add(key);
+    if (!attributes) {
+      const current = frame.result;
+      if (
+        Object.prototype.hasOwnProperty.call(current, key) &&
+        Object.is(current[key], value)
+      ) {
+        return;
+      }
+      materialize(frame, state)[key] = value;
+      return;
+    }
+
+    const descriptor: PropertyDescriptor =
+      'value' in attributes ? { ...attributes, value } : { ...attributes };
+    if (isSameDescriptor(getOwnDescriptor(frame.result, key), descriptor)) {
+      return;
+    }
+    const result = materialize(frame, state);
+    Object.defineProperty(result, key, { ...descriptor, configurable: true });
+    lockKey(state, result, key, !descriptor.configurable);
+  };
+  const write = (
+    key: string,
+    keyPath: string[],
+    value: unknown,
+    layer: number,
+    attributes?: PropertyDescriptor
+  ) => {
+    assign(key, value, attributes);
+    if (state.origins) {
+      clearOrigins(state.origins, keyPath);
+      recordOrigins(state.origins, keyPath, value, layer);
+    }
+  };
+  const remove = (key: string, keyPath: string[]) => {
+    written.add(key);
+    if (Object.prototype.hasOwnProperty.call(frame.result, key)) {
+      const result = materialize(frame, state);
+      delete result[key];
+      lockKey(state, result, key, false);
+    }
+    if (state.origins) {
+      clearOrigins(state.origins, keyPath);
+    }
+  };
+
+  for (const [index, source] of sources.entries()) {
     if (!isPlainObject(source)) {
       continue;
     }
+    if (depth === 0) {
+      state.layer = index + 1;
+    }
+    registerMerge(state, target, source, frame);
+    const outerSource = state.sources.get(source);
+    state.sources.set(source, frame);
 
-    for (const key of Object.keys(source)) {
-      const sourceValue = source[key];
-      const targetValue = result[key];
-
-      if (Array.isArray(targetValue) && Array.isArray(sourceValue)) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (result as any)[key] =
-          options.arrayMergeStrategy === 'concat'
-            ? [...targetValue, ...sourceValue]
-            : sourceValue;
-      } else if (isPlainObject(targetValue) && isPlainObject(sourceValue)) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (result as any)[key] = mergeInternal(
-          targetValue,
-          [sourceValue],
-          options,
-          depth + 1,
-          seen
-        );
+    for (const key of ownKeys(source, options)) {
+      if (!isKeyAllowed(key, options.unsafeKeys)) {
+        continue;
+      }
+
+      const keyPath = [...path, key];
+      const attributes = options.mergeDescriptors
+        ? getOwnDescriptor(source, key)
+        : undefined;
+
+      if (attributes && !('value' in attributes)) {
+        // Accessors are copied as they are, so they keep running on every read
+        write(key, keyPath, undefined, state.layer, attributes);
+        continue;
+      }
+
+      const sourceValue = attributes ? attributes.value : source[key];
+      const targetValue = options.mergeDescriptors
+        ? getOwnDescriptor(frame.result, key)?.value
+        : frame.result[key];
+
+      if (sourceValue === DELETE) {
+        remove(key, keyPath);
+        continue;
+      }
+      if (sourceValue === undefined && options.skipUndefined) {
+        continue;
+      }
+      if (sourceValue === null && options.nullAsReset) {
+        const fallback = defaultAt(state.root, keyPath);
+        if (fallback.found) {
+          write(key, keyPath, fallback.value, 0);
+        } else {
+          remove(key, keyPath);
+        }
+        continue;
+      }
+
+      const strategy = findStrategy(options, keyPath);
+
+      if (typeof strategy === 'function') {
+        const customized = strategy(targetValue, sourceValue, {
+          key,
+          path: keyPath,
+          depth,
+        });
+        if (customized === DELETE) {
+          remove(key, keyPath);
+          continue;
+        }
+        if (customized !== undefined) {
+          write(key, keyPath, customized, state.layer, attributes);
+          continue;
+        }
+      } else if (strategy === 'keep') {
+        if (!Object.prototype.hasOwnProperty.call(frame.result, key)) {
+          write(
+            key,
+            keyPath,
+            admit(sourceValue, state),
+            state.layer,
+            attributes
+          );
+        }
+        continue;
+      } else if (strategy === 'replace') {
+        write(key, keyPath, admit(sourceValue, state), state.layer, attributes);
+        continue;
+      }
+
+      // A reference back to a source being merged points at that merge's result
+      const cycle = isPlainObject(targetValue)
+        ? undefined
+        : state.sources.get(sourceValue);
+      if (cycle) {
+        write(key, keyPath, materialize(cycle, state), state.layer, attributes);
+        continue;
+      }
+
+      const merged = mergeValues(
+        targetValue,
+        sourceValue,
+        state,
+        depth,
+        keyPath
+      );
+      if (isPlainObject(targetValue) && isPlainObject(sourceValue)) {
+        // Nested merges record their own origins
+        assign(key, merged, attributes);
       } else {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (result as any)[key] = sourceValue;
+        write(key, keyPath, merged, state.layer, attributes);
       }
     }
+
+    restore(state.sources, source, outerSource);
+  }
+
+  if (frame.result !== target) {
+    closeTargetCycles(frame, written, state);
+  }
+  frame.finished = true;
+  restore(state.targets, target, outerTarget);
+
+  if (depth === 0) {
+    lock(state);
+  }
+  return frame.result as T;
+}
+
+function materialize(frame: MergeFrame, state: MergeState): MergeableObject {
+  if (frame.result !== frame.target) {
+    return frame.result;
+  }
+
+  if (!state.options.mergeDescriptors) {
+    frame.result = { ...frame.target };
+    return frame.result;
   }
 
-  seen.delete(target);
+  // Copied without reading values, so getters are not evaluated
+  const result = Object.create(Object.getPrototypeOf(frame.target));
+  for (const key of ownKeys(frame.target, state.options)) {
+    const descriptor = getOwnDescriptor(frame.target, key)!;
+    Object.defineProperty(result, key, { ...descriptor, configurable: true });
+    lockKey(state, result, key, !descriptor.configurable);
+  }
+  frame.result = result;
   return result;
 }
 
+// The string keys merged from an object: enumerable ones, or all of them when
+// mergeDescriptors and includeNonEnumerable are set
+function ownKeys(object: object, options: ResolvedOptions): string[] {
+  if (!(options.mergeDescriptors && options.includeNonEnumerable)) {
+    return Object.keys(object);
+  }
+  return Object.getOwnPropertyNames(object);
+}
+
+function getOwnDescriptor(
+  object: object,
+  key: string
+): PropertyDescriptor | undefined {
+  return Object.getOwnPropertyDescriptor(object, key);
+}
+
+function isSameDescriptor(
+  current: PropertyDescriptor | undefined,
+  next: PropertyDescriptor
+): boolean {
+  return (
+    current !== undefined &&
+    Object.is(current.value, next.value) &&
+    current.get === next.get &&
+    current.set === next.set &&
+    current.writable === next.writable &&
+    current.enumerable === next.enumerable &&
+    current.configurable === next.configurable
+  );
+}
+
+// Properties of new objects stay configurable until the merge is done, so later
+// sources and closed cycles can still redefine them
+function lockKey(
+  state: MergeState,
+  object: object,
+  key: string,
+  locked: boolean
+): void {
+  let keys = state.locks.get(object);
+  if (locked) {
+    if (!keys) {
+      keys = new Set();
+      state.locks.set(object, keys);
+    }
+    keys.add(key);
+  } else {
+    keys?.delete(key);
+  }
+}
+
+function lock(state: MergeState): void {
+  for (const [object, keys] of state.locks) {
+    for (const key of keys) {
+      Object.defineProperty(object, key, { configurable: false });
+    }
+  }
+}
+
+function registerMerge(
+  state: MergeState,
+  target: object,
+  source: object,
+  frame: MergeFrame
+): void {
+  let bySource = state.merges.get(target);
+  if (!bySource) {
+    bySource = new Map();
+    state.merges.set(target, bySource);
+  }
+  bySource.set(source, frame);
+}
+
+function restore(
+  frames: Map<unknown, MergeFrame>,
+  key: unknown,
+  outer: MergeFrame | undefined
+): void {
+  if (outer) {
+    frames.set(key, outer);
+  } else {
+    frames.delete(key);
+  }
+}
+
+// Keys of a new object that still hold the target's value and point back at a target
+// being merged (`node.self = node`, `child.parent = node`) are pointed at that merge's
+// result, so the cycle closes over the result. Other references, such as an object
+// shared by two keys, are left as they are
+function closeTargetCycles(
+  frame: MergeFrame,
+  written: Set<string>,
+  state: MergeState
+): void {
+  for (const key of Object.getOwnPropertyNames(frame.result)) {
+    if (written.has(key)) {
+      continue;
+    }
+    // Read from the descriptor so getters are not evaluated
+    const descriptor = getOwnDescriptor(frame.result, key)!;
+    const cycle = state.targets.get(descriptor.value);
+    if (cycle) {
+      Object.defineProperty(frame.result, key, {
+        value: materialize(cycle, state),
+      });
+    }
+  }
+}
+
+// The default merge of two values found at the same key (or array index)
+function mergeValues(
+  targetValue: unknown,
+  sourceValue: unknown,
+  state: MergeState,
+  depth: number,
+  path: string[]
+): unknown {
+  const { options } = state;
+
+  if (Array.isArray(targetValue) && Array.isArray(sourceValue)) {
+    return mergeArrays(targetValue, sourceValue, state, depth, path);
+  }
+
+  if (isPlainObject(targetValue) && isPlainObject(sourceValue)) {
+    return mergeInternal(targetValue, [sourceValue], state, depth + 1, path);
+  }
+
+  if (
+    options.mergeMaps &&
+    targetValue instanceof Map &&
+    sourceValue instanceof Map
+  ) {
+    const result = new Map(targetValue);
+    let changed = false;
+    for (const [key, value] of sourceValue) {
+      if (value === DELETE) {
+        changed = result.delete(key) || changed;
+        continue;
+      }
+      const merged = result.has(key)
+        ? mergeValues(result.get(key), value, state, depth + 1, [
+            ...path,
+            String(key),
+          ])
+        : admit(value, state);
+      if (!result.has(key) || !Object.is(result.get(key), merged)) {
+        result.set(key, merged);
+        changed = true;
+      }
+    }
+    return changed ? result : targetValue;
+  }
+
+  if (
+    options.mergeSets &&
+    targetValue instanceof Set &&
+    sourceValue instanceof Set
+  ) {
+    const additions = [...sourceValue]
+      .filter(item => !targetValue.has(item))
+      .map(item => admit(item, state));
+    return additions.length
+      ? new Set([...targetValue, ...additions])
+      : targetValue;
+  }
+
+  if (isClassInstance(sourceValue)) {
+    for (const [constructor, merger] of options.instanceMergers) {
+      if (
+        targetValue instanceof constructor &&
+        sourceValue instanceof constructor
+      ) {
+        return merger(targetValue, sourceValue);
+      }
+    }
+
+    if (options.classInstances === 'clone') {
+      return cloneInstance(sourceValue, options.unsafeKeys);
+    }
+  }
+
+  return admit(sourceValue, state);
+}
+
+// A source value taken as it is, whose nested keys no merge has checked. Plain
+// objects and arrays holding an unsafe key at any depth are copied without it
+// (or rejected), so a new key cannot carry `__proto__` into the result
+function admit(value: unknown, state: MergeState): unknown {
+  const { options } = state;
+  if (options.unsafeKeys === 'allow' || !hasUnsafeKey(value, state)) {
+    return value;
+  }
+
+  // Only plain objects and arrays are copied; other values keep their reference
+  return cloneDeepWith(
+    value,
+    item => (isPlainObject(item) || Array.isArray(item) ? undefined : item),
+    {
+      unsafeKeys: options.unsafeKeys,
+      preserveDescriptors: options.mergeDescriptors,
+    }
+  );
+}
+
+// Walks the plain objects and arrays under `value` with an explicit stack, reading
+// descriptors so getters are not evaluated. Throws for an unsafe key under 'throw'
+function hasUnsafeKey(value: unknown, state: MergeState): boolean {
+  const { options, admitted } = state;
+  const stack: unknown[] = [value];
+  const visited: object[] = [];
+  const seen = new Set<object>();
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+    const isArray = Array.isArray(current);
+    if (
+      !(isArray || isPlainObject(current)) ||
+      seen.has(current) ||
+      admitted.has(current) ||
+      // Sources being merged have their keys checked by the merge itself
+      state.sources.has(current)
+    ) {
+      continue;
+    }
+    seen.add(current);
+    visited.push(current);
+
+    const keys = isArray ? current.keys() : ownKeys(current, options).values();
+    for (const key of keys) {
+      if (
+        typeof key === 'string' &&
+        isUnsafeKey(key) &&
+        !isKeyAllowed(key, options.unsafeKeys)
+      ) {
+        return true;
+      }
+      stack.push(getOwnDescriptor(current, String(key))?.value);
+    }
+  }
+
+  for (const object of visited) {
+    admitted.add(object);
+  }
+  return false;
+}
+
+function isClassInstance(value: unknown): value is object {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !isPlainObject(value)
+  );
+}
+
+// Copies an instance with cloneDeep, keeping its prototype, internal slots (typed
+// arrays, URLs, errors) and property descriptors
+function cloneInstance(value: object, policy: UnsafeKeyPolicy): unknown {
+  return cloneDeep(value, { unsafeKeys: policy, preserveDescriptors: true });
+}
+
+function mergeArrays(
+  target: unknown[],
+  source: unknown[],
+  state: MergeState,
+  depth: number,
+  path: string[]
+): unknown[] {
+  const strategy = state.options.arrayMergeStrategy;
+  const mergeElements = (a: unknown, b: unknown, index: number) =>
+    mergeValues(a, b, state, depth + 1, [...path, String(index)]);
+
+  switch (strategy) {
+    case 'concat':
+      return source.length ? [...target, ...admitAll(source, state)] : target;
+
+    case 'replace':
+      return admit(source, state) as unknown[];
+
+    case 'byIndex': {
+      const result = [...target];
+      source.forEach((item, index) => {
+        result[index] =
+          index < target.length
+            ? mergeElements(target[index], item, index)
+            : admit(item, state);
+      });
+      return unlessUnchanged(result, target);
+    }
+
+    case 'union': {
+      const result: unknown[] = [];
+      for (const item of [...target, ...admitAll(source, state)]) {
+        if (!result.some(existing => isEqual(existing, item))) {
+          result.push(item);
+        }
+      }
+      return unlessUnchanged(result, target);
+    }
+
+    default: {
+      const { mergeBy } = strategy;
+      const result = [...target];
+      // Index of the element holding each identity value
+      const positions = new Map<unknown, number>();
+      const identityOf = (item: unknown) =>
+        isPlainObject(item) &&
+        Object.prototype.hasOwnProperty.call(item, mergeBy)
+          ? item[mergeBy]
+          : undefined;
+
+      result.forEach((item, index) => {
+        const id = identityOf(item);
+        if (id !== undefined && !positions.has(id)) {
+          positions.set(id, index);
+        }
+      });
+
+      for (const item of source) {
+        const id = identityOf(item);
+        const index = id === undefined ? undefined : positions.get(id);
+        if (index === undefined) {
+          if (id !== undefined) {
+            positions.set(id, result.length);
+          }
+          result.push(admit(item, state));
+        } else {
+          result[index] = mergeElements(result[index], item, index);
+        }
+      }
+      return unlessUnchanged(result, target);
+    }
+  }
+}
+
+function admitAll(items: unknown[], state: MergeState): unknown[] {
+  return items.map(item => admit(item, state));
+}
+
+// Returns `original` when `merged` holds the same elements, keeping references stable
+function unlessUnchanged(merged: unknown[], original: unknown[]): unknown[] {
+  return merged.length === original.length &&
+    merged.every((item, index) => Object.is(item, original[index]))
+    ? original
+    : merged;
+}
+
 /**
  * Deeply merges properties from multiple source objects into a target object.
  * Nested objects are merged recursively. Arrays are concatenated by default.
+ * Only the objects along changed paths are copied; unchanged subtrees keep their
+ * references, so memoized selectors and reducers see stable identities.
+ * Circular targets and sources produce a result with the same cycles: a reference
+ * back to a target or source object being merged points at the merged result.
+ * Other references, such as one object shared by two keys, are kept as they are.
+ * Source keys named `__proto__`, `constructor` or `prototype` are skipped at any depth
+ * unless the `unsafeKeys` option says otherwise, so untrusted input cannot pollute
+ * prototypes. A source object or array copied in under a new key is copied without them.
+ *
+ * Individual keys can be merged differently with a `customizer` function or with
+ * `strategies`, a map of path patterns to strategies. The result type assumes the
+ * default behavior, so annotate it when a strategy changes a value's type.
+ *
+ * Options are passed with `deepMergeWith(options)`. Passing them as the last argument
+ * still works but is deprecated: an object whose keys are all option keys, holding
+ * values of the options' types, is read as options, whatever the number of arguments.
+ * A last argument with option keys that fails this check is rejected, so data is never
+ * silently taken for options. Use `deepMergeWith` when sources may have keys such as
+ * `maxDepth`.
  *
  * @template T - The type of the initial target object
  * @param target - The target object to merge properties into (will not be mutated)
  * @param sources - One or more source objects whose properties will be merged
- * @returns A new object resulting from the merge, ensuring immutability
+ * @returns The merged object. Objects, arrays, Maps and Sets the merge leaves unchanged
+ * are returned as is (structural sharing), including the target itself.
+ * @throws {UnsafeKeyError} If a source has an unsafe key and `unsafeKeys` is `'throw'`
+ * @throws {TypeError} If the last argument has option keys but is not valid options
  *
  * @example
  * ```typescript
@@ -131,31 +1250,55 @@ function mergeInternal<T extends MergeableObject>(
  *   { api: { timeout: 10000 }, features: ['dashboard'] }
  * );
  * // Result: { api: { url: '/api', timeout: 10000 }, features: ['auth', 'dashboard'] }
+ *
+ * const merged = deepMergeWith({
+ *   strategies: {
+ *     secrets: 'keep',
+ *     plugins: (a, b) => [...new Set([...(a as string[]), ...(b as string[])])]
+ *   }
+ * })(base, override);
  * ```
  */
 export function deepMerge<T extends MergeableObject>(target: T): T;
 export function deepMerge<T extends MergeableObject, U extends MergeableObject>(
   target: T,
-  source: U
+  source: NoOptionKeys<U>
 ): DeepMergeResult<T, U>;
+/** @deprecated Pass options with `deepMergeWith(options)(target, ...sources)`. */
+export function deepMerge<
+  T extends MergeableObject,
+  const O extends DeepMergeOptions,
+>(target: T, options: OnlyOptionKeys<O>): T;
 export function deepMerge<
   T extends MergeableObject,
   U extends MergeableObject,
   V extends MergeableObject,
->(target: T, source1: U, source2: V): DeepMergeResult<DeepMergeResult<T, U>, V>;
-
-export function deepMerge<T extends MergeableObject>(
+>(
   target: T,
-  options: DeepMergeOptions
-): T;
-export function deepMerge<T extends MergeableObject, U extends MergeableObject>(
+  source1: U,
+  source2: NoOptionKeys<V>
+): DeepMergeResult<DeepMergeResult<T, U>, V>;
+/** @deprecated Pass options with `deepMergeWith(options)(target, ...sources)`. */
+export function deepMerge<
+  T extends MergeableObject,
+  U extends MergeableObject,
+  const O extends DeepMergeOptions,
+>(
   target: T,
   source: U,
-  options: DeepMergeOptions
-): DeepMergeResult<T, U>;
-export function deepMerge<T extends MergeableObject>(
+  options: OnlyOptionKeys<O>
+): DeepMergeResult<T, U, DeepMergeConfigOf<O>>;
+export function deepMerge<T extends MergeableObject, V extends MergeableObject>(
   target: T,
-  ...sourcesAndOptions: Array<MergeableObject | DeepMergeOptions>
+  ...sources: [...MergeableObject[], NoOptionKeys<V>]
+): T;
+/** @deprecated Pass options with `deepMergeWith(options)(target, ...sources)`. */
+export function deepMerge<
+  T extends MergeableObject,
+  const O extends DeepMergeOptions,
+>(
+  target: T,
+  ...sourcesAndOptions: [...MergeableObject[], OnlyOptionKeys<O>]
 ): T;
 export function deepMerge<T extends MergeableObject>(
   target: T,
@@ -166,25 +1309,104 @@ export function deepMerge<T extends MergeableObject>(
     throw new TypeError('Target must be a plain object');
   }
 
-  if (sourcesAndOptions.length === 0) {
-    return { ...target };
-  }
-
   let options: DeepMergeOptions = {};
-  let sources: MergeableObject[] = [];
+  let sources = sourcesAndOptions as MergeableObject[];
 
   const lastArg = sourcesAndOptions[sourcesAndOptions.length - 1];
-  if (
-    lastArg &&
-    typeof lastArg === 'object' &&
-    ('arrayMergeStrategy' in lastArg || 'maxDepth' in lastArg)
-  ) {
-    options = lastArg as DeepMergeOptions;
-    sources = sourcesAndOptions.slice(0, -1) as MergeableObject[];
-  } else {
-    sources = sourcesAndOptions as MergeableObject[];
+  if (isOptionsObject(lastArg)) {
+    options = lastArg;
+    sources = sources.slice(0, -1);
   }
 
-  const mergedOptions = { ...DEFAULT_OPTIONS, ...options };
-  return mergeInternal(target, sources, mergedOptions);
+  const resolved = resolveOptions(options);
+  if (sources.length === 0) {
+    return target;
+  }
+
+  return mergeInternal(target, sources, createState(target, resolved));
+}
+
+/**
+ * A `deepMerge` function with its options fixed, as returned by `deepMergeWith`.
+ * Every argument is a source, so sources are never mistaken for options.
+ */
+export interface DeepMergeFunction<
+  C extends DeepMergeConfig = DefaultDeepMergeConfig,
+> {
+  <T extends MergeableObject>(target: T): T;
+  <T extends MergeableObject, U extends MergeableObject>(
+    target: T,
+    source: U
+  ): DeepMergeResult<T, U, C>;
+  <
+    T extends MergeableObject,
+    U extends MergeableObject,
+    V extends MergeableObject,
+  >(
+    target: T,
+    source1: U,
+    source2: V
+  ): DeepMergeResult<DeepMergeResult<T, U, C>, V, C>;
+  <T extends MergeableObject>(target: T, ...sources: MergeableObject[]): T;
+}
+
+/**
+ * Creates a `deepMerge` function that uses the given options. Unlike passing options
+ * as the last argument of `deepMerge` (deprecated), every argument of the returned
+ * function is merged as a source, so a source with keys like `maxDepth` is never
+ * taken for options.
+ *
+ * @param options - Deep merge options (array strategy, customizers, `maxDepth`, `unsafeKeys`)
+ * @returns A function that deep-merges its arguments into a new object
+ * @throws {TypeError} If the options are invalid
+ *
+ * @example
+ * ```typescript
+ * import { deepMergeWith } from 'datype';
+ *
+ * const mergeConfig = deepMergeWith({ arrayMergeStrategy: 'replace' });
+ *
+ * mergeConfig({ retry: { maxDepth: 3 }, hosts: ['a'] }, { maxDepth: 5, hosts: ['b'] });
+ * // { retry: { maxDepth: 3 }, hosts: ['b'], maxDepth: 5 }
+ * ```
+ */
+export function deepMergeWith<const O extends DeepMergeOptions>(
+  options: O
+): DeepMergeFunction<DeepMergeConfigOf<O>> {
+  if (typeof options !== 'object' || options === null) {
+    throw new TypeError('Expected options to be an object');
+  }
+
+  const resolved = resolveOptions(options);
+
+  return ((target: MergeableObject, ...sources: MergeableObject[]) => {
+    if (!isPlainObject(target)) {
+      throw new TypeError('Target must be a plain object');
+    }
+    return mergeInternal(target, sources, createState(target, resolved));
+  }) as DeepMergeFunction<DeepMergeConfigOf<O>>;
+}
+
+/**
+ * Deep merges like `deepMerge`, also reporting which argument supplied each leaf:
+ * `0` for the target and `i + 1` for `sources[i]`. Leaf paths are written with
+ * `stringifyPath`; arrays, Maps and Sets count as leaves.
+ */
+export function mergeWithOrigins(
+  target: MergeableObject,
+  sources: MergeableObject[],
+  options: DeepMergeOptions = {}
+): { value: MergeableObject; origins: Map<string, number> } {
+  if (!isPlainObject(target)) {
+    throw new TypeError('Target must be a plain object');
+  }
+
+  const origins: OriginNode = {};
+  recordOrigins(origins, [], target, 0);
+
+  const state = createState(target, resolveOptions(options));
+  state.origins = origins;
+
+  const value = mergeInternal(target, sources, state);
+  return { value, origins: collectOrigins(origins) };
 }
@@ -432,7 +432,7 @@ describe('flattenDepth', () => {
 
       // Should be string[][]
       expect(Array.isArray(partial[0])).toBe(true);
-      expect(typeof partial[0]![0]).toBe('string');
+      expect(typeof (partial[0] as string[])[0]).toBe('string');
     });
   });
 });
@@ -0,0 +1,313 @@
+import { describe, it, expect } from 'vitest';
+import { flattenObject, unflattenObject } from './index';
+import { get } from '../get/index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
+
+describe('flattenObject', () => {
+  const config = {
+    db: { host: 'localhost', port: 5432 },
+    tags: ['a', 'b'],
+    features: { auth: { enabled: true } },
+  };
+
+  describe('basic flattening', () => {
+    it('should flatten nested objects into dotted keys', () => {
+      expect(flattenObject(config)).toEqual({
+        'db.host': 'localhost',
+        'db.port': 5432,
+        'tags.0': 'a',
+        'tags.1': 'b',
+        'features.auth.enabled': true,
+      });
+    });
+
+    it('should flatten top-level arrays', () => {
+      expect(flattenObject([{ a: 1 }, 2])).toEqual({ '0.a': 1, '1': 2 });
+      expect(flattenObject([{ a: 1 }], { indexStyle: 'bracket' })).toEqual({
+        '[0].a': 1,
+      });
+    });
+
+    it('should produce keys that get understands', () => {
+      const flat = flattenObject({
+        headers: { 'x.request.id': 'abc', 'a[b]': 1, '': 2 },
+        list: [[1]],
+      });
+
+      expect(flat).toEqual({
+        'headers["x.request.id"]': 'abc',
+        'headers["a[b]"]': 1,
+        'headers[""]': 2,
+        'list.0.0': 1,
+      });
+      for (const [key, value] of Object.entries(flat)) {
+        expect(
+          get(
+            {
+              headers: { 'x.request.id': 'abc', 'a[b]': 1, '': 2 },
+              list: [[1]],
+            },
+            key as never
+          )
+        ).toBe(value);
+      }
+    });
+
+    it('should keep empty containers and non-plain values as leaves', () => {
+      const date = new Date(0);
+      const map = new Map([['a', 1]]);
+
+      expect(flattenObject({ a: {}, b: [], c: date, d: map, e: null })).toEqual(
+        { a: {}, b: [], c: date, d: map, e: null }
+      );
+    });
+
+    it('should not mutate the input', () => {
+      const snapshot = JSON.stringify(config);
+      flattenObject(config);
+
+      expect(JSON.stringify(config)).toBe(snapshot);
+    });
+  });
+
+  describe('options', () => {
+    it('should write bracket indices', () => {
+      expect(
+        flattenObject(
+          { items: [{ id: 1 }, { id: 2 }] },
+          { indexStyle: 'bracket' }
+        )
+      ).toEqual({ 'items[0].id': 1, 'items[1].id': 2 });
+    });
+
+    it('should use a custom delimiter', () => {
+      expect(flattenObject(config, { delimiter: '__' })).toEqual({
+        db__host: 'localhost',
+        db__port: 5432,
+        tags__0: 'a',
+        tags__1: 'b',
+        features__auth__enabled: true,
+      });
+      expect(
+        flattenObject(
+          { a: { 'b.c': [1] } },
+          { delimiter: '/', indexStyle: 'bracket' }
+        )
+      ).toEqual({ 'a/b.c[0]': 1 });
+    });
+
+    it('should reject keys that contain a custom delimiter', () => {
+      expect(() => flattenObject({ a__b: 1 }, { delimiter: '__' })).toThrow(
+        'Key "a__b" contains the delimiter "__"'
+      );
+    });
+
+    it('should stop at maxDepth', () => {
+      expect(flattenObject(config, { maxDepth: 1 })).toEqual(config);
+      expect(flattenObject(config, { maxDepth: 2 })).toEqual({
+        'db.host': 'localhost',
+        'db.port': 5432,
+        'tags.0': 'a',
+        'tags.1': 'b',
+        'features.auth': { enabled: true },
+      });
+    });
+
+    it('should validate options', () => {
+      expect(() => flattenObject(config, { maxDepth: 0 })).toThrow(
+        'Expected maxDepth to be a positive integer'
+      );
+      expect(() => flattenObject(config, { delimiter: '' })).toThrow(
+        'Expected delimiter to be a non-empty string'
+      );
+      expect(() =>
+        flattenObject(config, { indexStyle: 'paren' as any })
+      ).toThrow('Unknown index style "paren"');
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should reject non-container input', () => {
+      expect(() => flattenObject(null as any)).toThrow(
+        'Expected a plain object or array'
+      );
+      expect(() => flattenObject(new Date() as any)).toThrow(
+        'Expected a plain object or array'
+      );
+    });
+
+    it('should reject circular structures', () => {
+      const circular: Record<string, unknown> = { a: 1 };
+      circular.self = circular;
+
+      expect(() => flattenObject(circular)).toThrow(
+        'Cannot flatten a circular structure'
+      );
+    });
+
+    it('should flatten shared (non-circular) references twice', () => {
+      const shared = { x: 1 };
+
+      expect(flattenObject({ a: shared, b: shared })).toEqual({
+        'a.x': 1,
+        'b.x': 1,
+      });
+    });
+
+    it('should keep a __proto__ key as data', () => {
+      const flat = flattenObject(JSON.parse('{"__proto__": 1}'));
+
+      expect(Object.getPrototypeOf(flat)).toBe(Object.prototype);
+      expect(Object.keys(flat)).toEqual(['__proto__']);
+    });
+  });
+});
+
+describe('unflattenObject', () => {
+  describe('basic unflattening', () => {
+    it('should rebuild nested objects and arrays', () => {
+      expect(
+        unflattenObject({
+          'db.host': 'localhost',
+          'db.port': 5432,
+          'tags.0': 'a',
+          'tags[1]': 'b',
+        })
+      ).toEqual({ db: { host: 'localhost', port: 5432 }, tags: ['a', 'b'] });
+    });
+
+    it('should parse quoted keys', () => {
+      expect(unflattenObject({ 'headers["x.request.id"]': 'abc' })).toEqual({
+        headers: { 'x.request.id': 'abc' },
+      });
+    });
+
+    it('should rebuild top-level arrays', () => {
+      expect(unflattenObject({ '0.a': 1, '1': 2 })).toEqual([{ a: 1 }, 2]);
+    });
+
+    it('should return an empty object for an empty input', () => {
+      expect(unflattenObject({})).toEqual({});
+    });
+  });
+
+  describe('options', () => {
+    it('should split on a custom delimiter', () => {
+      expect(
+        unflattenObject(
+          { DB__HOST: 'localhost', DB__REPLICAS__0: 'r1', 'LIST[0]': 1 },
+          { delimiter: '__' }
+        )
+      ).toEqual({ DB: { HOST: 'localhost', REPLICAS: ['r1'] }, LIST: [1] });
+    });
+
+    it('should skip unsafe keys by default', () => {
+      const result = unflattenObject({
+        '__proto__.polluted': true,
+        'constructor.prototype.polluted': true,
+        safe: 1,
+      });
+
+      expect(result).toEqual({ safe: 1 });
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should throw on unsafe keys with the "throw" policy', () => {
+      expect(() =>
+        unflattenObject({ '__proto__.x': 1 }, { unsafeKeys: 'throw' })
+      ).toThrow(UnsafeKeyError);
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should reject conflicting keys', () => {
+      expect(() => unflattenObject({ a: 1, 'a.b': 2 })).toThrow(
+        'Conflicting keys at "a.b"'
+      );
+      expect(() => unflattenObject({ 'a.b': 2, a: 1 })).toThrow(
+        'Conflicting keys at "a"'
+      );
+      expect(() => unflattenObject({ 'a.0': 1, 'a[0]': 2 })).toThrow(
+        'Conflicting keys at "a[0]"'
+      );
+    });
+
+    it('should not write into container values from the input', () => {
+      const leaf = {};
+
+      expect(() => unflattenObject({ a: leaf, 'a.b': 1 })).toThrow(
+        'Conflicting keys at "a.b"'
+      );
+      expect(leaf).toEqual({});
+    });
+
+    it('should reject malformed paths and empty keys', () => {
+      expect(() => unflattenObject({ 'a..b': 1 })).toThrow(SyntaxError);
+      expect(() => unflattenObject({ '': 1 })).toThrow(
+        'Cannot unflatten an empty key'
+      );
+    });
+
+    it('should reject non-object input', () => {
+      expect(() => unflattenObject(null as any)).toThrow(
+        'Expected a plain object'
+      );
+    });
+  });
+
+  describe('round trips', () => {
+    const samples = [
+      { db: { host: 'localhost', port: 5432 }, tags: ['a', 'b'] },
+      { headers: { 'x.request.id': 'abc', 'a\\b': 'c' }, empty: {}, list: [] },
+      { matrix: [[1, 2], [3]], nested: [{ a: [{ b: null }] }] },
+    ];
+
+    it('should restore flattened objects with every index style', () => {
+      for (const sample of samples) {
+        expect(unflattenObject(flattenObject(sample))).toEqual(sample);
+        expect(
+          unflattenObject(flattenObject(sample, { indexStyle: 'bracket' }))
+        ).toEqual(sample);
+      }
+    });
+
+    it('should restore objects flattened with a custom delimiter', () => {
+      const sample = { db: { replicas: [{ host: 'r1' }] }, port: 1 };
+
+      for (const indexStyle of ['dot', 'bracket'] as const) {
+        const flat = flattenObject(sample, { delimiter: '__', indexStyle });
+        expect(unflattenObject(flat, { delimiter: '__' })).toEqual(sample);
+      }
+    });
+  });
+
+  describe('real-world use cases', () => {
+    it('should convert env variables into config', () => {
+      const env = {
+        APP__PORT: '3000',
+        APP__DB__URL: 'postgres://localhost',
+        APP__ORIGINS__0: 'https://a.com',
+        APP__ORIGINS__1: 'https://b.com',
+      };
+
+      expect(unflattenObject(env, { delimiter: '__' })).toEqual({
+        APP: {
+          PORT: '3000',
+          DB: { URL: 'postgres://localhost' },
+          ORIGINS: ['https://a.com', 'https://b.com'],
+        },
+      });
+    });
+
+    it('should flatten i18n bundles into message keys', () => {
+      const messages = {
+        home: { title: 'Welcome', cta: { signUp: 'Sign up' } },
+      };
+
+      expect(flattenObject(messages)).toEqual({
+        'home.title': 'Welcome',
+        'home.cta.signUp': 'Sign up',
+      });
+    });
+  });
+});
@@ -0,0 +1,369 @@
+import { isPlainObject } from '../typeGuards/index';
+import { isIndexKey, stringifyPath, toPath } from '../toPath/index';
+import { isKeyAllowed } from '../unsafeKeys/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
+// Type definitions
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// Values that are never flattened further
+type FlatLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: never[]) => unknown);
+
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+export type IndexStyle = 'dot' | 'bracket';
+
+type JoinKey<
+  Prefix extends string,
+  Segment extends string,
+  D extends string,
+> = Prefix extends '' ? Segment : `${Prefix}${D}${Segment}`;
+
+type IndexKey<
+  Prefix extends string,
+  D extends string,
+  S extends IndexStyle,
+> = S extends 'bracket'
+  ? `${Prefix}[${number}]`
+  : JoinKey<Prefix, `${number}`, D>;
+
+// With the path grammar, keys containing path syntax are written as ["quoted"] segments
+type ObjectKey<
+  Prefix extends string,
+  K extends string,
+  D extends string,
+> = D extends '.'
+  ? K extends
+      | ''
+      | `${string}.${string}`
+      | `${string}[${string}`
+      | `${string}]${string}`
+      | `${string}\\${string}`
+    ? `${Prefix}["${K}"]`
+    : JoinKey<Prefix, K, D>
+  : JoinKey<Prefix, K, D>;
+
+// Union of [key, value] pairs for every leaf below T
+type FlatEntries<
+  T,
+  Prefix extends string,
+  D extends string,
+  S extends IndexStyle,
+  Depth extends number,
+> =
+  IsAny<T> extends true
+    ? [JoinKey<Prefix, string, D>, T]
+    : T extends FlatLeaf
+      ? [Prefix, T]
+      : [Depth] extends [never]
+        ? [Prefix, T]
+        : T extends readonly unknown[]
+          ? FlatEntries<
+              T[number],
+              IndexKey<Prefix, D, S>,
+              D,
+              S,
+              PrevDepth[Depth]
+            >
+          : {
+              [K in keyof T & (string | number)]-?: FlatEntries<
+                T[K],
+                ObjectKey<Prefix, `${K}`, D>,
+                D,
+                S,
+                PrevDepth[Depth]
+              >;
+            }[keyof T & (string | number)];
+
+/**
+ * The flat object `flattenObject` produces for `T`: one key per leaf, written with
+ * delimiter `D` and index style `S`. Empty objects and arrays are kept as values.
+ *
+ * @example
+ * ```typescript
+ * type Config = { db: { host: string; port: number }; tags: string[] };
+ *
+ * type Flat = FlattenedObject<Config>;
+ * // { 'db.host': string; 'db.port': number; [k: `tags.${number}`]: string }
+ * ```
+ */
+export type FlattenedObject<
+  T,
+  D extends string = '.',
+  S extends IndexStyle = 'dot',
+> =
+  IsAny<T> extends true
+    ? Record<string, unknown>
+    : {
+        [E in FlatEntries<T, '', D, S, 10> as E extends [infer K, unknown]
+          ? K & string
+          : never]: E extends [unknown, infer V] ? V : never;
+      };
+
+export interface FlattenObjectOptions {
+  /** Separator between keys. Defaults to `'.'`, the `get`/`set` path grammar. */
+  delimiter?: string;
+  /** Write array indices as `a.0` (`'dot'`, the default) or `a[0]` (`'bracket'`). */
+  indexStyle?: IndexStyle;
+  /** Maximum number of keys per flat key; deeper values are kept nested. */
+  maxDepth?: number;
+}
+
+export interface UnflattenObjectOptions {
+  /** Separator between keys. Defaults to `'.'`, the `get`/`set` path grammar. */
+  delimiter?: string;
+  /**
+   * How to treat `__proto__`, `constructor` and `prototype` keys.
+   * Defaults to `'skip'`.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+function validateDelimiter(delimiter: unknown): string {
+  if (typeof delimiter !== 'string' || delimiter === '') {
+    throw new TypeError('Expected delimiter to be a non-empty string');
+  }
+  return delimiter;
+}
+
+/**
+ * Flattens a nested object into a single-level object whose keys are paths.
+ * With the default `'.'` delimiter the keys use the `get`/`set` path grammar, so keys
+ * containing dots or brackets are quoted (`headers["x.request.id"]`) and
+ * `unflattenObject` restores the original structure.
+ *
+ * Plain objects and arrays are flattened; other values (Dates, Maps, class instances)
+ * are kept as leaves. Empty objects and arrays are kept as values.
+ *
+ * @template T - The type of the object
+ * @param obj - The object (or array) to flatten
+ * @param options - Flatten options (`delimiter`, `indexStyle`, `maxDepth`)
+ * @returns A new flat object mapping each path to its value
+ * @throws {TypeError} If the input is not a plain object or array, is circular,
+ * or a key contains a custom delimiter
+ *
+ * @example
+ * ```typescript
+ * import { flattenObject } from 'datype';
+ *
+ * const config = { db: { host: 'localhost', port: 5432 }, tags: ['a', 'b'] };
+ *
+ * flattenObject(config);
+ * // { 'db.host': 'localhost', 'db.port': 5432, 'tags.0': 'a', 'tags.1': 'b' }
+ *
+ * flattenObject(config, { indexStyle: 'bracket' });
+ * // { 'db.host': 'localhost', 'db.port': 5432, 'tags[0]': 'a', 'tags[1]': 'b' }
+ *
+ * flattenObject(config, { delimiter: '__' });
+ * // { db__host: 'localhost', db__port: 5432, tags__0: 'a', tags__1: 'b' }
+ *
+ * flattenObject({ a: { b: { c: 1 } } }, { maxDepth: 2 });
+ * // { 'a.b': { c: 1 } }
+ * ```
+ */
+export function flattenObject<T extends object>(obj: T): FlattenedObject<T>;
+export function flattenObject<
+  T extends object,
+  const D extends string = '.',
+  const S extends IndexStyle = 'dot',
+>(
+  obj: T,
+  options: FlattenObjectOptions & { delimiter?: D; indexStyle?: S } & {
+    maxDepth?: undefined;
+  }
+): FlattenedObject<T, D, S>;
+export function flattenObject<T extends object>(
+  obj: T,
+  options: FlattenObjectOptions
+): Record<string, unknown>;
+export function flattenObject(
+  obj: object,
+  options: FlattenObjectOptions = {}
+): Record<string, unknown> {
+  if (!isContainer(obj)) {
+    throw new TypeError('Expected a plain object or array');
+  }
+
+  const delimiter = validateDelimiter(options.delimiter ?? '.');
+  const indexStyle = options.indexStyle ?? 'dot';
+  const maxDepth = options.maxDepth ?? Infinity;
+
+  if (indexStyle !== 'dot' && indexStyle !== 'bracket') {
+    throw new TypeError(`Unknown index style "${String(indexStyle)}"`);
+  }
+  if (
+    !(maxDepth === Infinity || (Number.isInteger(maxDepth) && maxDepth > 0))
+  ) {
+    throw new TypeError('Expected maxDepth to be a positive integer');
+  }
+
+  const joinKey = (prefix: string, key: string, isIndex: boolean): string => {
+    if (isIndex && indexStyle === 'bracket') {
+      return `${prefix}[${key}]`;
+    }
+
+    if (delimiter === '.') {
+      // stringifyPath quotes keys that contain path syntax
+      const segment = stringifyPath([key]);
+      if (prefix === '') {
+        return segment;
+      }
+      return segment.startsWith('[')
+        ? `${prefix}${segment}`
+        : `${prefix}.${segment}`;
+    }
+
+    if (key.includes(delimiter)) {
+      throw new TypeError(`Key "${key}" contains the delimiter "${delimiter}"`);
+    }
+    return prefix === '' ? key : `${prefix}${delimiter}${key}`;
+  };
+
+  const result: Record<string, unknown> = {};
+  const ancestors = new Set<object>();
+
+  const visit = (value: unknown, prefix: string, depth: number): void => {
+    const entries = !isContainer(value)
+      ? []
+      : Array.isArray(value)
+        ? value.map((item, index) => [String(index), item] as const)
+        : Object.entries(value);
+
+    if (prefix !== '' && (entries.length === 0 || depth >= maxDepth)) {
+      // Defined so a `__proto__` key stays a plain data property
+      Object.defineProperty(result, prefix, {
+        value,
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+      return;
+    }
+
+    if (ancestors.has(value as object)) {
+      throw new TypeError('Cannot flatten a circular structure');
+    }
+    ancestors.add(value as object);
+
+    for (const [key, child] of entries) {
+      const path = joinKey(prefix, key, Array.isArray(value));
+      visit(child, path, depth + 1);
+    }
+
+    ancestors.delete(value as object);
+  };
+
+  visit(obj, '', 0);
+  return result;
+}
+
+// Splits a key written with a custom delimiter; `[0]` suffixes are array indices
+function splitKey(key: string, delimiter: string): string[] {
+  return key.split(delimiter).flatMap(part => {
+    const match = /^(.*?)((?:\[\d+\])*)$/.exec(part)!;
+    const indices = match[2]!.match(/\d+/g) ?? [];
+    return match[1] === '' && indices.length
+      ? indices
+      : [match[1]!, ...indices];
+  });
+}
+
+/**
+ * Rebuilds a nested object from a flat object whose keys are paths, the inverse of
+ * `flattenObject`. With the default `'.'` delimiter keys are parsed with `toPath`, so
+ * dot (`a.0`), bracket (`a[0]`) and quoted (`a["x.y"]`) segments are all accepted.
+ * Numeric segments create arrays, like `set`.
+ *
+ * @template T - The expected type of the result
+ * @param flat - The flat object to expand
+ * @param options - Unflatten options (`delimiter`, `unsafeKeys`)
+ * @returns A new nested object
+ * @throws {SyntaxError} If a key is not a valid path (default delimiter)
+ * @throws {TypeError} If two keys address the same location, such as `a` and `a.b`
+ * @throws {UnsafeKeyError} If a key is unsafe and `unsafeKeys` is `'throw'`
+ *
+ * @example
+ * ```typescript
+ * import { unflattenObject } from 'datype';
+ *
+ * unflattenObject({ 'db.host': 'localhost', 'db.port': 5432, 'tags[0]': 'a' });
+ * // { db: { host: 'localhost', port: 5432 }, tags: ['a'] }
+ *
+ * unflattenObject({ DB__HOST: 'localhost' }, { delimiter: '__' });
+ * // { DB: { HOST: 'localhost' } }
+ * ```
+ */
+export function unflattenObject<T = Record<string, unknown>>(
+  flat: Record<string, unknown>,
+  options: UnflattenObjectOptions = {}
+): T {
+  if (!isPlainObject(flat)) {
+    throw new TypeError('Expected a plain object');
+  }
+
+  const delimiter = validateDelimiter(options.delimiter ?? '.');
+  const policy = options.unsafeKeys ?? 'skip';
+  // Containers created here; any other value came from `flat` and is a leaf
+  const created = new WeakSet<object>();
+  const container = (key: PropertyKey): Record<PropertyKey, unknown> => {
+    const value = isIndexKey(key) ? [] : {};
+    created.add(value);
+    return value;
+  };
+  let result: Record<PropertyKey, unknown> | undefined;
+
+  for (const [flatKey, value] of Object.entries(flat)) {
+    const keys =
+      delimiter === '.' ? toPath(flatKey) : splitKey(flatKey, delimiter);
+
+    if (!keys.every(key => isKeyAllowed(key, policy))) {
+      continue;
+    }
+
+    if (keys.length === 0) {
+      throw new TypeError('Cannot unflatten an empty key');
+    }
+
+    result ??= container(keys[0]!);
+    let current = result;
+
+    for (let i = 0; i < keys.length - 1; i++) {
+      const key = keys[i]!;
+      if (!Object.prototype.hasOwnProperty.call(current, key)) {
+        current[key] = container(keys[i + 1]!);
+      } else if (!created.has(current[key] as object)) {
+        throw new TypeError(`Conflicting keys at "${flatKey}"`);
+      }
+      current = current[key] as Record<PropertyKey, unknown>;
+    }
+
+    const lastKey = keys[keys.length - 1]!;
+    if (Object.prototype.hasOwnProperty.call(current, lastKey)) {
+      throw new TypeError(`Conflicting keys at "${flatKey}"`);
+    }
+    Object.defineProperty(current, lastKey, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+
+  return (result ?? {}) as T;
+}
@@ -75,27 +75,33 @@ describe('get', () => {
 
   describe('non-existent paths', () => {
     it('should return undefined for non-existent top-level properties', () => {
-      expect(get(testObj, 'nonexistent')).toBeUndefined();
-      expect(get(testObj, 'missing')).toBeUndefined();
+      expect(get(testObj, 'nonexistent' as string)).toBeUndefined();
+      expect(get(testObj, 'missing' as string)).toBeUndefined();
     });
 
     it('should return undefined for non-existent nested properties', () => {
-      expect(get(testObj, 'profile.missing')).toBeUndefined();
-      expect(get(testObj, 'profile.preferences.missing')).toBeUndefined();
-      expect(get(testObj, 'missing.nested.path')).toBeUndefined();
+      expect(get(testObj, 'profile.missing' as string)).toBeUndefined();
+      expect(
+        get(testObj, 'profile.preferences.missing' as string)
+      ).toBeUndefined();
+      expect(get(testObj, 'missing.nested.path' as string)).toBeUndefined();
     });
 
     it('should return undefined when accessing properties on null/undefined', () => {
-      expect(get(testObj, 'data.property')).toBeUndefined();
-      expect(get(testObj, 'missing.nested.property')).toBeUndefined();
+      expect(get(testObj, 'data.property' as string)).toBeUndefined();
+      expect(get(testObj, 'missing.nested.property' as string)).toBeUndefined();
     });
   });
 
   describe('default values', () => {
     it('should return default value for non-existent properties', () => {
-      expect(get(testObj, 'missing', 'default')).toBe('default');
-      expect(get(testObj, 'profile.missing', 'default')).toBe('default');
-      expect(get(testObj, 'missing.nested.path', 'default')).toBe('default');
+      expect(get(testObj, 'missing' as string, 'default')).toBe('default');
+      expect(get(testObj, 'profile.missing' as string, 'default')).toBe(
+        'default'
+      );
+      expect(get(testObj, 'missing.nested.path' as string, 'default')).toBe(
+        'default'
+      );
     });
 
     it('should return actual value instead of default when property exists', () => {
@@ -106,11 +112,11 @@ describe('get', () => {
     });
 
     it('should handle various default value types', () => {
-      expect(get(testObj, 'missing', null)).toBeNull();
-      expect(get(testObj, 'missing', 0)).toBe(0);
-      expect(get(testObj, 'missing', false)).toBe(false);
-      expect(get(testObj, 'missing', [])).toEqual([]);
-      expect(get(testObj, 'missing', {})).toEqual({});
+      expect(get(testObj, 'missing' as string, null)).toBeNull();
+      expect(get(testObj, 'missing' as string, 0)).toBe(0);
+      expect(get(testObj, 'missing' as string, false)).toBe(false);
+      expect(get(testObj, 'missing' as string, [])).toEqual([]);
+      expect(get(testObj, 'missing' as string, {})).toEqual({});
     });
   });
 
@@ -141,8 +147,8 @@ describe('get', () => {
       expect(get(true, 'valueOf')).toBeDefined();
 
       // But nested access on primitives should return undefined
-      expect(get('string', 'length.invalid')).toBeUndefined();
-      expect(get(123, 'toString.invalid')).toBeUndefined();
+      expect(get('string', 'length.invalid' as string)).toBeUndefined();
+      expect(get(123, 'toString.invalid' as string)).toBeUndefined();
     });
 
     it('should handle objects with numeric keys', () => {
@@ -207,7 +213,11 @@ describe('get', () => {
       );
       expect(get(apiResponse, 'meta.requestId')).toBe('req-123');
       expect(
-        get(apiResponse, 'data.user.profile.personal.middleName', 'N/A')
+        get(
+          apiResponse,
+          'data.user.profile.personal.middleName' as string,
+          'N/A'
+        )
       ).toBe('N/A');
     });
 
@@ -235,7 +245,155 @@ describe('get', () => {
       expect(get(config, 'app.features.auth.providers.0')).toBe('google');
       expect(get(config, 'app.features.auth.settings.timeout')).toBe(5000);
       expect(get(config, 'app.features.ui.components.1')).toBe('sidebar');
-      expect(get(config, 'app.features.payments.enabled', false)).toBe(false);
+      expect(
+        get(config, 'app.features.payments.enabled' as string, false)
+      ).toBe(false);
+    });
+  });
+
+  describe('bracket and quoted paths', () => {
+    const request = {
+      headers: { 'x.request.id': 'req-42', accept: 'application/json' },
+      items: [{ name: 'first' }, { name: 'second' }],
+      matrix: [
+        [1, 2],
+        [3, 4],
+      ],
+    };
+
+    it('should access array elements with bracket indices', () => {
+      expect(get(request, 'items[0].name')).toBe('first');
+      expect(get(request, 'items[1].name')).toBe('second');
+      expect(get(request, 'matrix[1][0]')).toBe(3);
+      expect(get(request.items, '[0].name')).toBe('first');
+    });
+
+    it('should access keys containing dots with quoted segments', () => {
+      expect(get(request, 'headers["x.request.id"]')).toBe('req-42');
+      expect(get(request, "headers['x.request.id']")).toBe('req-42');
+      expect(get(request, 'headers["accept"]')).toBe('application/json');
+    });
+
+    it('should access keys containing dots with escaped dots', () => {
+      expect(get(request, 'headers.x\\.request\\.id')).toBe('req-42');
+    });
+
+    it('should return the default value for missing bracket paths', () => {
+      expect(get(request, 'items[5].name', 'none')).toBe('none');
+      expect(get(request, 'headers["x.missing"]' as string, 'none')).toBe(
+        'none'
+      );
+    });
+
+    it('should throw for malformed paths', () => {
+      expect(() => get(request, 'items[0' as string)).toThrow(SyntaxError);
+      expect(() => get(request, 'headers..accept')).toThrow(
+        'Invalid path "headers..accept": empty segment at position 8'
+      );
+    });
+  });
+
+  describe('array paths', () => {
+    const meta = Symbol('meta');
+    const data = {
+      [meta]: { source: 'api', tags: ['a', 'b'] },
+      items: [{ name: 'first' }, { name: 'second' }],
+      'a.b': { '[c]': 'literal' },
+      1: 'numeric key',
+    };
+
+    it('should access symbol keys', () => {
+      expect(get(data, [meta, 'source'])).toBe('api');
+      expect(get(data, [meta, 'tags', 1])).toBe('b');
+    });
+
+    it('should access numeric keys on arrays and objects', () => {
+      expect(get(data, ['items', 0, 'name'])).toBe('first');
+      expect(get(data, ['items', '1', 'name'])).toBe('second');
+      expect(get(data, [1])).toBe('numeric key');
+    });
+
+    it('should use keys containing path syntax verbatim', () => {
+      expect(get(data, ['a.b', '[c]'])).toBe('literal');
+    });
+
+    it('should return the default value for missing paths', () => {
+      expect(get(data, ['items', 5, 'name'], 'none')).toBe('none');
+      expect(get(data, [Symbol('other')], 'none')).toBe('none');
+    });
+
+    it('should treat an empty array as an invalid path', () => {
+      expect(get(data, [])).toBeUndefined();
+      expect(get(data, [], 'default')).toBe('default');
+    });
+  });
+
+  describe('path types', () => {
+    const user = {
+      profile: { name: 'John', age: undefined as number | undefined },
+    };
+
+    it('should type literal paths into concrete types', () => {
+      const name: string = get(user, 'profile.name');
+      const age: number = get(user, 'profile.age', 30);
+
+      expect(name).toBe('John');
+      expect(age).toBe(30);
+    });
+
+    it('should reject mistyped literal paths', () => {
+      // @ts-expect-error - 'nmae' is not a key of profile
+      expect(get(user, 'profile.nmae')).toBeUndefined();
+      // @ts-expect-error - the default does not make a typo valid
+      expect(get(user, 'profile.nmae', 'N/A')).toBe('N/A');
+    });
+
+    it('should accept runtime string paths typed as unknown', () => {
+      const path: string = 'profile.name';
+      const name = get(user, path);
+
+      // @ts-expect-error - runtime paths are typed as unknown, not any
+      name.toUpperCase();
+      expect(typeof name === 'string' && name.toUpperCase()).toBe('JOHN');
+      expect(get(null, 'any.path')).toBeUndefined();
+    });
+
+    it('should accept paths into generic objects', () => {
+      const getId = <T extends { id: string }>(record: T) => get(record, 'id');
+
+      expect(getId({ id: 'a1', extra: true })).toBe('a1');
+    });
+
+    it('should check deep paths into recursive types', () => {
+      interface TreeNode {
+        id: string;
+        children: TreeNode[];
+        siblings: TreeNode[];
+        parent?: TreeNode;
+        next?: TreeNode;
+        meta: { tags: string[] };
+      }
+      const leaf: TreeNode = {
+        id: 'leaf',
+        children: [],
+        siblings: [],
+        meta: { tags: ['new'] },
+      };
+      const root: TreeNode = {
+        id: 'root',
+        children: [leaf],
+        siblings: [],
+        meta: { tags: [] },
+      };
+
+      const id: string | undefined = get(root, 'children.0.id');
+      const tags: string[] | undefined = get(root, 'children[0].meta.tags');
+
+      expect(id).toBe('leaf');
+      expect(tags).toEqual(['new']);
+      expect(get(root, 'children.0.next.parent.siblings.3.id')).toBeUndefined();
+      // @ts-expect-error - 'name' is not a key of TreeNode
+      expect(get(root, 'children.0.name')).toBeUndefined();
     });
   });
 });
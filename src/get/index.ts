@@ -1,19 +1,41 @@
+import { isIndexKey, toPath } from '../toPath/index';
+import type {
+  PathHint,
+  PathValue,
+  PropertyPath,
+  ValidPath,
+} from '../toPath/index';
+
 /**
- * Safely gets a nested property value from an object using dot notation.
+ * Safely gets a nested property value from an object using a property path.
  * Returns undefined if any part of the path doesn't exist.
  *
  * @template T - The type of the object
- * @template P - The path string literal type
+ * @template P - The path string literal type (completed from `Path<T>`) or tuple of keys
+ * @template D - The type of the default value
  * @param obj - The object to get the value from
- * @param path - The property path as a string (supports dot notation)
+ * @param path - The property path (supports dot notation, `[0]` indices and quoted `["key"]` segments) or an array of keys
  * @param defaultValue - Optional default value to return if path doesn't exist
- * @returns The value at the path, or defaultValue if path doesn't exist
+ * @returns The value at the path, or defaultValue if path doesn't exist. Typed as
+ * `PathValue<T, P>` for a literal path, `T[K]` for a key of a generic object, and `unknown`
+ * for runtime (non-literal) string paths and for `null`/`undefined` objects. Literal
+ * paths naming a key that `T` does not have are type errors (see `ValidPath`)
+ * @throws {SyntaxError} If the path is malformed (see `toPath`)
  *
  * @example
  * ```typescript
  * import { get } from 'datype';
  *
- * const user = {
+ * interface User {
+ *   profile: {
+ *     name: string;
+ *     age?: number;
+ *     contact: { email: string; phone?: string };
+ *   };
+ *   preferences: string[];
+ * }
+ *
+ * const user: User = {
  *   profile: {
  *     name: 'John',
  *     contact: {
@@ -29,8 +51,24 @@
  *
  * // Array access
  * get(user, 'preferences.0'); // 'dark-mode'
+ * get(user, 'preferences[1]'); // 'notifications'
+ *
+ * // Keys containing dots
+ * const request = { headers: { 'x.request.id': 'abc' } };
+ * get(request, 'headers["x.request.id"]'); // 'abc'
+ *
+ * // Arrays of keys (symbols, numbers, keys with any characters)
+ * const meta = Symbol('meta');
+ * const tagged = { [meta]: { source: 'api' }, items: ['a', 'b'] };
+ * get(tagged, [meta, 'source']); // 'api'
+ * get(tagged, ['items', 1]); // 'b'
+ *
+ * // Typos are type errors; runtime strings are accepted and typed as unknown
+ * get(user, 'profile.nmae'); // Type error: not a valid path
+ * const field: string = 'profile.name';
+ * get(user, field); // 'John' (type: unknown)
  *
- * // Non-existent path
+ * // Missing optional values
  * get(user, 'profile.age'); // undefined
  * get(user, 'profile.contact.phone'); // undefined
  *
@@ -53,16 +91,44 @@
  * get(data, 'api.response.data.users.1.name'); // undefined
  * ```
  */
-export function get<T, K>(obj: T, path: string, defaultValue?: K): any {
+export function get<T, const P extends PathHint<T>>(
+  obj: T,
+  path: ValidPath<T, P>
+): PathValue<T, P>;
+export function get<T, const P extends PathHint<T>, D>(
+  obj: T,
+  path: ValidPath<T, P>,
+  defaultValue: D
+): Exclude<PathValue<T, P>, undefined> | D;
+export function get<T, K extends keyof T>(obj: T, path: K): T[K];
+export function get<T, K extends keyof T, D>(
+  obj: T,
+  path: K,
+  defaultValue: D
+): Exclude<T[K], undefined> | D;
+export function get(
+  obj: null | undefined,
+  path: PropertyPath,
+  defaultValue?: unknown
+): unknown;
+export function get(
+  obj: unknown,
+  path: PropertyPath,
+  defaultValue?: unknown
+): any {
   if (obj === null || obj === undefined) {
     return defaultValue;
   }
 
-  if (!path || typeof path !== 'string') {
+  if (
+    typeof path === 'string'
+      ? path === ''
+      : !Array.isArray(path) || !path.length
+  ) {
     return defaultValue;
   }
 
-  const keys = path.split('.');
+  const keys = toPath(path);
   let current: any = obj;
 
   for (let i = 0; i < keys.length; i++) {
@@ -73,8 +139,8 @@ export function get<T, K>(obj: T, path: string, defaultValue?: K): any {
     }
 
     // Handle array access (numeric keys)
-    if (Array.isArray(current) && /^\d+$/.test(key)) {
-      const index = parseInt(key, 10);
+    if (Array.isArray(current) && isIndexKey(key)) {
+      const index = Number(key);
       current = current[index];
     } else if (typeof current === 'object') {
       current = current[key];
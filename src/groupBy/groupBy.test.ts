@@ -14,11 +14,11 @@ describe('groupBy', () => {
       const result = groupBy(users, 'role');
 
       expect(result.admin).toHaveLength(2);
-      expect(result.admin[0].name).toBe('John');
-      expect(result.admin[1].name).toBe('Bob');
+      expect(result.admin![0]!.name).toBe('John');
+      expect(result.admin![1]!.name).toBe('Bob');
       expect(result.user).toHaveLength(2);
-      expect(result.user[0].name).toBe('Jane');
-      expect(result.user[1].name).toBe('Alice');
+      expect(result.user![0]!.name).toBe('Jane');
+      expect(result.user![1]!.name).toBe('Alice');
     });
 
     it('should group by number property', () => {
@@ -44,7 +44,7 @@ describe('groupBy', () => {
     it('should handle single item arrays', () => {
       const result = groupBy([{ type: 'test' }], 'type');
       expect(result.test).toHaveLength(1);
-      expect(result.test[0].type).toBe('test');
+      expect(result.test![0]!.type).toBe('test');
     });
   });
 
@@ -170,7 +170,7 @@ describe('groupBy', () => {
       expect(result.Marketing).toHaveLength(2);
       expect(result.Sales).toHaveLength(1);
 
-      expect(result.Engineering.map(e => e.name)).toEqual(['John', 'Bob']);
+      expect(result.Engineering!.map(e => e.name)).toEqual(['John', 'Bob']);
     });
 
     it('should group transactions by month', () => {
@@ -253,8 +253,8 @@ describe('groupBy', () => {
 
       const result = groupBy(items, 'group');
 
-      expect(result.A.map(item => item.order)).toEqual([1, 3, 5]);
-      expect(result.B.map(item => item.order)).toEqual([2, 4]);
+      expect(result.A!.map(item => item.order)).toEqual([1, 3, 5]);
+      expect(result.B!.map(item => item.order)).toEqual([2, 4]);
     });
   });
 
@@ -293,8 +293,8 @@ describe('groupBy', () => {
       );
 
       // These should compile without type errors
-      expect(byRole.admin[0].name).toBe('John');
-      expect(byAge.senior[0].age).toBe(30);
+      expect(byRole.admin![0]!.name).toBe('John');
+      expect(byAge.senior![0]!.age).toBe(30);
     });
   });
 });
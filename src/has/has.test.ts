@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { has } from './index';
+
+describe('has', () => {
+  const meta = Symbol('meta');
+  const testObj = {
+    name: 'John',
+    nickname: undefined,
+    spouse: null,
+    profile: {
+      email: 'john@example.com',
+      contacts: [
+        { type: 'email', value: 'john@work.com' },
+        { type: 'phone', value: undefined },
+      ],
+    },
+    hobbies: ['reading', 'gaming'],
+    headers: { 'x.request.id': 'req-1' },
+    [meta]: { source: 'api' },
+  };
+
+  describe('basic property checks', () => {
+    it('should find top-level properties', () => {
+      expect(has(testObj, 'name')).toBe(true);
+      expect(has(testObj, 'missing')).toBe(false);
+    });
+
+    it('should find nested properties', () => {
+      expect(has(testObj, 'profile.email')).toBe(true);
+      expect(has(testObj, 'profile.phone')).toBe(false);
+      expect(has(testObj, 'missing.nested.path')).toBe(false);
+    });
+  });
+
+  describe('present but undefined', () => {
+    it('should report undefined and null properties as present', () => {
+      expect(has(testObj, 'nickname')).toBe(true);
+      expect(has(testObj, 'spouse')).toBe(true);
+      expect(has(testObj, 'profile.contacts.1.value')).toBe(true);
+    });
+
+    it('should not descend through null or undefined values', () => {
+      expect(has(testObj, 'spouse.name')).toBe(false);
+      expect(has(testObj, 'nickname.length')).toBe(false);
+    });
+  });
+
+  describe('arrays', () => {
+    it('should check array indices', () => {
+      expect(has(testObj, 'hobbies.0')).toBe(true);
+      expect(has(testObj, 'hobbies[1]')).toBe(true);
+      expect(has(testObj, 'hobbies[2]')).toBe(false);
+      expect(has(testObj, 'profile.contacts[0].type')).toBe(true);
+    });
+
+    it('should report holes in sparse arrays as missing', () => {
+      // eslint-disable-next-line no-sparse-arrays
+      const sparse = [1, , 3];
+      expect(has(sparse, '0')).toBe(true);
+      expect(has(sparse, '1')).toBe(false);
+      expect(has(sparse, '2')).toBe(true);
+    });
+  });
+
+  describe('path forms', () => {
+    it('should support quoted keys', () => {
+      expect(has(testObj, 'headers["x.request.id"]')).toBe(true);
+      expect(has(testObj, 'headers.x')).toBe(false);
+    });
+
+    it('should support arrays of keys', () => {
+      expect(has(testObj, [meta, 'source'])).toBe(true);
+      expect(has(testObj, [meta, 'missing'])).toBe(false);
+      expect(has(testObj, ['hobbies', 1])).toBe(true);
+      expect(has(testObj, [Symbol('other')])).toBe(false);
+    });
+
+    it('should throw for malformed paths', () => {
+      expect(() => has(testObj, 'profile..email')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should ignore inherited properties', () => {
+      expect(has(testObj, 'toString')).toBe(false);
+      expect(has(testObj, 'profile.hasOwnProperty')).toBe(false);
+      expect(has(Object.create({ inherited: true }), 'inherited')).toBe(false);
+    });
+
+    it('should return false for null/undefined objects', () => {
+      expect(has(null, 'a')).toBe(false);
+      expect(has(undefined, 'a')).toBe(false);
+    });
+
+    it('should return false for empty or invalid paths', () => {
+      expect(has(testObj, '')).toBe(false);
+      expect(has(testObj, [])).toBe(false);
+      expect(has(testObj, 123 as any)).toBe(false);
+    });
+
+    it('should work with primitives', () => {
+      expect(has('abc', 'length')).toBe(true);
+      expect(has('abc', 'length.value')).toBe(false);
+    });
+  });
+
+  describe('real-world use cases', () => {
+    it('should distinguish explicit undefined in partial updates', () => {
+      const patch: Record<string, unknown> = { timeout: undefined };
+
+      expect(has(patch, 'timeout')).toBe(true);
+      expect(has(patch, 'retries')).toBe(false);
+    });
+
+    it('should probe paths that are not part of the type', () => {
+      const settings = { layout: { sidebar: true } };
+      const field: string = 'layout.sidebar';
+
+      expect(has(settings, 'layout.footer')).toBe(false);
+      expect(has(settings, 'toString')).toBe(false);
+      expect(has(settings, field)).toBe(true);
+    });
+  });
+});
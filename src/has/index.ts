@@ -0,0 +1,66 @@
+import { toPath } from '../toPath/index';
+import type { PathHint, PropertyPath } from '../toPath/index';
+
+/**
+ * Checks whether a nested property exists in an object.
+ * Unlike `get` with a default value, this distinguishes a property that is
+ * present but `undefined` from one that is missing. Only own properties count.
+ *
+ * @template T - The type of the object
+ * @param obj - The object to check
+ * @param path - The property path (same syntax as `get`) or an array of keys. Any path
+ * is accepted; the paths of `T` are offered as completions
+ * @returns True if every key along the path exists, false otherwise
+ * @throws {SyntaxError} If the path is malformed (see `toPath`)
+ *
+ * @example
+ * ```typescript
+ * import { has } from 'datype';
+ *
+ * const settings = {
+ *   theme: undefined,
+ *   layout: { sidebar: true },
+ *   recent: ['a.txt', 'b.txt']
+ * };
+ *
+ * has(settings, 'theme'); // true (present but undefined)
+ * has(settings, 'layout.sidebar'); // true
+ * has(settings, 'layout.footer'); // false
+ * has(settings, 'recent[1]'); // true
+ * has(settings, 'recent[2]'); // false
+ *
+ * // Inherited properties are not considered present
+ * has(settings, 'toString'); // false
+ * ```
+ */
+export function has<T>(obj: T, path: PathHint<T>): boolean;
+export function has(obj: unknown, path: PropertyPath): boolean {
+  if (obj === null || obj === undefined) {
+    return false;
+  }
+
+  if (
+    typeof path === 'string'
+      ? path === ''
+      : !Array.isArray(path) || !path.length
+  ) {
+    return false;
+  }
+
+  const keys = toPath(path);
+  let current: unknown = obj;
+
+  for (const key of keys) {
+    if (
+      current === null ||
+      current === undefined ||
+      !Object.prototype.hasOwnProperty.call(current, key)
+    ) {
+      return false;
+    }
+
+    current = (current as Record<PropertyKey, unknown>)[key];
+  }
+
+  return true;
+}
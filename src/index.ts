@@ -4,18 +4,49 @@
  */
 
 // Core utilities
-export { deepMerge } from './deepMerge/index';
+export { deepMerge, deepMergeWith, DELETE } from './deepMerge/index';
 export { pick } from './pick/index';
 export { omit } from './omit/index';
 export { get } from './get/index';
 export { set } from './set/index';
+export { unset } from './unset/index';
+export { has } from './has/index';
+export { update } from './update/index';
+export { getAll, setAll, updateAll } from './pathQuery/index';
+export {
+  getPointer,
+  setPointer,
+  parsePointer,
+  pathToPointer,
+  pointerToPath,
+} from './jsonPointer/index';
+export { applyPatch, createPatch } from './jsonPatch/index';
+export { toPath, stringifyPath } from './toPath/index';
+export {
+  lens,
+  lensProp,
+  lensIndex,
+  lensPath,
+  prism,
+  optional,
+  each,
+  composeOptics,
+  view,
+  viewAll,
+  over,
+  put,
+} from './lens/index';
+export { produce } from './produce/index';
+export { flattenObject, unflattenObject } from './flattenObject/index';
+export { resolveLayers } from './resolveLayers/index';
 export { mapValues } from './mapValues/index';
 export { mapKeys, keyTransformers } from './mapKeys/index';
+export { UnsafeKeyError, isUnsafeKey } from './unsafeKeys/index';
 
 // Validation and comparison
 export { isEmpty } from './isEmpty/index';
 export { isEqual } from './isEqual/index';
-export { cloneDeep } from './cloneDeep/index';
+export { cloneDeep, cloneDeepWith } from './cloneDeep/index';
 
 // Array utilities
 export { chunk } from './chunk/index';
@@ -35,7 +66,7 @@ export { slugify } from './slugify/index';
 export { groupBy } from './groupBy/index';
 
 // Advanced utilities
-export { merge } from './merge/index';
+export { merge, mergeWith } from './merge/index';
 export { compose, pipe } from './compose/index';
 export { curry } from './curry/index';
 export { capitalize } from './capitalize/index';
@@ -45,7 +76,58 @@ export { isPlainObject, isArray, isFunction } from './typeGuards/index';
 
 // Type exports
 export type { DeepMergeResult, MergeableObject } from './deepMerge/index';
-export type { DeepMergeOptions } from './deepMerge/index';
+export type {
+  DeepMergeOptions,
+  DeepMergeContext,
+  DeepMergeCustomizer,
+  DeepMergeStrategy,
+  ArrayMergeStrategy,
+  DeepMergeFunction,
+  DeepMergeConfig,
+  DefaultDeepMergeConfig,
+  DeepMergeConfigOf,
+  InstanceConstructor,
+  InstanceMerger,
+  DeepMergeDelete,
+} from './deepMerge/index';
+export type { SetOptions } from './set/index';
+export type { UnsetOptions } from './unset/index';
+export type { UpdateOptions } from './update/index';
+export type { MergeOptions, MergeAll, MergeFunction } from './merge/index';
+export type { MapKeysOptions } from './mapKeys/index';
+export type {
+  CloneDeepOptions,
+  CloneDeepContext,
+  CloneDeepCustomizer,
+} from './cloneDeep/index';
+export type { UnsafeKeyPolicy } from './unsafeKeys/index';
+export type {
+  Path,
+  PathHint,
+  PathValue,
+  PropertyPath,
+  ValidPath,
+} from './toPath/index';
+export type {
+  PathMatch,
+  PatternValue,
+  UpdateAllOptions,
+} from './pathQuery/index';
+export type { PointerKeys, PointerValue } from './jsonPointer/index';
+export type { ApplyPatchOptions, JsonPatchOperation } from './jsonPatch/index';
+export type { Optic, Lens, Prism, Traversal } from './lens/index';
+export type { Draft, ProduceOptions } from './produce/index';
+export type {
+  FlattenedObject,
+  FlattenObjectOptions,
+  UnflattenObjectOptions,
+  IndexStyle,
+} from './flattenObject/index';
+export type {
+  ConfigLayer,
+  LayersValue,
+  ResolvedLayers,
+} from './resolveLayers/index';
 export type { DebounceOptions, DebouncedFunction } from './debounce/index';
 export type { ThrottleOptions, ThrottledFunction } from './throttle/index';
 export type { SlugifyOptions } from './slugify/index';
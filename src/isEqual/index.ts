@@ -17,6 +17,9 @@
  * - Functions (reference equality only)
  * - Circular references (handled safely)
  *
+ * Objects, arrays, Sets and Maps are walked with an explicit stack, so deeply
+ * nested values (long linked lists, parsed ASTs) do not overflow the call stack.
+ *
  * @example
  * ```typescript
  * import { isEqual } from 'datype';
@@ -48,11 +51,112 @@ export function isEqual<T, U>(a: T, b: U): boolean {
   return deepEqual(a, b, new Map());
 }
 
+// Marks the point on the stack where an object's children have all been compared
+const EXIT = Symbol('exit');
+
+// Matches the members of two Sets or the entries of two Maps. It yields pairs to
+// compare, is told whether each pair is equal, and returns whether all members matched
+type Matching = Generator<[unknown, unknown], boolean, boolean>;
+
 function deepEqual(
   a: unknown,
   b: unknown,
   seen: Map<unknown, unknown>
 ): boolean {
+  // Each pair a Matching yields is compared on a stack of its own. The stack that
+  // met the Set or Map waits in `paused` until the Matching is done
+  const paused: unknown[][] = [];
+  const matchings: Matching[] = [];
+  let stack: unknown[] = [a, b];
+  let outcome = comparePairs(stack, seen);
+
+  for (;;) {
+    let step: IteratorResult<[unknown, unknown], boolean>;
+    if (typeof outcome === 'boolean') {
+      const matching = matchings[matchings.length - 1];
+      if (!matching) {
+        return outcome;
+      }
+      step = matching.next(outcome);
+    } else {
+      paused.push(stack);
+      matchings.push(outcome);
+      step = outcome.next(true);
+    }
+
+    if (!step.done) {
+      stack = [step.value[0], step.value[1]];
+      outcome = comparePairs(stack, seen);
+      continue;
+    }
+
+    // The Set or Map is done, so the stack that met it resumes or fails
+    matchings.pop();
+    stack = paused.pop()!;
+    if (step.value) {
+      outcome = comparePairs(stack, seen);
+    } else {
+      release(stack, seen);
+      outcome = false;
+    }
+  }
+}
+
+// Compares the pairs on `stack` until it is empty or two values differ. Stops early
+// with the Matching of a Set or Map pair, leaving the rest of `stack` to resume later
+function comparePairs(
+  stack: unknown[],
+  seen: Map<unknown, unknown>
+): boolean | Matching {
+  // Pairs of values still to compare, pushed as `a, b`. `EXIT, a` removes `a` from
+  // `seen` once its children are done, so only ancestors count as circular
+  while (stack.length > 0) {
+    const right = stack.pop();
+    const left = stack.pop();
+
+    if (left === EXIT) {
+      seen.delete(right);
+      continue;
+    }
+
+    const outcome = compare(left, right, seen, stack);
+    if (outcome === false) {
+      release(stack, seen);
+      return false;
+    }
+    if (outcome !== true) {
+      return outcome;
+    }
+  }
+
+  return true;
+}
+
+// Comparisons share `seen`, so release the ancestors still on a stack left unfinished
+function release(stack: unknown[], seen: Map<unknown, unknown>): void {
+  for (let i = 0; i < stack.length; i += 2) {
+    if (stack[i] === EXIT) {
+      seen.delete(stack[i + 1]);
+    }
+  }
+}
+
+// Identical values are equal without a trip through the stack
+function pushPair(stack: unknown[], a: unknown, b: unknown): void {
+  if (!Object.is(a, b)) {
+    stack.push(a, b);
+  }
+}
+
+// Compares `a` and `b` without their children, which are pushed onto `stack`, or
+// returns the Matching of two Sets or Maps. Returns `false` as soon as the values
+// are known to differ
+function compare(
+  a: unknown,
+  b: unknown,
+  seen: Map<unknown, unknown>,
+  stack: unknown[]
+): boolean | Matching {
   // Use Object.is for primitive comparison (handles NaN and ±0 correctly)
   if (Object.is(a, b)) {
     return true;
@@ -94,57 +198,12 @@ function deepEqual(
 
   // Handle Set objects
   if (a instanceof Set && b instanceof Set) {
-    if (a.size !== b.size) {
-      return false;
-    }
-
-    seen.set(a, b);
-
-    for (const item of Array.from(a as Set<any>)) {
-      let found = false;
-      for (const otherItem of Array.from(b as Set<any>)) {
-        if (deepEqual(item, otherItem, seen)) {
-          found = true;
-          break;
-        }
-      }
-      if (!found) {
-        seen.delete(a);
-        return false;
-      }
-    }
-
-    seen.delete(a);
-    return true;
+    return a.size === b.size && matchSets(a, b, seen);
   }
 
   // Handle Map objects
   if (a instanceof Map && b instanceof Map) {
-    if (a.size !== b.size) {
-      return false;
-    }
-
-    seen.set(a, b);
-
-    for (const [key, value] of Array.from(a as Map<any, any>)) {
-      let found = false;
-      for (const [otherKey, otherValue] of Array.from(b as Map<any, any>)) {
-        if (
-          deepEqual(key, otherKey, seen) &&
-          deepEqual(value, otherValue, seen)
-        ) {
-          found = true;
-          break;
-        }
-      }
-      if (!found) {
-        seen.delete(a);
-        return false;
-      }
-    }
-
-    seen.delete(a);
-    return true;
+    return a.size === b.size && matchMaps(a, b, seen);
   }
 
   // Handle Array objects
@@ -154,15 +213,13 @@ function deepEqual(
     }
 
     seen.set(a, b);
+    stack.push(EXIT, a);
 
-    for (let i = 0; i < a.length; i++) {
-      if (!deepEqual(a[i], b[i], seen)) {
-        seen.delete(a);
-        return false;
-      }
+    // Pushed in reverse so elements are compared in order
+    for (let i = a.length - 1; i >= 0; i--) {
+      pushPair(stack, a[i], b[i]);
     }
 
-    seen.delete(a);
     return true;
   }
 
@@ -177,30 +234,82 @@ function deepEqual(
   }
 
   // Handle plain objects
-  seen.set(a, b);
-
   const keysA = Object.keys(objA);
   const keysB = Object.keys(objB);
 
   // Different number of properties
   if (keysA.length !== keysB.length) {
-    seen.delete(a);
     return false;
   }
 
-  // Check all properties
+  // Check all keys before comparing any values
   for (const key of keysA) {
     if (!Object.prototype.hasOwnProperty.call(objB, key)) {
-      seen.delete(a);
       return false;
     }
+  }
 
-    if (!deepEqual(objA[key], objB[key], seen)) {
-      seen.delete(a);
-      return false;
-    }
+  seen.set(a, b);
+  stack.push(EXIT, a);
+
+  for (let i = keysA.length - 1; i >= 0; i--) {
+    const key = keysA[i]!;
+    pushPair(stack, objA[key], objB[key]);
   }
 
-  seen.delete(a);
   return true;
 }
+
+// Every member of `a` must equal some member of `b`
+function* matchSets(
+  a: Set<unknown>,
+  b: Set<unknown>,
+  seen: Map<unknown, unknown>
+): Matching {
+  seen.set(a, b);
+  try {
+    const candidates = Array.from(b);
+    for (const item of Array.from(a)) {
+      let found = false;
+      for (const other of candidates) {
+        if (yield [item, other]) {
+          found = true;
+          break;
+        }
+      }
+      if (!found) {
+        return false;
+      }
+    }
+    return true;
+  } finally {
+    seen.delete(a);
+  }
+}
+
+// Every entry of `a` must equal some entry of `b`, both key and value
+function* matchMaps(
+  a: Map<unknown, unknown>,
+  b: Map<unknown, unknown>,
+  seen: Map<unknown, unknown>
+): Matching {
+  seen.set(a, b);
+  try {
+    const candidates = Array.from(b);
+    for (const [key, value] of Array.from(a)) {
+      let found = false;
+      for (const [otherKey, otherValue] of candidates) {
+        if ((yield [key, otherKey]) && (yield [value, otherValue])) {
+          found = true;
+          break;
+        }
+      }
+      if (!found) {
+        return false;
+      }
+    }
+    return true;
+  } finally {
+    seen.delete(a);
+  }
+}
@@ -0,0 +1,22 @@
+import { bench, describe } from 'vitest';
+import { isEqual } from './index';
+
+const createUser = (id: number) => ({
+  id,
+  name: `user${id}`,
+  tags: ['admin', 'editor'],
+  meta: { created: new Date(0), active: true, scores: [1, 2, 3] },
+});
+const users1 = Array.from({ length: 10 }, (_, i) => createUser(i));
+const users2 = Array.from({ length: 10 }, (_, i) => createUser(i));
+
+describe('isEqual', () => {
+  bench('typical shallow payload', () => {
+    isEqual(users1, users2);
+  });
+
+  // Baseline: serializing both payloads visits the same values
+  bench('JSON.stringify baseline', () => {
+    JSON.stringify(users1) === JSON.stringify(users2);
+  });
+});
@@ -294,4 +294,82 @@ describe('isEqual', () => {
       expect(isEqual(obj1, obj2)).toBe(false);
     });
   });
+
+  describe('deeply nested values', () => {
+    const createList = (length: number, last = length - 1) => {
+      let list: any = null;
+      for (let i = length - 1; i >= 0; i--) {
+        list = { value: i === length - 1 ? last : i, next: list };
+      }
+      return list;
+    };
+
+    it('should compare long linked lists without overflowing the stack', () => {
+      expect(isEqual(createList(50000), createList(50000))).toBe(true);
+      expect(isEqual(createList(50000), createList(50000, -1))).toBe(false);
+      expect(isEqual(createList(50000), createList(49999))).toBe(false);
+    });
+
+    it('should compare deeply nested arrays', () => {
+      let arr1: any = [];
+      let arr2: any = [];
+      for (let i = 0; i < 50000; i++) {
+        arr1 = [i, arr1];
+        arr2 = [i, arr2];
+      }
+
+      expect(isEqual(arr1, arr2)).toBe(true);
+      expect(isEqual(arr1, [49999, arr2[1].slice(1)])).toBe(false);
+    });
+
+    it('should handle circular references at the end of a long list', () => {
+      const list1 = createList(50000);
+      const list2 = createList(50000);
+      let tail1 = list1;
+      let tail2 = list2;
+      while (tail1.next) {
+        tail1 = tail1.next;
+        tail2 = tail2.next;
+      }
+      tail1.next = list1;
+      tail2.next = list2;
+
+      expect(isEqual(list1, list2)).toBe(true);
+
+      tail2.next = list2.next;
+      expect(isEqual(list1, list2)).toBe(false);
+    });
+
+    it('should compare deeply nested Sets and Maps', () => {
+      const createSets = (last: number) => {
+        let set = new Set<unknown>([last]);
+        for (let i = 0; i < 20000; i++) {
+          set = new Set<unknown>([i, set]);
+        }
+        return set;
+      };
+      const createMaps = (last: number) => {
+        let map = new Map<unknown, unknown>([['value', last]]);
+        for (let i = 0; i < 20000; i++) {
+          map = new Map<unknown, unknown>([[new Map([[i, i]]), map]]);
+        }
+        return map;
+      };
+
+      expect(isEqual(createSets(0), createSets(0))).toBe(true);
+      expect(isEqual(createSets(0), createSets(1))).toBe(false);
+      expect(isEqual(createMaps(0), createMaps(0))).toBe(true);
+      expect(isEqual(createMaps(0), createMaps(1))).toBe(false);
+    });
+
+    it('should only treat ancestors as circular references', () => {
+      const shared = { a: 1 };
+      const other = { a: 1 };
+
+      expect(isEqual([shared, shared], [shared, other])).toBe(true);
+      expect(
+        isEqual(new Set([[shared, shared]]), new Set([[other, shared]]))
+      ).toBe(true);
+    });
+  });
 });
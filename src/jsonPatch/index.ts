@@ -0,0 +1,432 @@
+import { cloneDeep } from '../cloneDeep/index';
+import { get } from '../get/index';
+import { has } from '../has/index';
+import { isEqual } from '../isEqual/index';
+import { parsePointer, pathToPointer } from '../jsonPointer/index';
+import { copyPath } from '../set/index';
+import { isKeyAllowed } from '../unsafeKeys/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
+// Type definitions
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+export interface ApplyPatchOptions {
+  /**
+   * How to treat operations that write through `__proto__`, `constructor` or `prototype`.
+   * Defaults to `'throw'`; `'skip'` leaves the document unchanged for those operations.
+   * Removing an own key with one of these names is always allowed.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+}
+
+// Beyond this many element comparisons, arrays are diffed index by index
+const MAX_ARRAY_DIFF_CELLS = 1_000_000;
+
+function isObjectLike(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  if (!isObjectLike(value) || Array.isArray(value)) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === null || proto === Object.prototype;
+}
+
+function validateOperation(operation: JsonPatchOperation, index: number) {
+  if (!isObjectLike(operation)) {
+    throw new TypeError(`JSON Patch operation #${index} must be an object`);
+  }
+
+  const { op } = operation;
+  const known = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+  if (!known.includes(op)) {
+    throw new TypeError(
+      `JSON Patch operation #${index} has an unknown op "${String(op)}"`
+    );
+  }
+
+  if (typeof operation.path !== 'string') {
+    throw new TypeError(
+      `JSON Patch operation #${index} (${op}) requires a string "path"`
+    );
+  }
+
+  if (
+    (op === 'move' || op === 'copy') &&
+    typeof (operation as { from?: unknown }).from !== 'string'
+  ) {
+    throw new TypeError(
+      `JSON Patch operation #${index} (${op}) requires a string "from"`
+    );
+  }
+
+  if (
+    (op === 'add' || op === 'replace' || op === 'test') &&
+    !('value' in operation)
+  ) {
+    throw new TypeError(
+      `JSON Patch operation #${index} (${op}) requires a "value"`
+    );
+  }
+}
+
+// The keys an operation writes through: every key of a written path, and the keys
+// leading to a removed one (deleting an own key cannot reach a prototype)
+function writtenKeys(operation: JsonPatchOperation): string[] {
+  const keys = parsePointer(operation.path);
+
+  switch (operation.op) {
+    case 'test':
+      return [];
+    case 'remove':
+      return keys.slice(0, -1);
+    case 'move':
+      return [...parsePointer(operation.from).slice(0, -1), ...keys];
+    default:
+      return keys;
+  }
+}
+
+/**
+ * Applies one operation to the working document. Containers recorded in `copies`
+ * were created by this patch and can be written to in place.
+ */
+function applyOperation(
+  doc: unknown,
+  operation: JsonPatchOperation,
+  copies: WeakSet<object>,
+  policy: UnsafeKeyPolicy,
+  fail: (reason: string) => never
+): unknown {
+  if (!writtenKeys(operation).every(key => isKeyAllowed(key, policy))) {
+    return doc;
+  }
+
+  const keys = parsePointer(operation.path);
+
+  const exists = (target: string[]) => target.length === 0 || has(doc, target);
+
+  const add = (document: unknown, target: string[], value: unknown) => {
+    if (target.length === 0) {
+      return value;
+    }
+
+    const parentKeys = target.slice(0, -1);
+    const container = parentKeys.length ? get(document, parentKeys) : document;
+    if (!isObjectLike(container)) {
+      fail(`path "${operation.path}" does not exist`);
+    }
+
+    const key = target[target.length - 1]!;
+    if (Array.isArray(container)) {
+      const index = key === '-' ? container.length : Number(key);
+      if (
+        key !== '-' &&
+        (!/^(0|[1-9]\d*)$/.test(key) || index > container.length)
+      ) {
+        fail(`array index "${key}" is out of bounds`);
+      }
+
+      const { result, parent } = copyPath(document, target, copies, 'allow');
+      parent.splice(index, 0, value);
+      return result;
+    }
+
+    const { result, parent } = copyPath(document, target, copies, 'allow');
+    parent[key] = value;
+    return result;
+  };
+
+  const remove = (document: unknown, target: string[]) => {
+    if (target.length === 0) {
+      fail('cannot remove the whole document');
+    }
+    if (!has(document, target)) {
+      fail(`path "${operation.path}" does not exist`);
+    }
+
+    const { result, parent } = copyPath(document, target, copies, 'allow');
+    const key = target[target.length - 1]!;
+    if (Array.isArray(parent)) {
+      parent.splice(Number(key), 1);
+    } else {
+      delete parent[key];
+    }
+    return result;
+  };
+
+  switch (operation.op) {
+    case 'add':
+      return add(doc, keys, operation.value);
+
+    case 'remove':
+      return remove(doc, keys);
+
+    case 'replace': {
+      if (!exists(keys)) {
+        fail(`path "${operation.path}" does not exist`);
+      }
+      if (keys.length === 0) {
+        return operation.value;
+      }
+      const { result, parent } = copyPath(doc, keys, copies, 'allow');
+      parent[keys[keys.length - 1]!] = operation.value;
+      return result;
+    }
+
+    case 'move': {
+      const fromKeys = parsePointer(operation.from);
+      if (!exists(fromKeys)) {
+        fail(`from "${operation.from}" does not exist`);
+      }
+      if (operation.from === operation.path) {
+        return doc;
+      }
+      if (
+        fromKeys.length < keys.length &&
+        fromKeys.every((key, i) => keys[i] === key)
+      ) {
+        fail(`cannot move "${operation.from}" into one of its children`);
+      }
+      const value = fromKeys.length ? get(doc, fromKeys) : doc;
+      return add(remove(doc, fromKeys), keys, value);
+    }
+
+    case 'copy': {
+      const fromKeys = parsePointer(operation.from);
+      if (!exists(fromKeys)) {
+        fail(`from "${operation.from}" does not exist`);
+      }
+      // Clone so later operations cannot write through to the source
+      const value = cloneDeep(fromKeys.length ? get(doc, fromKeys) : doc);
+      return add(doc, keys, value);
+    }
+
+    case 'test': {
+      const actual = keys.length ? get(doc, keys) : doc;
+      if (!exists(keys) || !isEqual(actual, operation.value)) {
+        fail(`value at "${operation.path}" does not match`);
+      }
+      return doc;
+    }
+  }
+}
+
+/**
+ * Applies a JSON Patch (RFC 6902) to a document without mutating it.
+ * Supports the `add`, `remove`, `replace`, `move`, `copy` and `test` operations.
+ * Operations are applied in order with copy-on-write updates, so untouched parts of the
+ * document keep their references. If any operation fails, an error is thrown and
+ * no partial result is returned.
+ *
+ * @template T - The type of the document
+ * @param doc - The document to patch (will not be mutated)
+ * @param operations - The operations to apply
+ * @param options - Patch options (`unsafeKeys` policy for prototype-polluting paths)
+ * @returns The patched document
+ * @throws {TypeError} If an operation is malformed
+ * @throws {SyntaxError} If a `path` or `from` is not a valid JSON Pointer
+ * @throws {Error} If an operation cannot be applied (missing location, failed `test`)
+ * @throws {UnsafeKeyError} If a `path` writes through `__proto__`, `constructor` or `prototype`
+ *
+ * @example
+ * ```typescript
+ * import { applyPatch } from 'datype';
+ *
+ * const doc = { title: 'Draft', tags: ['a'], meta: { views: 1 } };
+ *
+ * applyPatch(doc, [
+ *   { op: 'test', path: '/title', value: 'Draft' },
+ *   { op: 'replace', path: '/title', value: 'Final' },
+ *   { op: 'add', path: '/tags/-', value: 'b' },
+ *   { op: 'move', from: '/meta/views', path: '/views' }
+ * ]);
+ * // { title: 'Final', tags: ['a', 'b'], meta: {}, views: 1 }
+ * ```
+ */
+export function applyPatch<T>(
+  doc: T,
+  operations: readonly JsonPatchOperation[],
+  options: ApplyPatchOptions = {}
+): T {
+  if (!Array.isArray(operations)) {
+    throw new TypeError('Expected operations to be an array');
+  }
+
+  const copies = new WeakSet<object>();
+  let result: unknown = doc;
+
+  operations.forEach((operation, index) => {
+    validateOperation(operation, index);
+
+    result = applyOperation(
+      result,
+      operation,
+      copies,
+      options.unsafeKeys ?? 'throw',
+      reason => {
+        throw new Error(
+          `JSON Patch operation #${index} (${operation.op}) failed: ${reason}`
+        );
+      }
+    );
+  });
+
+  return result as T;
+}
+
+function diffArrays(
+  a: unknown[],
+  b: unknown[],
+  pointer: string,
+  operations: JsonPatchOperation[]
+): void {
+  // Skip the common head and tail before aligning the middle
+  let start = 0;
+  while (start < a.length && start < b.length && isEqual(a[start], b[start])) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && isEqual(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+
+  if (n * m > MAX_ARRAY_DIFF_CELLS) {
+    // Too large to align: diff the overlap index by index
+    const overlap = Math.min(n, m);
+    for (let k = 0; k < overlap; k++) {
+      diff(a[start + k], b[start + k], `${pointer}/${start + k}`, operations);
+    }
+    for (let k = overlap; k < m; k++) {
+      operations.push({
+        op: 'add',
+        path: `${pointer}/${start + k}`,
+        value: b[start + k],
+      });
+    }
+    for (let k = n - 1; k >= overlap; k--) {
+      operations.push({ op: 'remove', path: `${pointer}/${start + k}` });
+    }
+    return;
+  }
+
+  // lcs[i][j] is the longest common subsequence of a[start + i..] and b[start + j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0)
+  );
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i]![j] = isEqual(a[start + i], b[start + j])
+        ? lcs[i + 1]![j + 1]! + 1
+        : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  // Walk the alignment, tracking the element's index in the patched array
+  let i = 0;
+  let j = 0;
+  let index = start;
+  while (i < n || j < m) {
+    if (i < n && j < m && isEqual(a[start + i], b[start + j])) {
+      i++;
+      j++;
+      index++;
+    } else if (i < n && j < m && lcs[i + 1]![j + 1] === lcs[i]![j]) {
+      // Changing this element in place keeps the alignment optimal
+      diff(a[start + i], b[start + j], `${pointer}/${index}`, operations);
+      i++;
+      j++;
+      index++;
+    } else if (j >= m || (i < n && lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      operations.push({ op: 'remove', path: `${pointer}/${index}` });
+      i++;
+    } else {
+      operations.push({
+        op: 'add',
+        path: `${pointer}/${index}`,
+        value: b[start + j],
+      });
+      j++;
+      index++;
+    }
+  }
+}
+
+function diff(
+  a: unknown,
+  b: unknown,
+  pointer: string,
+  operations: JsonPatchOperation[]
+): void {
+  if (isEqual(a, b)) {
+    return;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    diffArrays(a, b, pointer, operations);
+    return;
+  }
+
+  if (isPlainRecord(a) && isPlainRecord(b)) {
+    for (const key of Object.keys(a)) {
+      if (!Object.prototype.hasOwnProperty.call(b, key)) {
+        operations.push({ op: 'remove', path: pointer + pathToPointer([key]) });
+      }
+    }
+    for (const key of Object.keys(b)) {
+      const path = pointer + pathToPointer([key]);
+      if (Object.prototype.hasOwnProperty.call(a, key)) {
+        diff(a[key], b[key], path, operations);
+      } else {
+        operations.push({ op: 'add', path, value: b[key] });
+      }
+    }
+    return;
+  }
+
+  operations.push({ op: 'replace', path: pointer, value: b });
+}
+
+/**
+ * Compares two documents and returns a JSON Patch (RFC 6902) that turns `a` into `b`.
+ * Objects are compared key by key and arrays are aligned on their longest common
+ * subsequence, so inserting or removing one element produces a single operation.
+ * Values that are not plain objects or arrays are compared with `isEqual` and replaced.
+ *
+ * @param a - The source document
+ * @param b - The target document
+ * @returns The operations that, applied to `a` with `applyPatch`, produce `b`
+ *
+ * @example
+ * ```typescript
+ * import { createPatch } from 'datype';
+ *
+ * createPatch(
+ *   { title: 'Draft', tags: ['a', 'c'], obsolete: true },
+ *   { title: 'Final', tags: ['a', 'b', 'c'] }
+ * );
+ * // [
+ * //   { op: 'remove', path: '/obsolete' },
+ * //   { op: 'replace', path: '/title', value: 'Final' },
+ * //   { op: 'add', path: '/tags/1', value: 'b' }
+ * // ]
+ * ```
+ */
+export function createPatch(a: unknown, b: unknown): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  diff(a, b, '', operations);
+  return operations;
+}
@@ -0,0 +1,445 @@
+import { describe, it, expect } from 'vitest';
+import { applyPatch, createPatch } from './index';
+import type { JsonPatchOperation } from './index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
+
+describe('jsonPatch', () => {
+  describe('applyPatch', () => {
+    const doc = {
+      title: 'Draft',
+      tags: ['a', 'b'],
+      meta: { views: 1, author: { name: 'Ann' } },
+    };
+
+    describe('add', () => {
+      it('should add object members', () => {
+        const result = applyPatch(doc, [
+          { op: 'add', path: '/meta/likes', value: 3 },
+        ]);
+
+        expect(result.meta).toEqual({
+          views: 1,
+          author: { name: 'Ann' },
+          likes: 3,
+        });
+        expect(doc.meta).not.toHaveProperty('likes'); // Original unchanged
+      });
+
+      it('should replace existing object members', () => {
+        const result = applyPatch(doc, [
+          { op: 'add', path: '/title', value: 'Final' },
+        ]);
+
+        expect(result.title).toBe('Final');
+      });
+
+      it('should insert into arrays and shift later elements', () => {
+        const result = applyPatch(doc, [
+          { op: 'add', path: '/tags/1', value: 'x' },
+          { op: 'add', path: '/tags/0', value: 'first' },
+          { op: 'add', path: '/tags/-', value: 'last' },
+        ]);
+
+        expect(result.tags).toEqual(['first', 'a', 'x', 'b', 'last']);
+        expect(doc.tags).toEqual(['a', 'b']);
+      });
+
+      it('should allow appending at the array length', () => {
+        const result = applyPatch(doc, [
+          { op: 'add', path: '/tags/2', value: 'c' },
+        ]);
+
+        expect(result.tags).toEqual(['a', 'b', 'c']);
+      });
+
+      it('should replace the whole document at the root', () => {
+        expect(applyPatch(doc, [{ op: 'add', path: '', value: [1] }])).toEqual([
+          1,
+        ]);
+      });
+
+      it('should reject missing parents and invalid indices', () => {
+        expect(() =>
+          applyPatch(doc, [{ op: 'add', path: '/missing/key', value: 1 }])
+        ).toThrow(
+          'JSON Patch operation #0 (add) failed: path "/missing/key" does not exist'
+        );
+        expect(() =>
+          applyPatch(doc, [{ op: 'add', path: '/tags/5', value: 1 }])
+        ).toThrow('array index "5" is out of bounds');
+        expect(() =>
+          applyPatch(doc, [{ op: 'add', path: '/tags/01', value: 1 }])
+        ).toThrow('array index "01" is out of bounds');
+        expect(() =>
+          applyPatch(doc, [{ op: 'add', path: '/title/x', value: 1 }])
+        ).toThrow('does not exist');
+      });
+    });
+
+    describe('remove', () => {
+      it('should remove object members and array elements', () => {
+        const result = applyPatch(doc, [
+          { op: 'remove', path: '/meta/views' },
+          { op: 'remove', path: '/tags/0' },
+        ]);
+
+        expect(result.meta).toEqual({ author: { name: 'Ann' } });
+        expect(result.tags).toEqual(['b']);
+        expect(doc.meta.views).toBe(1);
+      });
+
+      it('should reject missing targets and the root', () => {
+        expect(() =>
+          applyPatch(doc, [{ op: 'remove', path: '/nope' }])
+        ).toThrow('path "/nope" does not exist');
+        expect(() =>
+          applyPatch(doc, [{ op: 'remove', path: '/tags/2' }])
+        ).toThrow('does not exist');
+        expect(() => applyPatch(doc, [{ op: 'remove', path: '' }])).toThrow(
+          'cannot remove the whole document'
+        );
+      });
+    });
+
+    describe('replace', () => {
+      it('should replace existing values', () => {
+        const result = applyPatch(doc, [
+          { op: 'replace', path: '/meta/author/name', value: 'Bob' },
+          { op: 'replace', path: '/tags/1', value: 'B' },
+        ]);
+
+        expect(result.meta.author.name).toBe('Bob');
+        expect(result.tags).toEqual(['a', 'B']);
+      });
+
+      it('should replace the root', () => {
+        expect(
+          applyPatch(doc, [{ op: 'replace', path: '', value: { a: 1 } }])
+        ).toEqual({ a: 1 });
+      });
+
+      it('should reject missing targets', () => {
+        expect(() =>
+          applyPatch(doc, [{ op: 'replace', path: '/missing', value: 1 }])
+        ).toThrow('path "/missing" does not exist');
+      });
+    });
+
+    describe('move', () => {
+      it('should move values between locations', () => {
+        const result = applyPatch(doc, [
+          { op: 'move', from: '/meta/views', path: '/views' },
+          { op: 'move', from: '/tags/0', path: '/tags/1' },
+        ]);
+
+        expect(result).toEqual({
+          title: 'Draft',
+          tags: ['b', 'a'],
+          meta: { author: { name: 'Ann' } },
+          views: 1,
+        });
+      });
+
+      it('should treat moving onto itself as a no-op', () => {
+        expect(
+          applyPatch(doc, [{ op: 'move', from: '/title', path: '/title' }])
+        ).toBe(doc);
+      });
+
+      it('should reject moving into a child of the source', () => {
+        expect(() =>
+          applyPatch(doc, [
+            { op: 'move', from: '/meta', path: '/meta/author/x' },
+          ])
+        ).toThrow('cannot move "/meta" into one of its children');
+      });
+
+      it('should reject missing sources', () => {
+        expect(() =>
+          applyPatch(doc, [{ op: 'move', from: '/nope', path: '/x' }])
+        ).toThrow('from "/nope" does not exist');
+      });
+    });
+
+    describe('copy', () => {
+      it('should copy values to a new location', () => {
+        const result = applyPatch(doc, [
+          { op: 'copy', from: '/meta/author', path: '/editor' },
+        ]);
+
+        expect((result as any).editor).toEqual({ name: 'Ann' });
+        expect(result.meta.author).toEqual({ name: 'Ann' });
+      });
+
+      it('should keep the copy independent from its source', () => {
+        const result = applyPatch(doc, [
+          { op: 'replace', path: '/meta/author/name', value: 'Bob' },
+          { op: 'copy', from: '/meta/author', path: '/editor' },
+          { op: 'replace', path: '/editor/name', value: 'Cid' },
+        ]);
+
+        expect(result.meta.author.name).toBe('Bob');
+        expect((result as any).editor.name).toBe('Cid');
+        expect(doc.meta.author.name).toBe('Ann');
+      });
+
+      it('should reject missing sources', () => {
+        expect(() =>
+          applyPatch(doc, [{ op: 'copy', from: '/nope', path: '/x' }])
+        ).toThrow('from "/nope" does not exist');
+      });
+    });
+
+    describe('test', () => {
+      it('should pass when values are deeply equal', () => {
+        expect(
+          applyPatch(doc, [
+            { op: 'test', path: '/meta/author', value: { name: 'Ann' } },
+            { op: 'test', path: '', value: doc },
+          ])
+        ).toBe(doc);
+      });
+
+      it('should abort the patch when a test fails', () => {
+        expect(() =>
+          applyPatch(doc, [
+            { op: 'replace', path: '/title', value: 'Final' },
+            { op: 'test', path: '/tags', value: ['a'] },
+          ])
+        ).toThrow(
+          'JSON Patch operation #1 (test) failed: value at "/tags" does not match'
+        );
+        expect(() =>
+          applyPatch(doc, [{ op: 'test', path: '/missing', value: undefined }])
+        ).toThrow('does not match');
+      });
+    });
+
+    describe('immutability and sharing', () => {
+      it('should not mutate the document and keep untouched references', () => {
+        const snapshot = JSON.stringify(doc);
+        const result = applyPatch(doc, [
+          { op: 'add', path: '/tags/-', value: 'c' },
+          { op: 'add', path: '/tags/-', value: 'd' },
+        ]);
+
+        expect(JSON.stringify(doc)).toBe(snapshot);
+        expect(result.meta).toBe(doc.meta);
+        expect(result.tags).toEqual(['a', 'b', 'c', 'd']);
+      });
+
+      it('should return the document itself for an empty patch', () => {
+        expect(applyPatch(doc, [])).toBe(doc);
+      });
+    });
+
+    describe('validation', () => {
+      it('should reject malformed operations', () => {
+        expect(() => applyPatch(doc, {} as any)).toThrow(
+          'Expected operations to be an array'
+        );
+        expect(() => applyPatch(doc, [null as any])).toThrow(
+          'JSON Patch operation #0 must be an object'
+        );
+        expect(() =>
+          applyPatch(doc, [{ op: 'merge', path: '/a' } as any])
+        ).toThrow('JSON Patch operation #0 has an unknown op "merge"');
+        expect(() => applyPatch(doc, [{ op: 'remove' } as any])).toThrow(
+          'requires a string "path"'
+        );
+        expect(() =>
+          applyPatch(doc, [{ op: 'copy', path: '/a' } as any])
+        ).toThrow('requires a string "from"');
+        expect(() =>
+          applyPatch(doc, [{ op: 'add', path: '/a' } as any])
+        ).toThrow('requires a "value"');
+      });
+
+      it('should reject invalid pointers', () => {
+        expect(() =>
+          applyPatch(doc, [{ op: 'remove', path: 'title' }])
+        ).toThrow(SyntaxError);
+      });
+
+      it('should reject paths through __proto__, constructor and prototype', () => {
+        expect(() =>
+          applyPatch({}, [
+            { op: 'add', path: '/__proto__/polluted', value: true },
+          ])
+        ).toThrow(UnsafeKeyError);
+        expect(() =>
+          applyPatch({}, [
+            { op: 'add', path: '/constructor/prototype/polluted', value: true },
+          ])
+        ).toThrow(UnsafeKeyError);
+        expect(() =>
+          applyPatch({}, [
+            { op: 'add', path: '/__proto__', value: { polluted: true } },
+          ])
+        ).toThrow(UnsafeKeyError);
+        expect(({} as any).polluted).toBeUndefined();
+      });
+
+      it('should remove own constructor and prototype keys', () => {
+        const doc = { constructor: 1, prototype: 2, id: 3 };
+
+        expect(
+          applyPatch(doc, [
+            { op: 'remove', path: '/constructor' },
+            { op: 'move', from: '/prototype', path: '/proto' },
+          ])
+        ).toEqual({ id: 3, proto: 2 });
+      });
+
+      it('should apply the unsafeKeys option', () => {
+        const doc = { title: 'Draft' };
+        const operations: JsonPatchOperation[] = [
+          { op: 'add', path: '/__proto__/polluted', value: true },
+          { op: 'replace', path: '/title', value: 'Final' },
+        ];
+
+        expect(applyPatch(doc, operations, { unsafeKeys: 'skip' })).toEqual({
+          title: 'Final',
+        });
+        expect(
+          applyPatch({}, [{ op: 'add', path: '/constructor', value: 1 }], {
+            unsafeKeys: 'allow',
+          })
+        ).toEqual({ constructor: 1 });
+        expect(({} as any).polluted).toBeUndefined();
+      });
+    });
+  });
+
+  describe('createPatch', () => {
+    const roundTrip = (a: unknown, b: unknown) =>
+      expect(applyPatch(a, createPatch(a, b))).toEqual(b);
+
+    it('should round-trip documents with own constructor keys', () => {
+      const withKey = { constructor: 1 };
+      const added = applyPatch({}, createPatch({}, withKey), {
+        unsafeKeys: 'allow',
+      });
+
+      expect(added).toEqual(withKey);
+      roundTrip({ constructor: 1, id: 2 }, { id: 2 });
+    });
+
+    it('should return no operations for equal documents', () => {
+      expect(createPatch({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual(
+        []
+      );
+    });
+
+    it('should diff object members', () => {
+      expect(
+        createPatch(
+          { title: 'Draft', obsolete: true, meta: { views: 1 } },
+          { title: 'Final', meta: { views: 2 }, added: null }
+        )
+      ).toEqual([
+        { op: 'remove', path: '/obsolete' },
+        { op: 'replace', path: '/title', value: 'Final' },
+        { op: 'replace', path: '/meta/views', value: 2 },
+        { op: 'add', path: '/added', value: null },
+      ]);
+    });
+
+    it('should escape keys in generated pointers', () => {
+      expect(createPatch({}, { 'a/b': 1, 'c~d': 2 })).toEqual([
+        { op: 'add', path: '/a~1b', value: 1 },
+        { op: 'add', path: '/c~0d', value: 2 },
+      ]);
+    });
+
+    it('should emit single operations for array insertions and removals', () => {
+      expect(createPatch(['a', 'c', 'd'], ['a', 'b', 'c', 'd'])).toEqual([
+        { op: 'add', path: '/1', value: 'b' },
+      ]);
+      expect(createPatch(['a', 'b', 'c', 'd'], ['a', 'c', 'd'])).toEqual([
+        { op: 'remove', path: '/1' },
+      ]);
+    });
+
+    it('should diff changed array elements in place', () => {
+      expect(
+        createPatch(
+          [{ id: 1, done: false }, { id: 2 }],
+          [{ id: 1, done: true }, { id: 2 }]
+        )
+      ).toEqual([{ op: 'replace', path: '/0/done', value: true }]);
+    });
+
+    it('should replace values of different kinds', () => {
+      expect(createPatch({ a: [1] }, { a: { 0: 1 } })).toEqual([
+        { op: 'replace', path: '/a', value: { 0: 1 } },
+      ]);
+      expect(createPatch(1, 2)).toEqual([
+        { op: 'replace', path: '', value: 2 },
+      ]);
+    });
+
+    it('should compare non-plain values with isEqual', () => {
+      const date = new Date('2024-01-01');
+
+      expect(createPatch({ at: date }, { at: new Date('2024-01-01') })).toEqual(
+        []
+      );
+      expect(createPatch({ at: date }, { at: new Date('2025-01-01') })).toEqual(
+        [{ op: 'replace', path: '/at', value: new Date('2025-01-01') }]
+      );
+    });
+
+    it('should produce patches that round-trip', () => {
+      roundTrip({ a: 1, b: [1, 2, 3] }, { b: [3, 2, 1], c: { d: [] } });
+      roundTrip([1, 2, 3, 4, 5], [0, 2, 4, 6]);
+      roundTrip([], [1, 2, 3]);
+      roundTrip([1, 2, 3], []);
+      roundTrip(
+        { list: [{ id: 1 }, { id: 2 }, { id: 3 }] },
+        { list: [{ id: 3 }, { id: 1, x: true }, { id: 4 }] }
+      );
+      roundTrip({ nested: { deep: { value: 'x' } } }, { nested: {} });
+    });
+
+    it('should round-trip randomly edited arrays', () => {
+      let seed = 42;
+      const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+      };
+
+      for (let run = 0; run < 50; run++) {
+        const a = Array.from({ length: Math.floor(random() * 12) }, () =>
+          Math.floor(random() * 5)
+        );
+        const b = Array.from({ length: Math.floor(random() * 12) }, () =>
+          Math.floor(random() * 5)
+        );
+        roundTrip(a, b);
+      }
+    });
+  });
+
+  describe('real-world use cases', () => {
+    it('should sync document edits as patches', () => {
+      const server = { todos: [{ text: 'write', done: false }], version: 1 };
+      const client = {
+        todos: [
+          { text: 'write', done: true },
+          { text: 'test', done: false },
+        ],
+        version: 2,
+      };
+
+      const patch: JsonPatchOperation[] = createPatch(server, client);
+
+      expect(patch).toEqual([
+        { op: 'replace', path: '/todos/0/done', value: true },
+        { op: 'add', path: '/todos/1', value: { text: 'test', done: false } },
+        { op: 'replace', path: '/version', value: 2 },
+      ]);
+      expect(applyPatch(server, patch)).toEqual(client);
+    });
+  });
+});
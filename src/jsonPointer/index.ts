@@ -0,0 +1,215 @@
+import { get } from '../get/index';
+import { set } from '../set/index';
+import { stringifyPath, toPath } from '../toPath/index';
+import type { PathValue, PropertyPath } from '../toPath/index';
+
+// Type definitions
+type UnescapeToken<S extends string> = S extends `${infer Head}~1${infer Tail}`
+  ? UnescapeToken<`${Head}/${Tail}`>
+  : S extends `${infer Head}~0${infer Tail}`
+    ? `${Head}~${UnescapeToken<Tail>}`
+    : S;
+
+type PointerTokens<S extends string> = S extends `${infer Head}/${infer Tail}`
+  ? [UnescapeToken<Head>, ...PointerTokens<Tail>]
+  : [UnescapeToken<S>];
+
+/**
+ * The keys referenced by a JSON Pointer string literal.
+ *
+ * @example
+ * ```typescript
+ * type Keys = PointerKeys<'/items/0/name'>; // ['items', '0', 'name']
+ * ```
+ */
+export type PointerKeys<P extends string> = P extends ''
+  ? []
+  : P extends `/${infer Rest}`
+    ? PointerTokens<Rest>
+    : never;
+
+/**
+ * The type of the value a JSON Pointer `P` references inside `T`.
+ */
+export type PointerValue<T, P extends string> = string extends P
+  ? unknown
+  : [PointerKeys<P>] extends [never]
+    ? unknown
+    : PathValue<T, PointerKeys<P>>;
+
+/**
+ * Parses a JSON Pointer (RFC 6901) into the keys it references.
+ * `~1` is decoded to `/` and `~0` to `~`. The empty pointer references the whole document.
+ *
+ * @param pointer - The JSON Pointer to parse
+ * @returns The unescaped reference tokens
+ * @throws {SyntaxError} If the pointer does not start with `/` or contains an invalid `~` escape
+ *
+ * @example
+ * ```typescript
+ * import { parsePointer } from 'datype';
+ *
+ * parsePointer('/items/0/name'); // ['items', '0', 'name']
+ * parsePointer('/paths/~1users~1{id}'); // ['paths', '/users/{id}']
+ * parsePointer(''); // []
+ * ```
+ */
+export function parsePointer(pointer: string): string[] {
+  if (typeof pointer !== 'string') {
+    throw new TypeError('Pointer must be a string');
+  }
+
+  if (pointer === '') {
+    return [];
+  }
+
+  if (pointer[0] !== '/') {
+    throw new SyntaxError(
+      `Invalid JSON Pointer "${pointer}": must be empty or start with '/'`
+    );
+  }
+
+  const invalidEscape = /~[^01]|~$/.exec(pointer);
+  if (invalidEscape) {
+    throw new SyntaxError(
+      `Invalid JSON Pointer "${pointer}": invalid escape sequence at position ${invalidEscape.index}`
+    );
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Converts a property path (or an array of keys) into a JSON Pointer (RFC 6901).
+ *
+ * @param path - The property path, in `toPath` syntax, or an array of keys
+ * @returns The JSON Pointer referencing the same location
+ * @throws {TypeError} If a key is a symbol, which a JSON Pointer cannot represent
+ *
+ * @example
+ * ```typescript
+ * import { pathToPointer } from 'datype';
+ *
+ * pathToPointer('items[0].name'); // '/items/0/name'
+ * pathToPointer(['paths', '/users/{id}']); // '/paths/~1users~1{id}'
+ * pathToPointer(''); // '' (the whole document)
+ * ```
+ */
+export function pathToPointer(path: PropertyPath): string {
+  return toPath(path)
+    .map(key => {
+      if (typeof key === 'symbol') {
+        throw new TypeError(
+          'Symbol keys cannot be represented in a JSON Pointer'
+        );
+      }
+      return `/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    })
+    .join('');
+}
+
+/**
+ * Converts a JSON Pointer (RFC 6901) into a property path accepted by `get` and `set`.
+ * Useful for mapping JSON Schema or API validation errors back onto objects.
+ *
+ * @param pointer - The JSON Pointer to convert
+ * @returns The equivalent dotted property path
+ * @throws {SyntaxError} If the pointer is malformed
+ *
+ * @example
+ * ```typescript
+ * import { pointerToPath } from 'datype';
+ *
+ * const error = { instancePath: '/items/0/name', message: 'must be string' };
+ * pointerToPath(error.instancePath); // 'items.0.name'
+ * pointerToPath('/headers/x.request.id'); // 'headers["x.request.id"]'
+ * ```
+ */
+export function pointerToPath(pointer: string): string {
+  return stringifyPath(parsePointer(pointer));
+}
+
+/**
+ * Gets the value a JSON Pointer (RFC 6901) references.
+ * Follows the same traversal rules as `get`; the empty pointer returns `obj` itself.
+ *
+ * @template T - The type of the document
+ * @template P - The pointer string literal type
+ * @param obj - The document to read from
+ * @param pointer - The JSON Pointer
+ * @returns The referenced value (typed from `P` when it is a literal), or undefined if it doesn't exist
+ * @throws {SyntaxError} If the pointer is malformed
+ *
+ * @example
+ * ```typescript
+ * import { getPointer } from 'datype';
+ *
+ * const doc = { items: [{ name: 'Widget' }], 'a/b': 1 };
+ *
+ * getPointer(doc, '/items/0/name'); // 'Widget'
+ * getPointer(doc, '/a~1b'); // 1
+ * getPointer(doc, '/items/5'); // undefined
+ * getPointer(doc, ''); // doc
+ * ```
+ */
+export function getPointer<T, P extends string>(
+  obj: T,
+  pointer: P
+): PointerValue<T, P>;
+export function getPointer(obj: unknown, pointer: string): unknown {
+  const keys = parsePointer(pointer);
+
+  return keys.length ? get(obj, keys) : obj;
+}
+
+/**
+ * Immutably sets the value a JSON Pointer (RFC 6901) references, with the same
+ * copy-on-write behavior as `set`. The `-` token appends to an existing array.
+ *
+ * @template T - The type of the document
+ * @param obj - The document to update
+ * @param pointer - The JSON Pointer (must reference a location inside the document)
+ * @param value - The value to set
+ * @returns A new document with the value set
+ * @throws {SyntaxError} If the pointer is malformed
+ * @throws {TypeError} If the pointer is empty
+ *
+ * @example
+ * ```typescript
+ * import { setPointer } from 'datype';
+ *
+ * const doc = { items: [{ name: 'Widget' }] };
+ *
+ * setPointer(doc, '/items/0/name', 'Gadget');
+ * // { items: [{ name: 'Gadget' }] }
+ *
+ * setPointer(doc, '/items/-', { name: 'Gizmo' });
+ * // { items: [{ name: 'Widget' }, { name: 'Gizmo' }] }
+ * ```
+ */
+export function setPointer<T>(obj: T, pointer: string, value: unknown): T {
+  const keys: PropertyKey[] = parsePointer(pointer);
+
+  if (keys.length === 0) {
+    throw new TypeError(
+      'Pointer must reference a location inside the document'
+    );
+  }
+
+  // Resolve "-" (the element after the last one) against the existing arrays
+  let current: unknown = obj;
+  for (let i = 0; i < keys.length && current !== undefined; i++) {
+    if (keys[i] === '-' && Array.isArray(current)) {
+      keys[i] = current.length;
+    }
+    current =
+      current === null
+        ? undefined
+        : (current as Record<PropertyKey, unknown>)[keys[i] as PropertyKey];
+  }
+
+  return set(obj as unknown, keys, value) as T;
+}
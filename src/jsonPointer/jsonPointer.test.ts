@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPointer,
+  parsePointer,
+  pathToPointer,
+  pointerToPath,
+  setPointer,
+} from './index';
+import { get } from '../get/index';
+
+describe('jsonPointer', () => {
+  // Example document from RFC 6901, section 5
+  const rfcDoc = {
+    foo: ['bar', 'baz'],
+    '': 0,
+    'a/b': 1,
+    'c%d': 2,
+    'e^f': 3,
+    'g|h': 4,
+    'i\\j': 5,
+    'k"l': 6,
+    ' ': 7,
+    'm~n': 8,
+  };
+
+  describe('parsePointer', () => {
+    it('should split pointers into tokens', () => {
+      expect(parsePointer('/items/0/name')).toEqual(['items', '0', 'name']);
+      expect(parsePointer('/')).toEqual(['']);
+      expect(parsePointer('//a')).toEqual(['', 'a']);
+    });
+
+    it('should return no tokens for the whole document', () => {
+      expect(parsePointer('')).toEqual([]);
+    });
+
+    it('should unescape ~1 and ~0 in the right order', () => {
+      expect(parsePointer('/a~1b')).toEqual(['a/b']);
+      expect(parsePointer('/m~0n')).toEqual(['m~n']);
+      expect(parsePointer('/~01')).toEqual(['~1']);
+      expect(parsePointer('/~10')).toEqual(['/0']);
+    });
+
+    it('should reject malformed pointers', () => {
+      expect(() => parsePointer('items/0')).toThrow(
+        `Invalid JSON Pointer "items/0": must be empty or start with '/'`
+      );
+      expect(() => parsePointer('/a~2b')).toThrow(
+        'invalid escape sequence at position 2'
+      );
+      expect(() => parsePointer('/a~')).toThrow(SyntaxError);
+      expect(() => parsePointer(42 as any)).toThrow('Pointer must be a string');
+    });
+  });
+
+  describe('getPointer', () => {
+    it('should resolve the RFC 6901 examples', () => {
+      expect(getPointer(rfcDoc, '')).toBe(rfcDoc);
+      expect(getPointer(rfcDoc, '/foo')).toEqual(['bar', 'baz']);
+      expect(getPointer(rfcDoc, '/foo/0')).toBe('bar');
+      expect(getPointer(rfcDoc, '/')).toBe(0);
+      expect(getPointer(rfcDoc, '/a~1b')).toBe(1);
+      expect(getPointer(rfcDoc, '/c%d')).toBe(2);
+      expect(getPointer(rfcDoc, '/e^f')).toBe(3);
+      expect(getPointer(rfcDoc, '/g|h')).toBe(4);
+      expect(getPointer(rfcDoc, '/i\\j')).toBe(5);
+      expect(getPointer(rfcDoc, '/k"l')).toBe(6);
+      expect(getPointer(rfcDoc, '/ ')).toBe(7);
+      expect(getPointer(rfcDoc, '/m~0n')).toBe(8);
+    });
+
+    it('should return undefined for missing locations', () => {
+      expect(getPointer(rfcDoc, '/foo/5')).toBeUndefined();
+      expect(getPointer(rfcDoc, '/missing/deep')).toBeUndefined();
+      expect(getPointer(rfcDoc, '/foo/-')).toBeUndefined();
+    });
+
+    it('should not interpret path syntax inside tokens', () => {
+      const doc = { 'x.request.id': 'abc', 'a[0]': 'literal' };
+
+      expect(getPointer(doc, '/x.request.id')).toBe('abc');
+      expect(getPointer(doc, '/a[0]')).toBe('literal');
+    });
+  });
+
+  describe('setPointer', () => {
+    const doc = { items: [{ name: 'Widget' }], meta: { count: 1 } };
+
+    it('should set values immutably', () => {
+      const result = setPointer(doc, '/items/0/name', 'Gadget');
+
+      expect(result.items[0]!.name).toBe('Gadget');
+      expect(doc.items[0]!.name).toBe('Widget'); // Original unchanged
+      expect(result.meta).toBe(doc.meta);
+    });
+
+    it('should append to arrays with the - token', () => {
+      const result = setPointer(doc, '/items/-', { name: 'Gizmo' });
+
+      expect(result.items).toEqual([{ name: 'Widget' }, { name: 'Gizmo' }]);
+      expect(doc.items).toHaveLength(1);
+    });
+
+    it('should treat - as a plain key on objects', () => {
+      const result = setPointer(doc, '/meta/-', true) as any;
+
+      expect(result.meta['-']).toBe(true);
+    });
+
+    it('should set escaped keys', () => {
+      const result = setPointer({}, '/paths/~1users~1{id}', 'handler') as any;
+
+      expect(result.paths['/users/{id}']).toBe('handler');
+    });
+
+    it('should reject the empty pointer', () => {
+      expect(() => setPointer(doc, '', {})).toThrow(
+        'Pointer must reference a location inside the document'
+      );
+    });
+  });
+
+  describe('conversions', () => {
+    it('should convert paths to pointers', () => {
+      expect(pathToPointer('items[0].name')).toBe('/items/0/name');
+      expect(pathToPointer('headers["x/y~z"]')).toBe('/headers/x~1y~0z');
+      expect(pathToPointer(['a', 0, ''])).toBe('/a/0/');
+      expect(pathToPointer('')).toBe('');
+    });
+
+    it('should convert pointers to paths', () => {
+      expect(pointerToPath('/items/0/name')).toBe('items.0.name');
+      expect(pointerToPath('/headers/x.request.id')).toBe(
+        'headers["x.request.id"]'
+      );
+      expect(pointerToPath('')).toBe('');
+    });
+
+    it('should round-trip between pointers and paths', () => {
+      const pointers = ['/a/b', '/a~1b/~0', '/items/0/x.y', '/', '/ /[0]'];
+
+      for (const pointer of pointers) {
+        expect(pathToPointer(pointerToPath(pointer))).toBe(pointer);
+      }
+    });
+
+    it('should reject symbol keys', () => {
+      expect(() => pathToPointer([Symbol('s')])).toThrow(
+        'Symbol keys cannot be represented in a JSON Pointer'
+      );
+    });
+  });
+
+  describe('real-world use cases', () => {
+    it('should map validation errors back onto the validated object', () => {
+      const payload = { user: { emails: ['ok@example.com', 'not-an-email'] } };
+      const errors = [
+        {
+          instancePath: '/user/emails/1',
+          message: 'must match format "email"',
+        },
+      ];
+
+      const fieldErrors = errors.map(error => ({
+        field: pointerToPath(error.instancePath),
+        value: getPointer(payload, error.instancePath),
+      }));
+
+      expect(fieldErrors).toEqual([
+        { field: 'user.emails.1', value: 'not-an-email' },
+      ]);
+      expect(get(payload, fieldErrors[0]!.field as any)).toBe('not-an-email');
+    });
+  });
+});
@@ -0,0 +1,581 @@
+import { get } from '../get/index';
+import { set } from '../set/index';
+import { toPath } from '../toPath/index';
+import type {
+  PathHint,
+  PathValue,
+  PropertyPath,
+  ValidPath,
+} from '../toPath/index';
+
+// Type definitions
+
+/**
+ * The functor an optic runs in. `view` collects the focused values and
+ * `over` carries the updated value back up to the source.
+ */
+export interface Focus<T> {
+  readonly value: unknown;
+  map<U>(fn: (value: T) => U): Focus<U>;
+}
+
+/**
+ * A focus function, as consumed and produced by optics. `all` combines the
+ * focuses of several parts, which is what traversals and prisms need.
+ */
+export interface FocusFn<T> {
+  (value: T): Focus<T>;
+  all(focuses: Focus<unknown>[]): Focus<unknown[]>;
+}
+
+/**
+ * A van Laarhoven optic from a source `S` to a part `A`.
+ * Optics are plain functions, so function composition composes them:
+ * `compose(outer, inner)` and `pipe(inner, outer)` focus through both, like
+ * `composeOptics(outer, inner)`. `compose` and `pipe` do not know about optics,
+ * so annotate their result as an `Optic`; `composeOptics` keeps the kind and types.
+ */
+export type Optic<S, A> = (focus: FocusFn<A>) => FocusFn<S>;
+
+// The brand that tells lenses, prisms and traversals apart. It exists only in types,
+// so `view` can pick its overload by the kind of optic.
+type OpticKind = 'lens' | 'prism' | 'traversal';
+
+/**
+ * An optic that always focuses exactly one part of the source.
+ */
+export type Lens<S, A> = Optic<S, A> & { readonly __optic: 'lens' };
+
+/**
+ * An optic that focuses one part of the source when it is present.
+ */
+export type Prism<S, A> = Optic<S, A> & { readonly __optic: 'prism' };
+
+/**
+ * An optic that focuses any number of parts of the source.
+ */
+export type Traversal<S, A> = Optic<S, A> & {
+  readonly __optic: 'traversal';
+};
+
+// Lenses compose into a lens, a traversal makes the whole composition a traversal,
+// and anything else may miss its part, making a prism
+type ComposedKind<K extends OpticKind> = [K] extends ['lens']
+  ? 'lens'
+  : 'traversal' extends K
+    ? 'traversal'
+    : 'prism';
+
+type ComposedOptic<K extends OpticKind, S, A> =
+  ComposedKind<K> extends 'lens'
+    ? Lens<S, A>
+    : ComposedKind<K> extends 'prism'
+      ? Prism<S, A>
+      : Traversal<S, A>;
+
+// An optic of any kind; an optic without a brand counts as a traversal
+type KindedOptic<S, A, K extends OpticKind> = Optic<S, A> & {
+  readonly __optic?: K;
+};
+
+function identity<T>(value: T): Focus<T> {
+  return { value, map: fn => identity(fn(value)) };
+}
+
+function collected<T>(values: unknown[]): Focus<T> {
+  const focus: Focus<T> = { value: values, map: () => focus as Focus<never> };
+  return focus;
+}
+
+function focusFn<T>(
+  all: FocusFn<unknown>['all'],
+  fn: (value: T) => Focus<T>
+): FocusFn<T> {
+  return Object.assign(fn, { all });
+}
+
+// Collects every focused value instead of rebuilding the source
+function collect<A>(value: A): Focus<A> {
+  return collected([value]);
+}
+collect.all = (focuses: Focus<unknown>[]): Focus<unknown[]> =>
+  collected(focuses.flatMap(focus => focus.value as unknown[]));
+
+function run<S, A>(optic: Optic<S, A>, source: S, update: (value: A) => A): S {
+  const focus = focusFn<A>(
+    focuses => identity(focuses.map(item => item.value)),
+    value => identity(update(value))
+  );
+  return optic(focus)(source).value as S;
+}
+
+function assertOptic(optic: unknown): void {
+  if (typeof optic !== 'function') {
+    throw new TypeError('Expected optic to be a function');
+  }
+}
+
+/**
+ * Creates a lens from a getter and an immutable setter.
+ * Setting a value that is identical to the current one returns the source unchanged.
+ *
+ * @template S - The type of the source
+ * @template A - The type of the focused part
+ * @param getter - Reads the part from the source
+ * @param setter - Returns a copy of the source with the part replaced
+ * @returns A lens focusing the part
+ *
+ * @example
+ * ```typescript
+ * import { lens, view, put } from 'datype';
+ *
+ * const celsius = lens<{ fahrenheit: number }, number>(
+ *   s => ((s.fahrenheit - 32) * 5) / 9,
+ *   (c, s) => ({ ...s, fahrenheit: (c * 9) / 5 + 32 })
+ * );
+ *
+ * view(celsius, { fahrenheit: 212 }); // 100
+ * put(celsius, 0, { fahrenheit: 212 }); // { fahrenheit: 32 }
+ * ```
+ */
+export function lens<S, A>(
+  getter: (source: S) => A,
+  setter: (value: A, source: S) => S
+): Lens<S, A> {
+  if (typeof getter !== 'function' || typeof setter !== 'function') {
+    throw new TypeError('Expected getter and setter to be functions');
+  }
+
+  const optic: Optic<S, A> = focus =>
+    focusFn(focus.all, (source: S) => {
+      const current = getter(source);
+      return focus(current).map(value =>
+        Object.is(value, current) ? source : setter(value, source)
+      );
+    });
+  return optic as Lens<S, A>;
+}
+
+/**
+ * Creates a lens focusing one property of an object.
+ * Writing through the lens follows `set`: the object is copied, and the other
+ * properties keep their references.
+ *
+ * @template S - The type of the object
+ * @template K - The property key
+ * @param key - The property to focus
+ * @returns A lens focusing `S[K]`
+ * @throws {UnsafeKeyError} When writing `__proto__`, `constructor` or `prototype`
+ *
+ * @example
+ * ```typescript
+ * import { lensProp, view, over } from 'datype';
+ *
+ * type Counter = { count: number };
+ * const count = lensProp<Counter, 'count'>('count');
+ *
+ * view(count, { count: 1 }); // 1
+ * over(count, n => n + 1, { count: 1 }); // { count: 2 }
+ * ```
+ */
+export function lensProp<S, K extends keyof S>(key: K): Lens<S, S[K]> {
+  const type = typeof key;
+  if (type !== 'string' && type !== 'number' && type !== 'symbol') {
+    throw new TypeError('Expected key to be a string, number or symbol');
+  }
+
+  return lens(
+    source => get(source, [key]) as S[K],
+    (value, source) => set((source ?? {}) as S, [key], value as never)
+  );
+}
+
+/**
+ * Creates a lens focusing one element of an array.
+ * Writing through the lens copies the array; a missing source becomes a new array.
+ *
+ * @template T - The type of the array elements
+ * @param index - The non-negative index to focus
+ * @returns A lens focusing the element, which is undefined when out of bounds
+ * @throws {TypeError} If the index is not a non-negative integer
+ *
+ * @example
+ * ```typescript
+ * import { lensIndex, view, put } from 'datype';
+ *
+ * const first = lensIndex<string>(0);
+ *
+ * view(first, ['a', 'b']); // 'a'
+ * put(first, 'z', ['a', 'b']); // ['z', 'b']
+ * ```
+ */
+export function lensIndex<T>(index: number): Lens<readonly T[], T | undefined> {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new TypeError('Expected index to be a non-negative integer');
+  }
+
+  return lens(
+    source => source?.[index],
+    (value, source) => set(source ?? [], [index], value)
+  );
+}
+
+/**
+ * Creates a lens focusing a nested property path, read with `get` and written with `set`.
+ * Writing through the lens creates missing intermediate objects and arrays.
+ *
+ * @template S - The type of the source
+ * @template P - The path string literal type (checked with `ValidPath<S, P>`) or tuple of keys
+ * @param path - The property path, or an array of keys
+ * @returns A lens focusing `PathValue<S, P>`
+ * @throws {SyntaxError} If the path is malformed (see `toPath`)
+ * @throws {TypeError} If the path is empty
+ *
+ * @example
+ * ```typescript
+ * import { lensPath, view, put } from 'datype';
+ *
+ * type State = { user: { address?: { city: string } } };
+ * const city = lensPath<State, 'user.address.city'>('user.address.city');
+ *
+ * const state: State = { user: {} };
+ * view(city, state); // undefined
+ * put(city, 'Paris', state); // { user: { address: { city: 'Paris' } } }
+ * ```
+ */
+export function lensPath<S, const P extends PathHint<S>>(
+  path: ValidPath<S, P>
+): Lens<S, PathValue<S, P>>;
+export function lensPath(path: PropertyPath): Lens<unknown, unknown> {
+  const keys = toPath(path);
+  if (keys.length === 0) {
+    throw new TypeError('Path must be a non-empty string or array of keys');
+  }
+
+  return lens(
+    source => get(source, keys),
+    (value, source) => set(source ?? {}, keys, value as never)
+  );
+}
+
+/**
+ * Creates a prism that focuses the source only when it matches a predicate.
+ * When it does not match, `view` returns undefined and `over`/`put` leave the source unchanged.
+ *
+ * @template S - The type of the source
+ * @template A - The type of the matched source
+ * @param predicate - Decides whether the source is focused (a type guard narrows `A`)
+ * @returns A prism focusing the matching source
+ *
+ * @example
+ * ```typescript
+ * import { prism, over } from 'datype';
+ *
+ * const positive = prism((n: number) => n > 0);
+ *
+ * over(positive, n => n * 10, 5); // 50
+ * over(positive, n => n * 10, -5); // -5
+ * ```
+ */
+export function prism<S, A extends S>(
+  predicate: (source: S) => source is A
+): Prism<S, A>;
+export function prism<S>(predicate: (source: S) => boolean): Prism<S, S>;
+export function prism<S>(predicate: (source: S) => boolean): Prism<S, S> {
+  if (typeof predicate !== 'function') {
+    throw new TypeError('Expected predicate to be a function');
+  }
+
+  const optic: Optic<S, S> = focus =>
+    focusFn(focus.all, (source: S) =>
+      predicate(source) ? focus(source) : focus.all([]).map(() => source)
+    );
+  return optic as Prism<S, S>;
+}
+
+/**
+ * Creates a prism that focuses values that are neither null nor undefined.
+ * Composed after a lens, it lets `over` update an optional value without creating it.
+ *
+ * @template A - The type of the present value
+ * @returns A prism focusing the present value
+ *
+ * @example
+ * ```typescript
+ * import { composeOptics, lensProp, optional, over } from 'datype';
+ * import type { Prism } from 'datype';
+ *
+ * type User = { nickname?: string };
+ * const nickname: Prism<User, string> = composeOptics(
+ *   lensProp<User, 'nickname'>('nickname'),
+ *   optional<string>()
+ * );
+ *
+ * over(nickname, s => s.toUpperCase(), { nickname: 'ann' }); // { nickname: 'ANN' }
+ * over(nickname, s => s.toUpperCase(), {}); // {} (unchanged)
+ * ```
+ */
+export function optional<A>(): Prism<A | null | undefined, A> {
+  return prism(
+    (value: A | null | undefined): value is A =>
+      value !== null && value !== undefined
+  );
+}
+
+/**
+ * Creates a traversal that focuses every element of an array.
+ * Non-array sources have no elements and are left unchanged.
+ * When no element changes, the original array is returned.
+ *
+ * @template T - The type of the array elements
+ * @returns A traversal focusing each element
+ *
+ * @example
+ * ```typescript
+ * import { composeOptics, each, lensProp, over, viewAll } from 'datype';
+ * import type { Traversal } from 'datype';
+ *
+ * type Item = { price: number };
+ * const prices: Traversal<readonly Item[], number> = composeOptics(
+ *   each<Item>(),
+ *   lensProp<Item, 'price'>('price')
+ * );
+ *
+ * const items = [{ price: 10 }, { price: 25 }];
+ * viewAll(prices, items); // [10, 25]
+ * over(prices, p => p * 2, items); // [{ price: 20 }, { price: 50 }]
+ * ```
+ */
+export function each<T>(): Traversal<readonly T[], T> {
+  const optic: Optic<readonly T[], T> = focus =>
+    focusFn(focus.all, (source: readonly T[]) => {
+      if (!Array.isArray(source)) {
+        return focus.all([]).map(() => source);
+      }
+
+      return focus
+        .all(source.map(item => focus(item)))
+        .map(items =>
+          items.every((item, i) => Object.is(item, source[i]))
+            ? source
+            : (items as T[])
+        );
+    });
+  return optic as Traversal<readonly T[], T>;
+}
+
+/**
+ * Composes optics from the outermost to the innermost, keeping their types.
+ * Lenses compose into a lens; a prism makes the composition a prism, and a
+ * traversal makes it a traversal. Each optic's source type must accept the
+ * part the previous optic focuses. At runtime this is `compose(...optics)`,
+ * which composes optics too but returns an untyped function.
+ *
+ * @param optics - Two to four optics, outermost first
+ * @returns An optic focusing through all of them
+ * @throws {TypeError} If an optic is not a function
+ *
+ * @example
+ * ```typescript
+ * import { composeOptics, each, lensProp, optional, over } from 'datype';
+ *
+ * type Item = { price: number };
+ * type Order = { items: Item[]; note?: string };
+ *
+ * const prices = composeOptics(
+ *   lensProp<Order, 'items'>('items'),
+ *   each<Item>(),
+ *   lensProp<Item, 'price'>('price')
+ * ); // Traversal<Order, number>
+ * const note = composeOptics(
+ *   lensProp<Order, 'note'>('note'),
+ *   optional<string>()
+ * ); // Prism<Order, string>
+ *
+ * over(prices, p => p * 2, { items: [{ price: 10 }] }); // { items: [{ price: 20 }] }
+ * ```
+ */
+export function composeOptics<
+  S,
+  A extends A2,
+  A2,
+  B,
+  K1 extends OpticKind,
+  K2 extends OpticKind,
+>(
+  first: KindedOptic<S, A, K1>,
+  second: KindedOptic<A2, B, K2>
+): ComposedOptic<K1 | K2, S, B>;
+export function composeOptics<
+  S,
+  A extends A2,
+  A2,
+  B extends B2,
+  B2,
+  C,
+  K1 extends OpticKind,
+  K2 extends OpticKind,
+  K3 extends OpticKind,
+>(
+  first: KindedOptic<S, A, K1>,
+  second: KindedOptic<A2, B, K2>,
+  third: KindedOptic<B2, C, K3>
+): ComposedOptic<K1 | K2 | K3, S, C>;
+export function composeOptics<
+  S,
+  A extends A2,
+  A2,
+  B extends B2,
+  B2,
+  C extends C2,
+  C2,
+  D,
+  K1 extends OpticKind,
+  K2 extends OpticKind,
+  K3 extends OpticKind,
+  K4 extends OpticKind,
+>(
+  first: KindedOptic<S, A, K1>,
+  second: KindedOptic<A2, B, K2>,
+  third: KindedOptic<B2, C, K3>,
+  fourth: KindedOptic<C2, D, K4>
+): ComposedOptic<K1 | K2 | K3 | K4, S, D>;
+export function composeOptics(
+  ...optics: Array<Optic<unknown, unknown>>
+): Optic<unknown, unknown> {
+  optics.forEach(assertOptic);
+
+  return focus =>
+    optics.reduceRight<FocusFn<unknown>>((inner, optic) => optic(inner), focus);
+}
+
+/**
+ * Reads the part an optic focuses. For prisms and traversals, returns the first
+ * focused value, or undefined when nothing is focused.
+ *
+ * @template S - The type of the source
+ * @template A - The type of the focused part
+ * @param optic - The lens, prism or traversal
+ * @param source - The value to read from
+ * @returns The focused value
+ *
+ * @example
+ * ```typescript
+ * import { lensPath, view } from 'datype';
+ *
+ * view(lensPath('user.name'), { user: { name: 'Ann' } }); // 'Ann'
+ * ```
+ */
+export function view<S, A>(optic: Lens<S, A>, source: S): A;
+export function view<S, A>(optic: Optic<S, A>, source: S): A | undefined;
+export function view<S, A>(optic: Optic<S, A>, source: S): A | undefined {
+  return viewAll(optic, source)[0];
+}
+
+/**
+ * Reads every part an optic focuses, in order.
+ *
+ * @template S - The type of the source
+ * @template A - The type of the focused parts
+ * @param optic - The lens, prism or traversal
+ * @param source - The value to read from
+ * @returns The focused values (empty when nothing is focused)
+ *
+ * @example
+ * ```typescript
+ * import { each, viewAll } from 'datype';
+ *
+ * viewAll(each<number>(), [1, 2, 3]); // [1, 2, 3]
+ * ```
+ */
+export function viewAll<S, A>(optic: Optic<S, A>, source: S): A[] {
+  assertOptic(optic);
+
+  return optic(collect as FocusFn<A>)(source).value as A[];
+}
+
+/**
+ * Immutably applies a function to every part an optic focuses.
+ * Without a source, returns a function of the source, for use with `pipe` and `compose`.
+ *
+ * @template S - The type of the source
+ * @template A - The type of the focused part
+ * @param optic - The lens, prism or traversal
+ * @param fn - Receives each focused value and returns its replacement
+ * @param source - The value to update (omit for a curried updater)
+ * @returns The updated source (the original when nothing changed)
+ *
+ * @example
+ * ```typescript
+ * import { lensProp, over, pipe, put } from 'datype';
+ *
+ * type State = { count: number; status: string };
+ * const count = lensProp<State, 'count'>('count');
+ * const status = lensProp<State, 'status'>('status');
+ *
+ * over(count, n => n + 1, { count: 1, status: 'idle' });
+ * // { count: 2, status: 'idle' }
+ *
+ * const reducer = pipe(over(count, n => n + 1), put(status, 'done'));
+ * reducer({ count: 1, status: 'idle' }); // { count: 2, status: 'done' }
+ * ```
+ */
+export function over<S, A>(
+  optic: Optic<S, A>,
+  fn: (value: A) => A,
+  source: S
+): S;
+export function over<S, A>(
+  optic: Optic<S, A>,
+  fn: (value: A) => A
+): (source: S) => S;
+export function over<S, A>(
+  optic: Optic<S, A>,
+  fn: (value: A) => A,
+  ...rest: [S?]
+): S | ((source: S) => S) {
+  assertOptic(optic);
+  if (typeof fn !== 'function') {
+    throw new TypeError('Expected fn to be a function');
+  }
+
+  if (rest.length === 0) {
+    return (source: S) => run(optic, source, fn);
+  }
+
+  return run(optic, rest[0] as S, fn);
+}
+
+/**
+ * Immutably replaces every part an optic focuses with a value.
+ * This is the lens counterpart of `set`, which takes a path instead of an optic.
+ * Without a source, returns a function of the source, for use with `pipe` and `compose`.
+ *
+ * @template S - The type of the source
+ * @template A - The type of the focused part
+ * @param optic - The lens, prism or traversal
+ * @param value - The value to write
+ * @param source - The value to update (omit for a curried setter)
+ * @returns The updated source (the original when nothing changed)
+ *
+ * @example
+ * ```typescript
+ * import { lensIndex, put } from 'datype';
+ *
+ * put(lensIndex<number>(1), 9, [1, 2, 3]); // [1, 9, 3]
+ * ```
+ */
+export function put<S, A>(optic: Optic<S, A>, value: NoInfer<A>, source: S): S;
+export function put<S, A>(
+  optic: Optic<S, A>,
+  value: NoInfer<A>
+): (source: S) => S;
+export function put<S, A>(
+  optic: Optic<S, A>,
+  value: A,
+  ...rest: [S?]
+): S | ((source: S) => S) {
+  return rest.length === 0
+    ? over(optic, () => value)
+    : over(optic, () => value, rest[0] as S);
+}
@@ -0,0 +1,395 @@
+import { describe, it, expect } from 'vitest';
+import { compose, pipe } from '../compose/index';
+import {
+  lens,
+  lensProp,
+  lensIndex,
+  lensPath,
+  prism,
+  optional,
+  each,
+  composeOptics,
+  view,
+  viewAll,
+  over,
+  put,
+} from './index';
+import type { Lens, Optic, Prism, Traversal } from './index';
+
+interface Address {
+  city: string;
+  zip?: string;
+}
+
+interface User {
+  name: string;
+  address?: Address;
+  tags: string[];
+}
+
+const user: User = {
+  name: 'Ann',
+  address: { city: 'Paris' },
+  tags: ['admin', 'beta'],
+};
+
+describe('lens', () => {
+  describe('lens', () => {
+    it('should view and update through a getter and setter', () => {
+      const celsius = lens<{ fahrenheit: number }, number>(
+        s => ((s.fahrenheit - 32) * 5) / 9,
+        (c, s) => ({ ...s, fahrenheit: (c * 9) / 5 + 32 })
+      );
+
+      expect(view(celsius, { fahrenheit: 212 })).toBe(100);
+      expect(put(celsius, 0, { fahrenheit: 212 })).toEqual({ fahrenheit: 32 });
+      expect(over(celsius, c => c + 10, { fahrenheit: 32 })).toEqual({
+        fahrenheit: 50,
+      });
+    });
+
+    it('should return the source when the value is unchanged', () => {
+      const name = lensProp<User, 'name'>('name');
+
+      expect(put(name, 'Ann', user)).toBe(user);
+      expect(over(name, n => n, user)).toBe(user);
+    });
+
+    it('should reject non-function getters and setters', () => {
+      expect(() => lens(null as any, () => ({}))).toThrow(
+        'Expected getter and setter to be functions'
+      );
+    });
+  });
+
+  describe('lensProp', () => {
+    const name = lensProp<User, 'name'>('name');
+
+    it('should focus a property', () => {
+      expect(view(name, user)).toBe('Ann');
+    });
+
+    it('should update immutably and share untouched values', () => {
+      const result = put(name, 'Bob', user);
+
+      expect(result.name).toBe('Bob');
+      expect(user.name).toBe('Ann');
+      expect(result.address).toBe(user.address);
+    });
+
+    it('should support symbol keys', () => {
+      const meta = Symbol('meta');
+      const metaLens = lensProp<{ [meta]: number }, typeof meta>(meta);
+
+      expect(over(metaLens, n => n + 1, { [meta]: 1 })[meta]).toBe(2);
+    });
+
+    it('should reject unsafe keys when writing', () => {
+      const proto = lensProp<any, string>('__proto__');
+
+      expect(() => put(proto, { polluted: true }, {})).toThrow(
+        'Unsafe key "__proto__" is not allowed'
+      );
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should reject invalid keys', () => {
+      expect(() => lensProp<any, any>({})).toThrow(
+        'Expected key to be a string, number or symbol'
+      );
+    });
+  });
+
+  describe('lensIndex', () => {
+    it('should focus an array element', () => {
+      const second = lensIndex<string>(1);
+
+      expect(view(second, ['a', 'b'])).toBe('b');
+      expect(view(second, ['a'])).toBeUndefined();
+    });
+
+    it('should copy the array when writing', () => {
+      const list = [1, 2, 3];
+      const result = put(lensIndex<number>(0), 9, list);
+
+      expect(result).toEqual([9, 2, 3]);
+      expect(list).toEqual([1, 2, 3]);
+    });
+
+    it('should reject invalid indices', () => {
+      expect(() => lensIndex(-1)).toThrow(
+        'Expected index to be a non-negative integer'
+      );
+      expect(() => lensIndex(1.5)).toThrow(
+        'Expected index to be a non-negative integer'
+      );
+    });
+  });
+
+  describe('lensPath', () => {
+    const city = lensPath<User, 'address.city'>('address.city');
+
+    it('should focus a nested path', () => {
+      expect(view(city, user)).toBe('Paris');
+      expect(view(city, { name: 'Bob', tags: [] })).toBeUndefined();
+    });
+
+    it('should write with set semantics', () => {
+      const result = put(city, 'Lyon', { name: 'Bob', tags: [] });
+
+      expect(result.address).toEqual({ city: 'Lyon' });
+    });
+
+    it('should accept arrays of keys and bracket paths', () => {
+      const firstTag = lensPath<User, 'tags[0]'>('tags[0]');
+      const byKeys = lensPath<User, ['tags', 1]>(['tags', 1]);
+
+      expect(view(firstTag, user)).toBe('admin');
+      expect(put(byKeys, 'gamma', user).tags).toEqual(['admin', 'gamma']);
+    });
+
+    it('should reject empty and malformed paths', () => {
+      expect(() => lensPath('')).toThrow(
+        'Path must be a non-empty string or array of keys'
+      );
+      expect(() => lensPath('a..b')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('prism', () => {
+    const positive = prism((n: number) => n > 0);
+
+    it('should focus matching sources only', () => {
+      expect(view(positive, 5)).toBe(5);
+      expect(view(positive, -5)).toBeUndefined();
+      expect(over(positive, n => n * 10, 5)).toBe(50);
+      expect(over(positive, n => n * 10, -5)).toBe(-5);
+    });
+
+    it('should narrow with type guards', () => {
+      const strings = prism((v: unknown): v is string => typeof v === 'string');
+
+      expect(over(strings, s => s.toUpperCase(), 'a')).toBe('A');
+      expect(over(strings, s => s.toUpperCase(), 1)).toBe(1);
+    });
+
+    it('should reject non-function predicates', () => {
+      expect(() => prism(null as any)).toThrow(
+        'Expected predicate to be a function'
+      );
+    });
+  });
+
+  describe('optional', () => {
+    const address: Prism<User, Address> = composeOptics(
+      lensProp<User, 'address'>('address'),
+      optional<Address>()
+    );
+    const city: Prism<User, string> = composeOptics(
+      lensProp<User, 'address'>('address'),
+      optional<Address>(),
+      lensProp<Address, 'city'>('city')
+    );
+
+    it('should focus present values', () => {
+      expect(view(address, user)).toEqual({ city: 'Paris' });
+      expect(view(city, user)).toBe('Paris');
+      expect(put(city, 'Lyon', user).address).toEqual({ city: 'Lyon' });
+    });
+
+    it('should leave missing values untouched', () => {
+      const anonymous: User = { name: 'Bob', tags: [] };
+
+      expect(view(city, anonymous)).toBeUndefined();
+      expect(put(city, 'Lyon', anonymous)).toBe(anonymous);
+      expect(viewAll(city, anonymous)).toEqual([]);
+    });
+
+    it('should treat null as missing', () => {
+      expect(over(optional<number>(), n => n + 1, null)).toBeNull();
+      expect(over(optional<number>(), n => n + 1, 0)).toBe(1);
+    });
+  });
+
+  describe('each', () => {
+    const tags: Traversal<User, string> = composeOptics(
+      lensProp<User, 'tags'>('tags'),
+      each<string>()
+    );
+
+    it('should focus every element', () => {
+      expect(viewAll(tags, user)).toEqual(['admin', 'beta']);
+      expect(view(tags, user)).toBe('admin');
+    });
+
+    it('should update every element immutably', () => {
+      const result = over(tags, tag => tag.toUpperCase(), user);
+
+      expect(result.tags).toEqual(['ADMIN', 'BETA']);
+      expect(user.tags).toEqual(['admin', 'beta']);
+      expect(result.address).toBe(user.address);
+    });
+
+    it('should return the original array when nothing changes', () => {
+      expect(over(tags, tag => tag, user)).toBe(user);
+    });
+
+    it('should handle empty and non-array sources', () => {
+      expect(viewAll(each<number>(), [])).toEqual([]);
+      expect(view(each<number>(), [])).toBeUndefined();
+      expect(
+        over(each<number>(), n => n + 1, undefined as any)
+      ).toBeUndefined();
+    });
+
+    it('should nest traversals', () => {
+      const cells: Traversal<readonly number[][], number> = composeOptics(
+        each<number[]>(),
+        each<number>()
+      );
+
+      expect(viewAll(cells, [[1, 2], [3]])).toEqual([1, 2, 3]);
+      expect(over(cells, n => n * 2, [[1, 2], [3]])).toEqual([[2, 4], [6]]);
+    });
+
+    it('should combine with prisms to filter elements', () => {
+      const evens: Traversal<readonly number[], number> = composeOptics(
+        each<number>(),
+        prism((n: number) => n % 2 === 0)
+      );
+
+      expect(viewAll(evens, [1, 2, 3, 4])).toEqual([2, 4]);
+      expect(put(evens, 0, [1, 2, 3, 4])).toEqual([1, 0, 3, 0]);
+    });
+  });
+
+  describe('composeOptics', () => {
+    it('should type compositions by the kinds of their optics', () => {
+      const firstTag: Lens<User, string | undefined> = composeOptics(
+        lensProp<User, 'tags'>('tags'),
+        lensIndex<string>(0)
+      );
+      const zip: Prism<User, string> = composeOptics(
+        lensProp<User, 'address'>('address'),
+        optional<Address>(),
+        lensProp<Address, 'zip'>('zip'),
+        optional<string>()
+      );
+      const tags: Traversal<User, string> = composeOptics(
+        lensProp<User, 'tags'>('tags'),
+        each<string>()
+      );
+      const tag: string | undefined = view(firstTag, user);
+
+      expect(tag).toBe('admin');
+      expect(view(zip, user)).toBeUndefined();
+      expect(viewAll(tags, user)).toEqual(['admin', 'beta']);
+
+      // @ts-expect-error a prism may miss its part, so it is not a lens
+      const notLens: Lens<User, string> = zip;
+      expect(notLens).toBe(zip);
+    });
+
+    it('should compose like compose and pipe', () => {
+      const tagsLens = lensProp<User, 'tags'>('tags');
+      const first = lensIndex<string>(0);
+      const viaCompose: Optic<User, string | undefined> = compose(
+        tagsLens,
+        first
+      );
+      const viaPipe: Optic<User, string | undefined> = pipe(first, tagsLens);
+      const everyTag: Optic<User, string> = compose(tagsLens, each<string>());
+
+      expect(view(viaCompose, user)).toBe('admin');
+      expect(view(viaPipe, user)).toBe('admin');
+      expect(put(viaCompose, 'root', user).tags).toEqual(['root', 'beta']);
+      expect(over(viaPipe, tag => tag?.toUpperCase(), user).tags).toEqual([
+        'ADMIN',
+        'beta',
+      ]);
+      expect(viewAll(everyTag, user)).toEqual(['admin', 'beta']);
+      expect(viewAll(everyTag, user)).toEqual(
+        viewAll(composeOptics(tagsLens, each<string>()), user)
+      );
+    });
+
+    it('should reject optics whose types do not line up', () => {
+      // @ts-expect-error the inner optic reads an Address, not a string
+      composeOptics(lensProp<User, 'name'>('name'), optional<Address>());
+
+      const plain: Optic<User, string[]> = lensProp<User, 'tags'>('tags');
+      // @ts-expect-error an optic without a brand is not a lens, so view may return undefined
+      const tags: string[] = view(plain, user);
+      expect(tags).toEqual(['admin', 'beta']);
+    });
+
+    it('should reject non-function optics', () => {
+      expect(() =>
+        composeOptics(lensProp<User, 'name'>('name'), null as any)
+      ).toThrow('Expected optic to be a function');
+    });
+  });
+
+  describe('operations', () => {
+    const name = lensProp<User, 'name'>('name');
+
+    it('should curry over and put when the source is omitted', () => {
+      const rename = put(name, 'Bob');
+      const shout = over(name, n => n.toUpperCase());
+
+      expect(rename(user).name).toBe('Bob');
+      expect(shout(user).name).toBe('ANN');
+    });
+
+    it('should compose curried updates with pipe', () => {
+      const city: Lens<User, string | undefined> = lensPath('address.city');
+      const reducer = pipe<User>(
+        over(name, n => n.toUpperCase()),
+        put(city, 'Lyon')
+      );
+
+      expect(reducer(user)).toEqual({
+        name: 'ANN',
+        address: { city: 'Lyon' },
+        tags: ['admin', 'beta'],
+      });
+    });
+
+    it('should reject invalid arguments', () => {
+      expect(() => view(null as any, user)).toThrow(
+        'Expected optic to be a function'
+      );
+      expect(() => over(name, null as any, user)).toThrow(
+        'Expected fn to be a function'
+      );
+    });
+  });
+
+  describe('real-world use cases', () => {
+    it('should give reducers reusable focus points', () => {
+      interface State {
+        cart: { items: Array<{ id: string; qty: number }> };
+      }
+
+      const quantities: Traversal<State, number> = composeOptics(
+        lensPath<State, 'cart.items'>('cart.items'),
+        each<{ id: string; qty: number }>(),
+        lensProp<{ id: string; qty: number }, 'qty'>('qty')
+      );
+
+      const state: State = {
+        cart: {
+          items: [
+            { id: 'a', qty: 1 },
+            { id: 'b', qty: 2 },
+          ],
+        },
+      };
+
+      const doubled = over(quantities, qty => qty * 2, state);
+
+      expect(viewAll(quantities, doubled)).toEqual([2, 4]);
+      expect(viewAll(quantities, state)).toEqual([1, 2]);
+    });
+  });
+});
@@ -1,12 +1,26 @@
+import { isKeyAllowed } from '../unsafeKeys/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
+export interface MapKeysOptions {
+  /**
+   * How to treat new keys named `__proto__`, `constructor` or `prototype`.
+   * Defaults to `'skip'`.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+}
+
 /**
  * Transform all keys in an object using an iterator function while preserving the values.
  * Returns a new object with transformed keys and the same values.
+ * New keys named `__proto__`, `constructor` or `prototype` are skipped by default.
  *
  * @template T - The type of the input object
  * @template K - The type of the new keys
  * @param obj - The object to transform
  * @param iteratee - Function that transforms each key
+ * @param options - Map options (`unsafeKeys` policy for prototype-polluting keys)
  * @returns A new object with transformed keys
+ * @throws {UnsafeKeyError} If a new key is unsafe and `unsafeKeys` is `'throw'`
  *
  * @example
  * ```typescript
@@ -60,7 +74,8 @@ export function mapKeys<
   K extends PropertyKey,
 >(
   obj: T,
-  iteratee: (key: keyof T, value: T[keyof T], object: T) => K
+  iteratee: (key: keyof T, value: T[keyof T], object: T) => K,
+  options: MapKeysOptions = {}
 ): Record<K, T[keyof T]> {
   if (obj === null || obj === undefined) {
     throw new TypeError('Expected object to be non-null');
@@ -82,7 +97,9 @@ export function mapKeys<
 
   for (const key of keys) {
     const newKey = iteratee(key, obj[key], obj);
-    result[newKey] = obj[key];
+    if (isKeyAllowed(newKey, options.unsafeKeys ?? 'skip')) {
+      result[newKey] = obj[key];
+    }
   }
 
   return result;
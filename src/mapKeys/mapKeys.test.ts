@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { mapKeys, keyTransformers } from './index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
 
 describe('mapKeys', () => {
   describe('basic key transformation', () => {
@@ -260,8 +261,8 @@ describe('mapKeys', () => {
       const resultKeys = Object.getOwnPropertySymbols(result);
       expect(result.transformed_regular).toBe('value');
       expect(resultKeys).toHaveLength(2);
-      expect(resultKeys[0].description).toBe('transformed_key1');
-      expect(resultKeys[1].description).toBe('transformed_key2');
+      expect(resultKeys[0]!.description).toBe('transformed_key1');
+      expect(resultKeys[1]!.description).toBe('transformed_key2');
     });
 
     it('should handle numeric string keys', () => {
@@ -548,4 +549,32 @@ describe('mapKeys', () => {
       expect(normalize('multiple   spaces')).toBe('multiple_spaces');
     });
   });
+
+  describe('prototype pollution', () => {
+    it('should skip new keys that are unsafe', () => {
+      const result = mapKeys({ proto: { admin: true }, name: 'John' }, key =>
+        key === 'proto' ? '__proto__' : key
+      );
+
+      expect(result).toEqual({ name: 'John' });
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect((result as any).admin).toBeUndefined();
+    });
+
+    it('should throw on unsafe keys with the "throw" policy', () => {
+      expect(() =>
+        mapKeys({ ctor: 1 }, () => 'constructor', { unsafeKeys: 'throw' })
+      ).toThrow(UnsafeKeyError);
+    });
+
+    it('should write unsafe keys with the "allow" policy', () => {
+      const result = mapKeys({ ctor: 1 }, () => 'constructor', {
+        unsafeKeys: 'allow',
+      });
+
+      expect(Object.prototype.hasOwnProperty.call(result, 'constructor')).toBe(
+        true
+      );
+    });
+  });
 });
@@ -1,7 +1,176 @@
+import { isKeyAllowed } from '../unsafeKeys/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
+// Type definitions
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+type EmptyObject = Record<never, never>;
+
+type Simplify<T> = T extends unknown ? { [K in keyof T]: T[K] } : never;
+
+type OptionalKeys<T> = {
+  [K in keyof T]-?: EmptyObject extends Pick<T, K> ? K : never;
+}[keyof T];
+
+type RequiredKeys<T> = Exclude<keyof T, OptionalKeys<T>>;
+
+// What merge accepts; other values are ignored at runtime
+type MergeInput = object | null | undefined;
+
+// The properties an argument contributes; null, undefined and primitives add none
+type MergeInputProps<T> =
+  IsAny<T> extends true
+    ? Record<PropertyKey, unknown>
+    : T extends object
+      ? T
+      : EmptyObject;
+
+// Shallow merge of two object types: B's required keys replace A's, B's optional
+// keys may or may not replace them, and A's other keys are kept as they are
+type MergeTwo<A, B> = A extends unknown
+  ? B extends unknown
+    ? Simplify<
+        Omit<A, keyof B> &
+          Pick<B, RequiredKeys<B>> &
+          Pick<B, Exclude<OptionalKeys<B>, keyof A>> & {
+            [K in keyof Pick<A, OptionalKeys<B> & keyof A>]:
+              | Required<A>[K]
+              | Required<B>[K & keyof B];
+          }
+      >
+    : never
+  : never;
+
+/**
+ * The result of `merge` for arguments of types `T`: a shallow merge in which later
+ * arguments override earlier ones. A key is optional only when every argument that
+ * has it declares it optional, and an optional key of a later argument widens the
+ * earlier value's type instead of replacing it. `null`, `undefined` and primitives
+ * add nothing, and symbol keys are merged like string keys.
+ *
+ * @example
+ * ```typescript
+ * type Result = MergeAll<[{ a: number; b: string }, { b: boolean }, { c?: Date }]>;
+ * // { a: number; b: boolean; c?: Date }
+ *
+ * type Widened = MergeAll<[{ a: number }, { a?: string }]>;
+ * // { a: number | string }
+ * ```
+ */
+export type MergeAll<
+  T extends readonly unknown[],
+  Acc = EmptyObject,
+> = T extends readonly [infer Head, ...infer Rest]
+  ? MergeAll<Rest, MergeTwo<Acc, MergeInputProps<Head>>>
+  : T extends readonly []
+    ? Acc
+    : // A spread array of unknown length: any element may or may not be there
+      MergeTwo<Acc, Partial<MergeInputProps<T[number]>>>;
+
+/**
+ * A `merge` function, as returned by `mergeWith`.
+ */
+export type MergeFunction = typeof merge;
+
+export interface MergeOptions {
+  /**
+   * How to treat `__proto__`, `constructor` and `prototype` keys in the merged objects.
+   * Defaults to `'skip'`.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+  /**
+   * Copy property descriptors instead of values, so getters, setters and
+   * writability survive, and keep the prototype of the first object.
+   */
+  mergeDescriptors?: boolean;
+  /** With `mergeDescriptors`, also copy non-enumerable properties. */
+  includeNonEnumerable?: boolean;
+}
+
+// Later descriptors win; they are defined at the end so that a non-configurable
+// property from an earlier object can still be overridden
+function mergeObjectDescriptors(
+  objects: readonly unknown[],
+  options: MergeOptions
+): Record<string | symbol, unknown> {
+  const policy = options.unsafeKeys ?? 'skip';
+  const descriptors = new Map<string | symbol, PropertyDescriptor>();
+
+  for (const obj of objects) {
+    if (obj === null || obj === undefined || typeof obj !== 'object') {
+      continue;
+    }
+
+    for (const key of Reflect.ownKeys(obj)) {
+      const descriptor = Object.getOwnPropertyDescriptor(obj, key)!;
+      if (
+        (descriptor.enumerable || options.includeNonEnumerable) &&
+        (typeof key === 'symbol' || isKeyAllowed(key, policy))
+      ) {
+        descriptors.set(key, descriptor);
+      }
+    }
+  }
+
+  const [first] = objects;
+  const prototype =
+    typeof first === 'object' && first !== null
+      ? Object.getPrototypeOf(first)
+      : Object.prototype;
+
+  return Object.create(prototype, Object.fromEntries(descriptors));
+}
+
+function mergeObjects(
+  objects: readonly unknown[],
+  options: MergeOptions
+): Record<string | symbol, unknown> {
+  if (options.mergeDescriptors) {
+    return mergeObjectDescriptors(objects, options);
+  }
+
+  const policy = options.unsafeKeys ?? 'skip';
+  const result: Record<string | symbol, unknown> = {};
+
+  for (const obj of objects) {
+    if (obj !== null && obj !== undefined && typeof obj === 'object') {
+      const source = obj as Record<string | symbol, unknown>;
+
+      // Copy all enumerable own properties (including Symbol properties)
+      const propertyDescriptors = Object.getOwnPropertyDescriptors(source);
+
+      for (const key in propertyDescriptors) {
+        const descriptor = propertyDescriptors[key];
+        if (descriptor?.enumerable && isKeyAllowed(key, policy)) {
+          result[key] = source[key];
+        }
+      }
+
+      // Copy enumerable Symbol properties
+      const symbolKeys = Object.getOwnPropertySymbols(source);
+      for (const symbolKey of symbolKeys) {
+        const descriptor = Object.getOwnPropertyDescriptor(source, symbolKey);
+        if (descriptor && descriptor.enumerable) {
+          result[symbolKey] = source[symbolKey];
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
 /**
  * Merges multiple objects into a new object, performing a shallow merge.
  * Properties from later objects override properties from earlier objects.
+ * Keys named `__proto__`, `constructor` or `prototype` are skipped; use `mergeWith`
+ * to change that policy. Nested objects are shared, not copied, so their keys are
+ * left as they are; use `deepMerge` to check keys at every depth.
  *
+ * The result is typed as `MergeAll` of the argument types, so unannotated calls get
+ * a precise type. Passing a type argument (`merge<Config>(...)`) still returns `T`.
+ *
+ * @template T - The argument types, or the result type when given explicitly
  * @param objects - The objects to merge
  * @returns A new object containing properties from all input objects
  *
@@ -59,33 +228,48 @@
  * // }
  * ```
  */
+export function merge<T extends readonly MergeInput[]>(
+  ...objects: T
+): MergeAll<T>;
 export function merge<T extends Record<string | symbol, any>>(
   ...objects: (Partial<T> | Record<string | symbol, any>)[]
-): T {
-  const result = {} as T;
-
-  for (const obj of objects) {
-    if (obj !== null && obj !== undefined && typeof obj === 'object') {
-      // Copy all enumerable own properties (including Symbol properties)
-      const propertyDescriptors = Object.getOwnPropertyDescriptors(obj);
-
-      for (const key in propertyDescriptors) {
-        const descriptor = propertyDescriptors[key];
-        if (descriptor?.enumerable) {
-          (result as any)[key] = obj[key];
-        }
-      }
+): T;
+export function merge(...objects: unknown[]): Record<string | symbol, unknown> {
+  return mergeObjects(objects, {});
+}
 
-      // Copy enumerable Symbol properties
-      const symbolKeys = Object.getOwnPropertySymbols(obj);
-      for (const symbolKey of symbolKeys) {
-        const descriptor = Object.getOwnPropertyDescriptor(obj, symbolKey);
-        if (descriptor && descriptor.enumerable) {
-          (result as any)[symbolKey] = obj[symbolKey];
-        }
-      }
-    }
+/**
+ * Creates a shallow `merge` function that uses the given options.
+ *
+ * With `mergeDescriptors`, property descriptors are copied instead of values, so
+ * getters and setters stay live, read-only properties stay read-only, and the result
+ * keeps the prototype of the first object. Add `includeNonEnumerable` to copy
+ * non-enumerable properties too.
+ *
+ * @param options - Merge options (`unsafeKeys` policy for prototype-polluting keys,
+ * `mergeDescriptors`, `includeNonEnumerable`)
+ * @returns A function that merges its arguments like `merge`
+ * @throws {UnsafeKeyError} From the returned function, if an object has an unsafe key and `unsafeKeys` is `'throw'`
+ *
+ * @example
+ * ```typescript
+ * import { mergeWith } from 'datype';
+ *
+ * const strictMerge = mergeWith({ unsafeKeys: 'throw' });
+ *
+ * strictMerge({ a: 1 }, { b: 2 }); // { a: 1, b: 2 }
+ * strictMerge({}, JSON.parse('{"__proto__": {"admin": true}}')); // throws UnsafeKeyError
+ *
+ * const descriptorMerge = mergeWith({ mergeDescriptors: true });
+ * const lazy = descriptorMerge({ base: 1 }, { get now() { return Date.now(); } });
+ * lazy.now; // evaluated on every read
+ * ```
+ */
+export function mergeWith(options: MergeOptions): MergeFunction {
+  if (typeof options !== 'object' || options === null) {
+    throw new TypeError('Expected options to be an object');
   }
 
-  return result;
+  return ((...objects: unknown[]) =>
+    mergeObjects(objects, options)) as MergeFunction;
 }
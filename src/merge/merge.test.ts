@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { merge } from './index';
+import { merge, mergeWith } from './index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
 
 describe('merge', () => {
   describe('basic functionality', () => {
@@ -201,7 +202,7 @@ describe('merge', () => {
       const result = merge({}, obj);
 
       expect(result).toEqual({ visible: 'prop' });
-      expect(result[sym]).toBeUndefined();
+      expect((result as any)[sym]).toBeUndefined();
     });
 
     it('should handle getters and setters', () => {
@@ -247,18 +248,18 @@ describe('merge', () => {
     });
 
     it('should handle objects with prototype properties', () => {
-      function Parent() {
+      function Parent(this: any) {
         this.parentProp = 'parent';
       }
       Parent.prototype.prototypeProp = 'prototype';
 
-      function Child() {
+      function Child(this: any) {
         Parent.call(this);
         this.childProp = 'child';
       }
       Child.prototype = Object.create(Parent.prototype);
 
-      const child = new Child() as any;
+      const child = new (Child as any)();
       const other = { other: 'prop' };
 
       const result = merge(child, other);
@@ -464,6 +465,57 @@ describe('merge', () => {
       expect(result.debug).toBe(false);
       expect(result.apiUrl).toBe('https://api.example.com');
     });
+
+    it('should type unannotated calls with later objects winning', () => {
+      const result = merge(
+        { a: 1, b: 'two' },
+        { b: true, c: [3] },
+        { d: new Date(0) }
+      );
+
+      const typed: { a: number; b: boolean; c: number[]; d: Date } = result;
+      // @ts-expect-error b is a boolean after the second object
+      const wrong: string = result.b;
+      expect(typed.b).toBe(true);
+      expect(wrong).toBe(true);
+    });
+
+    it('should widen keys that a later object only may set', () => {
+      const overrides: { port?: string; debug?: boolean } = {};
+      const result = merge({ port: 80 }, overrides);
+
+      const port: number | string = result.port;
+      const debug: boolean | undefined = result.debug;
+      expect(port).toBe(80);
+      expect(debug).toBeUndefined();
+      // @ts-expect-error debug may be missing
+      const required: { debug: boolean } = result;
+      expect(required).toBe(result);
+    });
+
+    it('should type symbol keys and ignore null and undefined arguments', () => {
+      const id = Symbol('id');
+      const result = merge({ [id]: 1 }, null, undefined, { name: 'a' });
+
+      const typed: { [id]: number; name: string } = result;
+      expect(typed[id]).toBe(1);
+      expect(typed.name).toBe('a');
+    });
+
+    it('should type spread arrays as possibly overriding', () => {
+      const patches: Array<{ retries: number }> = [{ retries: 2 }];
+      const result = merge({ retries: 'none' as const }, ...patches);
+
+      const retries: 'none' | number = result.retries;
+      expect(retries).toBe(2);
+    });
+
+    it('should type mergeWith results the same way', () => {
+      const result = mergeWith({ unsafeKeys: 'throw' })({ a: 1 }, { b: 'x' });
+
+      const typed: { a: number; b: string } = result;
+      expect(typed).toEqual({ a: 1, b: 'x' });
+    });
   });
 
   describe('performance considerations', () => {
@@ -485,4 +537,176 @@ describe('merge', () => {
       expect(duration).toBeLessThan(100); // Should be reasonably fast
     });
   });
+
+  describe('prototype pollution', () => {
+    it('should skip unsafe keys', () => {
+      const payload = JSON.parse(
+        '{"__proto__": {"admin": true}, "constructor": "x", "name": "John"}'
+      );
+
+      const result = merge({ role: 'user' }, payload);
+
+      expect(result).toEqual({ role: 'user', name: 'John' });
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect((result as any).admin).toBeUndefined();
+    });
+  });
+
+  describe('mergeWith', () => {
+    it('should merge like merge with default options', () => {
+      expect(mergeWith({})({ a: 1 }, { b: 2 }, null)).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should throw on unsafe keys with the "throw" policy', () => {
+      const strictMerge = mergeWith({ unsafeKeys: 'throw' });
+
+      expect(() =>
+        strictMerge({}, JSON.parse('{"__proto__": {"admin": true}}'))
+      ).toThrow(UnsafeKeyError);
+    });
+
+    it('should copy unsafe keys with the "allow" policy', () => {
+      const result = mergeWith({ unsafeKeys: 'allow' })({ prototype: 1 });
+
+      expect(result.prototype).toBe(1);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => mergeWith(null as any)).toThrow(
+        'Expected options to be an object'
+      );
+    });
+  });
+
+  describe('mergeDescriptors', () => {
+    const descriptorMerge = mergeWith({ mergeDescriptors: true });
+
+    it('should keep getters live instead of snapshotting them', () => {
+      let reads = 0;
+      const lazy = {
+        get value() {
+          reads++;
+          return reads;
+        },
+      };
+
+      const result = descriptorMerge({ base: 1 }, lazy);
+
+      expect(reads).toBe(0);
+      expect(result.value).toBe(1);
+      expect(result.value).toBe(2);
+      expect(typeof Object.getOwnPropertyDescriptor(result, 'value')!.get).toBe(
+        'function'
+      );
+    });
+
+    it('should keep setters working', () => {
+      const store = { raw: 0 };
+      const result = descriptorMerge(
+        {},
+        {
+          set doubled(value: number) {
+            store.raw = value * 2;
+          },
+        }
+      );
+
+      result.doubled = 21;
+
+      expect(store.raw).toBe(42);
+    });
+
+    it('should preserve writability and let later objects override it', () => {
+      const readonly = Object.defineProperty({}, 'id', {
+        value: 1,
+        enumerable: true,
+        writable: false,
+        configurable: false,
+      });
+
+      const locked = descriptorMerge({ name: 'a' }, readonly);
+      expect(Object.getOwnPropertyDescriptor(locked, 'id')).toEqual({
+        value: 1,
+        enumerable: true,
+        writable: false,
+        configurable: false,
+      });
+
+      const overridden = descriptorMerge(readonly, { id: 2 });
+      expect(overridden.id).toBe(2);
+      expect(Object.getOwnPropertyDescriptor(overridden, 'id')!.writable).toBe(
+        true
+      );
+    });
+
+    it('should include non-enumerable properties only when asked', () => {
+      const hidden = Object.defineProperty({ visible: 1 }, 'hidden', {
+        value: 2,
+        enumerable: false,
+      });
+
+      expect(Object.getOwnPropertyNames(descriptorMerge({}, hidden))).toEqual([
+        'visible',
+      ]);
+
+      const result = mergeWith({
+        mergeDescriptors: true,
+        includeNonEnumerable: true,
+      })({}, hidden);
+      expect(Object.getOwnPropertyNames(result)).toEqual(['visible', 'hidden']);
+      expect(
+        Object.getOwnPropertyDescriptor(result, 'hidden')!.enumerable
+      ).toBe(false);
+    });
+
+    it('should preserve the prototype of the first object', () => {
+      class Point {
+        x = 0;
+        y = 0;
+        length() {
+          return Math.hypot(this.x, this.y);
+        }
+      }
+
+      const result = descriptorMerge(new Point(), { x: 3, y: 4 });
+
+      expect(result).toBeInstanceOf(Point);
+      expect(result.length()).toBe(5);
+      expect(
+        Object.getPrototypeOf(descriptorMerge(Object.create(null), { a: 1 }))
+      ).toBeNull();
+    });
+
+    it('should apply the unsafeKeys policy to copied descriptors', () => {
+      const payload = JSON.parse('{"__proto__": {"admin": true}, "a": 1}');
+      const settings = JSON.parse('{"__proto__": {"admin": true}}');
+
+      expect(() =>
+        mergeWith({ mergeDescriptors: true, unsafeKeys: 'throw' })({}, payload)
+      ).toThrow(UnsafeKeyError);
+      expect(
+        Object.getOwnPropertyDescriptor(
+          mergeWith({ mergeDescriptors: true, unsafeKeys: 'allow' })(
+            {},
+            payload
+          ),
+          '__proto__'
+        )?.value
+      ).toEqual({ admin: true });
+      // A shallow merge shares nested objects as they are
+      expect(descriptorMerge({}, { settings }).settings).toBe(settings);
+    });
+
+    it('should copy symbol keys and still skip unsafe keys', () => {
+      const sym = Symbol('key');
+      const payload = JSON.parse('{"__proto__": {"admin": true}, "a": 1}');
+
+      const result = descriptorMerge({ [sym]: 'value' }, payload);
+
+      expect(result[sym]).toBe('value');
+      expect(result.a).toBe(1);
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(result.admin).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,353 @@
+import { copyPath } from '../set/index';
+import { isIndexKey, toPathWithLiterals } from '../toPath/index';
+import type { ParsePath, PropertyPath } from '../toPath/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
+/**
+ * A value found by a path pattern, with the concrete path leading to it.
+ */
+export interface PathMatch<V = unknown> {
+  path: PropertyKey[];
+  value: V;
+}
+
+// The value at key `K` of `T`. Only existing keys match, so union members without
+// the key, and primitives, add nothing
+type ValueAtKey<T, K> = T extends readonly (infer E)[]
+  ? K extends number | `${number}`
+    ? E
+    : never
+  : T extends object
+    ? K extends keyof T
+      ? T[K]
+      : K extends `${infer N extends number}`
+        ? T[N & keyof T]
+        : never
+    : never;
+
+// The values a `*` segment steps into: array elements and property values
+type ChildValue<T> = T extends readonly (infer E)[]
+  ? E
+  : T extends object
+    ? T[keyof T]
+    : never;
+
+type MatchValueAtKeys<
+  T,
+  Keys extends readonly unknown[],
+> = Keys extends readonly [infer Key, ...infer Rest]
+  ? Key extends '**'
+    ? unknown
+    : MatchValueAtKeys<
+        Key extends '*' ? ChildValue<T> : ValueAtKey<T, Key>,
+        Rest
+      >
+  : T;
+
+/**
+ * The type of the values that path pattern `P` matches inside `T`, where `P` is a
+ * string pattern or a tuple of keys. A `*` segment steps into every element or
+ * property value. Patterns with a `**` segment, and patterns that are not literals,
+ * match `unknown` values.
+ *
+ * @example
+ * ```typescript
+ * type Order = { items: Array<{ price: number }>; customer: { id: string } };
+ *
+ * type Price = PatternValue<Order, 'items.*.price'>; // number
+ * type Field = PatternValue<Order, 'customer.*'>; // string
+ * type Any = PatternValue<Order, '**.price'>; // unknown
+ * ```
+ */
+export type PatternValue<T, P> = P extends string
+  ? string extends P
+    ? unknown
+    : [ParsePath<P>] extends [never]
+      ? unknown
+      : MatchValueAtKeys<T, ParsePath<P>>
+  : P extends readonly PropertyKey[]
+    ? number extends P['length']
+      ? unknown
+      : MatchValueAtKeys<T, P>
+    : unknown;
+
+export interface UpdateAllOptions {
+  /**
+   * How to treat matched paths that go through `__proto__`, `constructor` or `prototype`.
+   * Defaults to `'throw'`; `'skip'` leaves those matches unchanged.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+}
+
+// Pattern segments that match any single key, and zero or more levels
+const ANY_KEY = Symbol('*');
+const GLOB = Symbol('**');
+
+// Patterns use the toPath grammar; `*` and `**` segments are wildcards unless
+// written literally (`["*"]`)
+function toPattern(pattern: PropertyPath): PropertyKey[] {
+  const { keys, literals } = toPathWithLiterals(pattern);
+  const segments = keys.map((key, i) =>
+    literals.has(i) ? key : key === '*' ? ANY_KEY : key === '**' ? GLOB : key
+  );
+
+  // Consecutive globs match the same paths as a single one
+  return segments.filter(
+    (segment, i) => !(segment === GLOB && segments[i - 1] === GLOB)
+  );
+}
+
+function isEmptyPattern(pattern: PropertyPath): boolean {
+  return typeof pattern === 'string'
+    ? pattern === ''
+    : !Array.isArray(pattern) || !pattern.length;
+}
+
+// Wildcards step into arrays (by index) and objects (by own enumerable string key)
+function childEntries(node: unknown): Array<[PropertyKey, unknown]> {
+  if (Array.isArray(node)) {
+    return node.map((value, index) => [index, value]);
+  }
+
+  if (typeof node === 'object' && node !== null) {
+    return Object.entries(node);
+  }
+
+  return [];
+}
+
+function collectMatches(
+  node: unknown,
+  pattern: readonly PropertyKey[],
+  index: number,
+  path: PropertyKey[],
+  ancestors: Set<unknown>,
+  matches: PathMatch[]
+): void {
+  if (index === pattern.length) {
+    matches.push({ path: [...path], value: node });
+    return;
+  }
+
+  const segment = pattern[index]!;
+
+  if (segment === GLOB) {
+    // Zero levels, then one more level while staying on the glob
+    collectMatches(node, pattern, index + 1, path, ancestors, matches);
+
+    ancestors.add(node);
+    for (const [key, child] of childEntries(node)) {
+      if (ancestors.has(child)) {
+        continue;
+      }
+      path.push(key);
+      collectMatches(child, pattern, index, path, ancestors, matches);
+      path.pop();
+    }
+    ancestors.delete(node);
+    return;
+  }
+
+  if (segment === ANY_KEY) {
+    for (const [key, child] of childEntries(node)) {
+      path.push(key);
+      collectMatches(child, pattern, index + 1, path, ancestors, matches);
+      path.pop();
+    }
+    return;
+  }
+
+  if (
+    node !== null &&
+    node !== undefined &&
+    Object.prototype.hasOwnProperty.call(node, segment)
+  ) {
+    // Report array indices as numbers, like the wildcards do
+    path.push(
+      Array.isArray(node) && isIndexKey(segment) ? Number(segment) : segment
+    );
+    collectMatches(
+      (node as Record<PropertyKey, unknown>)[segment],
+      pattern,
+      index + 1,
+      path,
+      ancestors,
+      matches
+    );
+    path.pop();
+  }
+}
+
+/**
+ * Finds every value matching a wildcard path pattern.
+ * Patterns use the same syntax as `get`, plus two wildcard segments:
+ * - `*` matches any single key (every array index or own enumerable object key)
+ * - `**` matches zero or more levels of nesting
+ *
+ * The same `'*'` and `'**'` keys act as wildcards in arrays of keys. In a string
+ * pattern, a quoted or escaped segment (`["*"]`, `\*`) matches a key named `*`.
+ * Only existing properties match, so missing keys never produce `undefined` entries.
+ * Globs do not follow circular references back into an object being visited.
+ *
+ * @template T - The type of the object
+ * @template P - The pattern, which types the matched values (see `PatternValue`)
+ * @param obj - The object to search
+ * @param pattern - The path pattern, as a string or an array of keys
+ * @returns The matched values with their concrete paths, in depth-first order
+ * @throws {SyntaxError} If the pattern is malformed (see `toPath`)
+ *
+ * @example
+ * ```typescript
+ * import { getAll } from 'datype';
+ *
+ * const order = {
+ *   id: 'o1',
+ *   items: [
+ *     { id: 'i1', price: 10 },
+ *     { id: 'i2', price: 25 }
+ *   ]
+ * };
+ *
+ * getAll(order, 'items.*.price');
+ * // [
+ * //   { path: ['items', 0, 'price'], value: 10 },
+ * //   { path: ['items', 1, 'price'], value: 25 }
+ * // ]
+ *
+ * getAll(order, '**.id').map(match => match.value); // ['o1', 'i1', 'i2']
+ * ```
+ */
+export function getAll<T, const P extends PropertyPath>(
+  obj: T,
+  pattern: P
+): PathMatch<PatternValue<T, P>>[];
+export function getAll(obj: unknown, pattern: PropertyPath): PathMatch[] {
+  if (isEmptyPattern(pattern)) {
+    return [];
+  }
+
+  const matches: PathMatch[] = [];
+  collectMatches(obj, toPattern(pattern), 0, [], new Set(), matches);
+  return matches;
+}
+
+/**
+ * Immutably updates every value matching a wildcard path pattern.
+ * Uses the same patterns as `getAll`. All matches are written in a single
+ * copy-on-write pass: only objects along matched paths are copied.
+ * When matches are nested inside each other, the innermost values are updated first.
+ *
+ * @template T - The type of the object
+ * @template P - The pattern, which types the matched values (see `PatternValue`)
+ * @param obj - The object to update
+ * @param pattern - The path pattern, as a string or an array of keys
+ * @param updater - Receives each matched value and its concrete path, returns the new value
+ * @param options - Update options (`unsafeKeys` policy for prototype-polluting matched paths)
+ * @returns A new object with every match updated, or `obj` itself if nothing matched
+ * @throws {SyntaxError} If the pattern is malformed (see `toPath`)
+ * @throws {UnsafeKeyError} If a matched path contains `__proto__`, `constructor` or `prototype`
+ *
+ * @example
+ * ```typescript
+ * import { updateAll } from 'datype';
+ *
+ * const cart = { items: [{ price: 10 }, { price: 25 }] };
+ *
+ * updateAll(cart, 'items.*.price', price => price * 2); // price: number
+ * // { items: [{ price: 20 }, { price: 50 }] }
+ * ```
+ */
+export function updateAll<T, const P extends PropertyPath>(
+  obj: T,
+  pattern: P,
+  updater: (value: PatternValue<T, P>, path: PropertyKey[]) => unknown,
+  options?: UpdateAllOptions
+): T;
+export function updateAll<T>(
+  obj: T,
+  pattern: PropertyPath,
+  updater: (value: unknown, path: PropertyKey[]) => unknown,
+  options: UpdateAllOptions = {}
+): T {
+  if (obj === null || obj === undefined) {
+    throw new TypeError('Cannot update properties on null or undefined');
+  }
+
+  if (isEmptyPattern(pattern)) {
+    throw new TypeError('Pattern must be a non-empty string or array of keys');
+  }
+
+  if (typeof updater !== 'function') {
+    throw new TypeError('Expected updater to be a function');
+  }
+
+  const matches = getAll(obj, pattern);
+  const copies = new WeakSet<object>();
+  let result: unknown = obj;
+
+  // Depth-first order lists parents before their children, so walk it backwards
+  for (let i = matches.length - 1; i >= 0; i--) {
+    const { path } = matches[i]!;
+
+    if (path.length === 0) {
+      result = updater(result, path);
+      continue;
+    }
+
+    const copied = copyPath(
+      result,
+      path,
+      copies,
+      options.unsafeKeys ?? 'throw'
+    );
+    if (!copied) {
+      continue;
+    }
+
+    const lastKey = path[path.length - 1]!;
+    copied.parent[lastKey] = updater(copied.parent[lastKey], path);
+    result = copied.result;
+  }
+
+  return result as T;
+}
+
+/**
+ * Immutably sets every value matching a wildcard path pattern.
+ * Uses the same patterns as `getAll`; only existing properties are replaced.
+ *
+ * @template T - The type of the object
+ * @param obj - The object to update
+ * @param pattern - The path pattern, as a string or an array of keys
+ * @param value - The value to set at every match
+ * @param options - Set options (`unsafeKeys` policy for prototype-polluting matched paths)
+ * @returns A new object with every match replaced, or `obj` itself if nothing matched
+ * @throws {SyntaxError} If the pattern is malformed (see `toPath`)
+ * @throws {UnsafeKeyError} If a matched path contains `__proto__`, `constructor` or `prototype`
+ *
+ * @example
+ * ```typescript
+ * import { setAll } from 'datype';
+ *
+ * const users = {
+ *   list: [
+ *     { name: 'Ann', password: 'a1' },
+ *     { name: 'Bob', password: 'b2' }
+ *   ]
+ * };
+ *
+ * setAll(users, 'list.*.password', '***');
+ * // { list: [{ name: 'Ann', password: '***' }, { name: 'Bob', password: '***' }] }
+ *
+ * // Redact a key at any depth
+ * setAll(payload, '**.token', undefined);
+ * ```
+ */
+export function setAll<T>(
+  obj: T,
+  pattern: PropertyPath,
+  value: unknown,
+  options: UpdateAllOptions = {}
+): T {
+  return updateAll(obj, pattern, () => value, options);
+}
@@ -0,0 +1,314 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getAll, setAll, updateAll } from './index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
+
+describe('pathQuery', () => {
+  const order = {
+    id: 'o1',
+    customer: { id: 'c1', name: 'Ann' },
+    items: [
+      { id: 'i1', price: 10, tags: ['new'] },
+      { id: 'i2', price: 25, tags: [] },
+      { id: 'i3', discount: true },
+    ],
+  };
+
+  describe('getAll', () => {
+    it('should match a single wildcard over array elements', () => {
+      expect(getAll(order, 'items.*.price')).toEqual([
+        { path: ['items', 0, 'price'], value: 10 },
+        { path: ['items', 1, 'price'], value: 25 },
+      ]);
+    });
+
+    it('should match a single wildcard over object keys', () => {
+      expect(getAll(order, 'customer.*')).toEqual([
+        { path: ['customer', 'id'], value: 'c1' },
+        { path: ['customer', 'name'], value: 'Ann' },
+      ]);
+    });
+
+    it('should match globs at any depth, including the root level', () => {
+      expect(getAll(order, '**.id').map(match => match.value)).toEqual([
+        'o1',
+        'c1',
+        'i1',
+        'i2',
+        'i3',
+      ]);
+    });
+
+    it('should match globs in the middle of a pattern', () => {
+      expect(getAll(order, 'items.**.tags[0]')).toEqual([
+        { path: ['items', 0, 'tags', 0], value: 'new' },
+      ]);
+    });
+
+    it('should match every node for a lone glob', () => {
+      const matches = getAll({ a: { b: 1 } }, '**');
+
+      expect(matches.map(match => match.path)).toEqual([[], ['a'], ['a', 'b']]);
+    });
+
+    it('should treat repeated globs like a single glob', () => {
+      expect(getAll(order, '**.**.name')).toEqual(getAll(order, '**.name'));
+    });
+
+    it('should match literal paths without wildcards', () => {
+      expect(getAll(order, 'customer.name')).toEqual([
+        { path: ['customer', 'name'], value: 'Ann' },
+      ]);
+    });
+
+    it('should only report existing properties', () => {
+      expect(getAll(order, 'items.*.missing')).toEqual([]);
+      expect(getAll(order, 'missing.*')).toEqual([]);
+    });
+
+    it('should include properties whose value is undefined', () => {
+      expect(getAll({ list: [{ v: undefined }] }, 'list.*.v')).toEqual([
+        { path: ['list', 0, 'v'], value: undefined },
+      ]);
+    });
+
+    it('should accept arrays of keys', () => {
+      const meta = Symbol('meta');
+      const data = { [meta]: { rows: [{ v: 1 }, { v: 2 }] } };
+
+      expect(getAll(data, [meta, 'rows', '*', 'v'])).toEqual([
+        { path: [meta, 'rows', 0, 'v'], value: 1 },
+        { path: [meta, 'rows', 1, 'v'], value: 2 },
+      ]);
+    });
+
+    it('should match keys named like wildcards when quoted or escaped', () => {
+      const rules = {
+        '*': { allow: true },
+        '**': { allow: false },
+        admin: { allow: true },
+      };
+
+      expect(getAll(rules, '["*"].allow')).toEqual([
+        { path: ['*', 'allow'], value: true },
+      ]);
+      expect(getAll(rules, "['**'].allow")).toEqual([
+        { path: ['**', 'allow'], value: false },
+      ]);
+      expect(getAll(rules, '\\*.allow')).toEqual([
+        { path: ['*', 'allow'], value: true },
+      ]);
+      expect(getAll(rules, '*.allow')).toHaveLength(3);
+      expect(getAll(rules, ['*', 'allow'])).toHaveLength(3);
+    });
+
+    it('should not step into primitives', () => {
+      expect(getAll({ name: 'Ann' }, 'name.*')).toEqual([]);
+      expect(getAll('text', '*')).toEqual([]);
+    });
+
+    it('should handle circular references', () => {
+      const node: any = { id: 1, child: { id: 2 } };
+      node.child.parent = node;
+
+      expect(getAll(node, '**.id').map(match => match.value)).toEqual([1, 2]);
+    });
+
+    it('should return an empty array for null objects or empty patterns', () => {
+      expect(getAll(null, '*')).toEqual([]);
+      expect(getAll(order, '')).toEqual([]);
+      expect(getAll(order, [])).toEqual([]);
+    });
+
+    it('should throw for malformed patterns', () => {
+      expect(() => getAll(order, 'items..*')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('setAll', () => {
+    it('should set every match immutably', () => {
+      const result = setAll(order, 'items.*.price', 0);
+
+      expect(result.items.map(item => (item as any).price)).toEqual([
+        0,
+        0,
+        undefined,
+      ]);
+      expect(order.items[0]!.price).toBe(10); // Original unchanged
+      expect('price' in result.items[2]!).toBe(false); // Missing keys are not created
+    });
+
+    it('should preserve references outside matched paths', () => {
+      const result = setAll(order, 'items.*.price', 0);
+
+      expect(result.customer).toBe(order.customer);
+      expect(result.items[2]).toBe(order.items[2]);
+      expect(result.items[0]!.tags).toBe(order.items[0]!.tags);
+    });
+
+    it('should set globbed matches', () => {
+      const payload = {
+        token: 't0',
+        session: { token: 't1', user: { token: 't2', name: 'Ann' } },
+      };
+
+      expect(setAll(payload, '**.token', '[redacted]')).toEqual({
+        token: '[redacted]',
+        session: {
+          token: '[redacted]',
+          user: { token: '[redacted]', name: 'Ann' },
+        },
+      });
+    });
+
+    it('should set only the literal key for quoted wildcards', () => {
+      const headers = { '*': 'a', accept: 'b' };
+
+      expect(setAll(headers, '["*"]', 'x')).toEqual({ '*': 'x', accept: 'b' });
+    });
+
+    it('should return the original object when nothing matches', () => {
+      expect(setAll(order, 'items.*.missing', 1)).toBe(order);
+    });
+
+    it('should throw for null objects and empty patterns', () => {
+      expect(() => setAll(null, '*', 1)).toThrow(
+        'Cannot update properties on null or undefined'
+      );
+      expect(() => setAll(order, '', 1)).toThrow(
+        'Pattern must be a non-empty string or array of keys'
+      );
+    });
+  });
+
+  describe('updateAll', () => {
+    it('should update every match with its value and path', () => {
+      const updater = vi.fn((price?: number) => Number(price) * 2);
+      const result = updateAll(order, 'items.*.price', updater);
+
+      expect(result.items[0]!.price).toBe(20);
+      expect(result.items[1]!.price).toBe(50);
+      expect(updater).toHaveBeenCalledWith(10, ['items', 0, 'price']);
+      expect(updater).toHaveBeenCalledWith(25, ['items', 1, 'price']);
+    });
+
+    it('should copy each container only once', () => {
+      const result = updateAll(order, 'customer.*', (value: string) =>
+        value.toUpperCase()
+      );
+
+      expect(result.customer).toEqual({ id: 'C1', name: 'ANN' });
+      expect(order.customer).toEqual({ id: 'c1', name: 'Ann' });
+    });
+
+    it('should update nested matches innermost first', () => {
+      const tree = { value: 1, child: { value: 2, child: { value: 3 } } };
+      const seen: unknown[] = [];
+
+      const result = updateAll(tree, '**.child', (child: any) => {
+        seen.push(child.value);
+        return { ...child, visited: true };
+      });
+
+      expect(seen).toEqual([3, 2]);
+      expect(result.child).toEqual({
+        value: 2,
+        visited: true,
+        child: { value: 3, visited: true },
+      });
+    });
+
+    it('should replace the root for a lone glob', () => {
+      const result = updateAll({ a: 1 }, '**', (value: any) =>
+        typeof value === 'number' ? value + 1 : { ...value, root: true }
+      );
+
+      expect(result).toEqual({ a: 2, root: true });
+    });
+
+    it('should throw when the updater is not a function', () => {
+      expect(() => updateAll(order, '*', null as any)).toThrow(
+        'Expected updater to be a function'
+      );
+    });
+
+    it('should reject matches under an own __proto__ key', () => {
+      const payload = JSON.parse('{"__proto__": {"polluted": false}}');
+
+      expect(() => updateAll(payload, '*.polluted', () => true)).toThrow(
+        UnsafeKeyError
+      );
+      expect(() => setAll(payload, '**.polluted', true)).toThrow(
+        UnsafeKeyError
+      );
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should apply the unsafeKeys option to matched paths', () => {
+      const payload = JSON.parse(
+        '{"__proto__": {"polluted": false}, "user": {"polluted": false}}'
+      );
+
+      const skipped = setAll(payload, '**.polluted', true, {
+        unsafeKeys: 'skip',
+      });
+
+      expect(skipped.user.polluted).toBe(true);
+      expect(skipped['__proto__']).toBe(payload['__proto__']);
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+
+  describe('typing', () => {
+    it('should type matched values from the pattern', () => {
+      const prices: Array<number | undefined> = getAll(
+        order,
+        'items.*.price'
+      ).map(match => match.value);
+      const fields: string[] = getAll(order, ['customer', '*']).map(
+        match => match.value
+      );
+      const globbed = getAll(order, '**.id').map(match => match.value);
+
+      // @ts-expect-error customer fields are strings
+      const wrong: number[] = getAll(order, 'customer.*').map(m => m.value);
+      // @ts-expect-error a glob can match values of any type
+      const names: string[] = globbed;
+      expect(prices).toEqual([10, 25]);
+      expect(fields).toEqual(['c1', 'Ann']);
+      expect(wrong).toEqual(fields);
+      expect(names).toEqual(['o1', 'c1', 'i1', 'i2', 'i3']);
+    });
+
+    it('should check updaters against the matched values', () => {
+      // @ts-expect-error customer fields are strings, not numbers
+      updateAll(order, 'customer.*', (value: number) => value + 1);
+
+      const pattern: string = 'items.*.id';
+      const result = updateAll(order, pattern, value => String(value));
+      expect(result.items[0]!.id).toBe('i1');
+    });
+  });
+
+  describe('real-world use cases', () => {
+    it('should normalize prices in an API payload', () => {
+      const response = {
+        data: {
+          products: [
+            { sku: 'a', price: '10.50' },
+            { sku: 'b', price: '3' },
+          ],
+        },
+      };
+
+      const normalized = updateAll(
+        response,
+        'data.products.*.price',
+        (price: string) => Number(price)
+      );
+
+      expect(
+        getAll(normalized, 'data.products.*.price').map(m => m.value)
+      ).toEqual([10.5, 3]);
+    });
+  });
+});
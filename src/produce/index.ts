@@ -0,0 +1,640 @@
+import { isPlainObject } from '../typeGuards/index';
+
+// Type definitions
+
+/**
+ * The mutable view of `T` that a `produce` recipe receives.
+ * Removes `readonly` from objects, arrays, Maps and Sets, recursively.
+ */
+export type Draft<T> = T extends
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | ((...args: never[]) => unknown)
+  ? T
+  : T extends ReadonlyMap<infer K, infer V>
+    ? Map<K, Draft<V>>
+    : T extends ReadonlySet<infer V>
+      ? Set<Draft<V>>
+      : { -readonly [K in keyof T]: Draft<T[K]> };
+
+export interface ProduceOptions {
+  /**
+   * Freeze the objects, arrays, Maps and Sets of the result that `produce` copied or
+   * the recipe added. Subtrees shared with `base` are left as they are, so the
+   * caller's objects are never frozen. Useful in development to catch accidental
+   * mutations. Defaults to false.
+   */
+  freeze?: boolean;
+}
+
+// Plain objects and arrays, indexed by the proxy traps
+type DraftRecord = Record<PropertyKey, unknown>;
+
+interface DraftState {
+  // A plain object, array, Map or Set
+  base: object;
+  copy: object | null;
+  parent: DraftState | null;
+  draft: object;
+  modified: boolean;
+  revoked: boolean;
+  finalized: boolean;
+  // Set drafts: the draft created for each original member
+  members: Map<unknown, unknown>;
+}
+
+interface ProduceScope {
+  states: WeakMap<object, DraftState>;
+  drafted: DraftState[];
+  revokes: Array<() => void>;
+  // Containers of the result that are not shared with `base`
+  created: object[];
+}
+
+function isDraftable(value: unknown): value is object {
+  return (
+    Array.isArray(value) ||
+    value instanceof Map ||
+    value instanceof Set ||
+    isPlainObject(value)
+  );
+}
+
+// The copy once the container has one, else its base; `T` names the container kind
+function latest<T extends object = DraftRecord>(state: DraftState): T {
+  return (state.copy ?? state.base) as T;
+}
+
+// The copy made by prepareCopy or markChanged
+function copyOf<T extends object = DraftRecord>(state: DraftState): T {
+  return state.copy as T;
+}
+
+function shallowCopy(base: object): object {
+  if (Array.isArray(base)) {
+    return base.slice();
+  }
+
+  const copy = Object.create(Object.getPrototypeOf(base));
+  for (const key of Reflect.ownKeys(base)) {
+    const descriptor = Object.getOwnPropertyDescriptor(base, key)!;
+    if (descriptor.enumerable) {
+      // Defined rather than assigned, so frozen bases and `__proto__` keys copy as plain data
+      Object.defineProperty(copy, key, {
+        value: (base as DraftRecord)[key],
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+  }
+  return copy;
+}
+
+function createDraft(
+  scope: ProduceScope,
+  base: object,
+  parent: DraftState | null
+): object {
+  const state: DraftState = {
+    base,
+    copy: null,
+    parent,
+    // Replaced below, once the draft can refer to its state
+    draft: base,
+    modified: false,
+    revoked: false,
+    finalized: false,
+    members: new Map(),
+  };
+
+  if (base instanceof Map) {
+    state.draft = new DraftMap(scope, state);
+  } else if (base instanceof Set) {
+    state.draft = new DraftSet(scope, state);
+  } else {
+    const { proxy, revoke } = Proxy.revocable(
+      Array.isArray(base) ? [] : Object.create(Object.getPrototypeOf(base)),
+      objectTraps(scope, state)
+    );
+    state.draft = proxy;
+    scope.revokes.push(revoke);
+  }
+
+  scope.states.set(state.draft, state);
+  scope.drafted.push(state);
+  return state.draft;
+}
+
+function prepareCopy(scope: ProduceScope, state: DraftState): void {
+  if (state.copy) {
+    return;
+  }
+
+  if (state.base instanceof Map) {
+    state.copy = new Map(state.base);
+  } else if (state.base instanceof Set) {
+    // Members are drafted up front so iteration hands out drafts
+    const copy = new Set<unknown>();
+    for (const member of state.base) {
+      if (isDraftable(member)) {
+        const draft = createDraft(scope, member, state);
+        state.members.set(member, draft);
+        copy.add(draft);
+      } else {
+        copy.add(member);
+      }
+    }
+    state.copy = copy;
+  } else {
+    state.copy = shallowCopy(state.base);
+  }
+}
+
+function markChanged(scope: ProduceScope, state: DraftState | null): void {
+  while (state && !state.modified) {
+    prepareCopy(scope, state);
+    state.modified = true;
+    state = state.parent;
+  }
+}
+
+function assertLive(state: DraftState): void {
+  if (state.revoked) {
+    throw new TypeError('Cannot use a draft after produce has finished');
+  }
+}
+
+// Returns the draft for a child value, creating it the first time the child is read
+function childDraft(
+  scope: ProduceScope,
+  state: DraftState,
+  value: unknown,
+  original: unknown,
+  store: (draft: unknown) => void
+): unknown {
+  if (!isDraftable(value) || value !== original || scope.states.has(value)) {
+    return value;
+  }
+
+  prepareCopy(scope, state);
+  const draft = createDraft(scope, value, state);
+  store(draft);
+  return draft;
+}
+
+function objectTraps(
+  scope: ProduceScope,
+  state: DraftState
+): ProxyHandler<object> {
+  return {
+    get(_, key) {
+      const source = latest(state);
+      if (!Object.prototype.hasOwnProperty.call(source, key)) {
+        return Reflect.get(source, key, state.draft);
+      }
+
+      return childDraft(
+        scope,
+        state,
+        source[key],
+        (state.base as DraftRecord)[key],
+        draft => {
+          copyOf(state)[key] = draft;
+        }
+      );
+    },
+
+    set(_, key, value) {
+      const source = latest(state);
+      if (
+        Object.is(source[key], value) &&
+        (value !== undefined || key in source)
+      ) {
+        return true;
+      }
+
+      markChanged(scope, state);
+      copyOf(state)[key] = value;
+      return true;
+    },
+
+    deleteProperty(_, key) {
+      if (key in latest(state)) {
+        markChanged(scope, state);
+        delete copyOf(state)[key];
+      }
+      return true;
+    },
+
+    has(_, key) {
+      return key in latest(state);
+    },
+
+    ownKeys() {
+      return Reflect.ownKeys(latest(state));
+    },
+
+    getOwnPropertyDescriptor(_, key) {
+      const source = latest(state);
+      const descriptor = Reflect.getOwnPropertyDescriptor(source, key);
+      if (!descriptor) {
+        return undefined;
+      }
+
+      return {
+        value: source[key],
+        writable: true,
+        enumerable: descriptor.enumerable ?? false,
+        // Array drafts wrap an array target, whose length is not configurable
+        configurable: !Array.isArray(source) || key !== 'length',
+      };
+    },
+
+    defineProperty() {
+      throw new TypeError('Cannot define properties on a draft');
+    },
+
+    getPrototypeOf() {
+      return Object.getPrototypeOf(state.base);
+    },
+
+    setPrototypeOf() {
+      throw new TypeError('Cannot change the prototype of a draft');
+    },
+  };
+}
+
+class DraftMap extends Map<unknown, unknown> {
+  constructor(
+    private readonly scope: ProduceScope,
+    private readonly state: DraftState
+  ) {
+    super();
+  }
+
+  private get source(): Map<unknown, unknown> {
+    assertLive(this.state);
+    return latest(this.state);
+  }
+
+  get size(): number {
+    return this.source.size;
+  }
+
+  has(key: unknown): boolean {
+    return this.source.has(key);
+  }
+
+  get(key: unknown): unknown {
+    return childDraft(
+      this.scope,
+      this.state,
+      this.source.get(key),
+      (this.state.base as Map<unknown, unknown>).get(key),
+      draft => copyOf<Map<unknown, unknown>>(this.state).set(key, draft)
+    );
+  }
+
+  set(key: unknown, value: unknown): this {
+    const source = this.source;
+    if (!source.has(key) || !Object.is(source.get(key), value)) {
+      markChanged(this.scope, this.state);
+      copyOf<Map<unknown, unknown>>(this.state).set(key, value);
+    }
+    return this;
+  }
+
+  delete(key: unknown): boolean {
+    if (!this.source.has(key)) {
+      return false;
+    }
+    markChanged(this.scope, this.state);
+    return copyOf<Map<unknown, unknown>>(this.state).delete(key);
+  }
+
+  clear(): void {
+    if (this.source.size) {
+      markChanged(this.scope, this.state);
+      copyOf<Map<unknown, unknown>>(this.state).clear();
+    }
+  }
+
+  forEach(
+    callback: (
+      value: unknown,
+      key: unknown,
+      map: Map<unknown, unknown>
+    ) => void,
+    thisArg?: unknown
+  ): void {
+    for (const [key, value] of this.entries()) {
+      callback.call(thisArg, value, key, this);
+    }
+  }
+
+  *keys(): MapIterator<unknown> {
+    yield* Array.from(this.source.keys());
+  }
+
+  *values(): MapIterator<unknown> {
+    for (const key of this.keys()) {
+      yield this.get(key);
+    }
+  }
+
+  *entries(): MapIterator<[unknown, unknown]> {
+    for (const key of this.keys()) {
+      yield [key, this.get(key)];
+    }
+  }
+
+  [Symbol.iterator](): MapIterator<[unknown, unknown]> {
+    return this.entries();
+  }
+}
+
+class DraftSet extends Set<unknown> {
+  constructor(
+    private readonly scope: ProduceScope,
+    private readonly state: DraftState
+  ) {
+    super();
+  }
+
+  private get source(): Set<unknown> {
+    assertLive(this.state);
+    return latest(this.state);
+  }
+
+  get size(): number {
+    return this.source.size;
+  }
+
+  has(value: unknown): boolean {
+    const source = this.source;
+    return (
+      source.has(value) ||
+      (this.state.members.has(value) &&
+        source.has(this.state.members.get(value)))
+    );
+  }
+
+  add(value: unknown): this {
+    if (!this.has(value)) {
+      markChanged(this.scope, this.state);
+      copyOf<Set<unknown>>(this.state).add(value);
+    }
+    return this;
+  }
+
+  delete(value: unknown): boolean {
+    if (!this.has(value)) {
+      return false;
+    }
+    markChanged(this.scope, this.state);
+    const copy = copyOf<Set<unknown>>(this.state);
+    return copy.delete(value) || copy.delete(this.state.members.get(value));
+  }
+
+  clear(): void {
+    if (this.source.size) {
+      markChanged(this.scope, this.state);
+      copyOf<Set<unknown>>(this.state).clear();
+    }
+  }
+
+  forEach(
+    callback: (value: unknown, key: unknown, set: Set<unknown>) => void,
+    thisArg?: unknown
+  ): void {
+    for (const value of this.values()) {
+      callback.call(thisArg, value, value, this);
+    }
+  }
+
+  *values(): SetIterator<unknown> {
+    assertLive(this.state);
+    prepareCopy(this.scope, this.state);
+    yield* Array.from(copyOf<Set<unknown>>(this.state).values());
+  }
+
+  keys(): SetIterator<unknown> {
+    return this.values();
+  }
+
+  *entries(): SetIterator<[unknown, unknown]> {
+    for (const value of this.values()) {
+      yield [value, value];
+    }
+  }
+
+  [Symbol.iterator](): SetIterator<unknown> {
+    return this.values();
+  }
+}
+
+/**
+ * Replaces drafts inside `value` with their final values. Values that are
+ * drafts resolve to their result; new objects are searched for nested drafts.
+ */
+function finalizeValue(
+  scope: ProduceScope,
+  value: unknown,
+  seen: WeakSet<object>
+): unknown {
+  const state = isDraftable(value) ? scope.states.get(value) : undefined;
+  if (state) {
+    return finalize(scope, state, seen);
+  }
+
+  if (!isDraftable(value) || Object.isFrozen(value) || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+  scope.created.push(value);
+
+  replaceDrafts(scope, value, undefined, seen);
+  return value;
+}
+
+// Writes finalized values into a container, skipping entries shared with `base`
+function replaceDrafts(
+  scope: ProduceScope,
+  container: object,
+  base: object | undefined,
+  seen: WeakSet<object>
+): void {
+  if (container instanceof Map) {
+    const baseMap = base as Map<unknown, unknown> | undefined;
+    for (const [key, value] of container) {
+      if (baseMap?.has(key) && baseMap.get(key) === value) {
+        continue;
+      }
+      const final = finalizeValue(scope, value, seen);
+      if (final !== value) {
+        container.set(key, final);
+      }
+    }
+  } else if (container instanceof Set) {
+    const baseSet = base as Set<unknown> | undefined;
+    const members = Array.from(container, member =>
+      baseSet?.has(member) ? member : finalizeValue(scope, member, seen)
+    );
+    container.clear();
+    members.forEach(member => container.add(member));
+  } else {
+    const record = container as DraftRecord;
+    const baseRecord = base as DraftRecord | undefined;
+    for (const key of Reflect.ownKeys(record)) {
+      const value = record[key];
+      if (baseRecord && baseRecord[key] === value) {
+        continue;
+      }
+      const final = finalizeValue(scope, value, seen);
+      if (final !== value) {
+        record[key] = final;
+      }
+    }
+  }
+}
+
+function finalize(
+  scope: ProduceScope,
+  state: DraftState,
+  seen: WeakSet<object>
+): unknown {
+  if (!state.modified) {
+    return state.base;
+  }
+
+  if (!state.finalized) {
+    state.finalized = true;
+    scope.created.push(copyOf(state));
+    replaceDrafts(scope, copyOf(state), state.base, seen);
+  }
+
+  return state.copy;
+}
+
+function throwFrozen(): never {
+  throw new TypeError('Cannot modify a frozen collection');
+}
+
+// Object.freeze does not stop Map and Set methods, so those are replaced too
+function freezeContainer(value: object): void {
+  if (value instanceof Map) {
+    for (const method of ['set', 'delete', 'clear']) {
+      Object.defineProperty(value, method, { value: throwFrozen });
+    }
+  } else if (value instanceof Set) {
+    for (const method of ['add', 'delete', 'clear']) {
+      Object.defineProperty(value, method, { value: throwFrozen });
+    }
+  }
+  Object.freeze(value);
+}
+
+/**
+ * Produces the next immutable state by applying mutations to a draft of `base`.
+ * The recipe can mutate the draft freely (assign, delete, `push`, `splice`, `Map#set`,
+ * `Set#add`, ...); the changes are recorded on a Proxy and `base` is never modified.
+ * Only objects along changed paths are copied, so untouched subtrees stay reference-equal,
+ * and `base` itself is returned when nothing changed.
+ *
+ * Plain objects, arrays, Maps and Sets are drafted; other values (Dates, class instances)
+ * are handed out as-is and must be replaced rather than mutated.
+ * Drafts cannot be used after `produce` returns.
+ *
+ * @template T - The type of the base state
+ * @param base - The current state (will not be mutated)
+ * @param recipe - Mutates the draft, or returns a replacement value
+ * @param options - Produce options (`freeze` the result)
+ * @returns The next state
+ * @throws {Error} If the recipe both modifies the draft and returns a different value
+ *
+ * @example
+ * ```typescript
+ * import { produce } from 'datype';
+ *
+ * const state = {
+ *   todos: [{ title: 'Write docs', done: false }],
+ *   user: { name: 'Ann' }
+ * };
+ *
+ * const next = produce(state, draft => {
+ *   draft.todos[0].done = true;
+ *   draft.todos.push({ title: 'Ship it', done: false });
+ * });
+ *
+ * next.todos[0].done; // true
+ * state.todos[0].done; // false (unchanged)
+ * next.user === state.user; // true (shared)
+ *
+ * // Freeze the copies to catch accidental mutations in development; `state` stays unfrozen
+ * const frozen = produce(state, draft => {
+ *   draft.user.name = 'Bob';
+ * }, { freeze: true });
+ * ```
+ */
+export function produce<T>(
+  base: T,
+  recipe: (draft: Draft<T>) => Draft<T> | T | void,
+  options: ProduceOptions = {}
+): T {
+  if (typeof recipe !== 'function') {
+    throw new TypeError('Expected recipe to be a function');
+  }
+
+  const scope: ProduceScope = {
+    states: new WeakMap(),
+    drafted: [],
+    revokes: [],
+    created: [],
+  };
+
+  let result: unknown;
+
+  try {
+    if (!isDraftable(base)) {
+      const returned = recipe(base as Draft<T>);
+      result =
+        returned === undefined
+          ? base
+          : finalizeValue(scope, returned, new WeakSet());
+    } else {
+      const root = createDraft(scope, base, null);
+      const returned = recipe(root as Draft<T>);
+      const rootState = scope.states.get(root)!;
+      const seen = new WeakSet<object>();
+
+      if (returned === undefined || returned === root) {
+        result = finalize(scope, rootState, seen);
+      } else if (rootState.modified) {
+        throw new Error(
+          'A produce recipe must either modify the draft or return a new value, not both'
+        );
+      } else {
+        result = finalizeValue(scope, returned, seen);
+      }
+    }
+  } finally {
+    scope.drafted.forEach(state => {
+      state.revoked = true;
+    });
+    scope.revokes.forEach(revoke => revoke());
+  }
+
+  if (options.freeze) {
+    scope.created.forEach(freezeContainer);
+  }
+
+  return result as T;
+}
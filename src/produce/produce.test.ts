@@ -0,0 +1,441 @@
+import { describe, it, expect } from 'vitest';
+import { produce } from './index';
+
+describe('produce', () => {
+  const createState = () => ({
+    user: { name: 'Ann', address: { city: 'Paris' } },
+    todos: [
+      { title: 'Write docs', done: false },
+      { title: 'Ship it', done: false },
+    ],
+    settings: { theme: 'dark' },
+  });
+
+  describe('basic updates', () => {
+    it('should apply mutations to a copy', () => {
+      const state = createState();
+      const next = produce(state, draft => {
+        draft.user.name = 'Bob';
+        draft.todos[0]!.done = true;
+      });
+
+      expect(next.user.name).toBe('Bob');
+      expect(next.todos[0]!.done).toBe(true);
+      expect(state.user.name).toBe('Ann');
+      expect(state.todos[0]!.done).toBe(false);
+    });
+
+    it('should keep untouched subtrees reference-equal', () => {
+      const state = createState();
+      const next = produce(state, draft => {
+        draft.todos[1]!.done = true;
+      });
+
+      expect(next).not.toBe(state);
+      expect(next.todos).not.toBe(state.todos);
+      expect(next.todos[0]).toBe(state.todos[0]);
+      expect(next.user).toBe(state.user);
+      expect(next.settings).toBe(state.settings);
+    });
+
+    it('should return the base when nothing changed', () => {
+      const state = createState();
+
+      expect(produce(state, () => {})).toBe(state);
+      expect(
+        produce(state, draft => {
+          draft.user.name = 'Ann';
+          void draft.todos[0]!.title;
+        })
+      ).toBe(state);
+    });
+
+    it('should add and delete properties', () => {
+      const state: Record<string, unknown> = { a: 1, b: 2 };
+      const next = produce(state, draft => {
+        delete draft.a;
+        draft.c = 3;
+      });
+
+      expect(next).toEqual({ b: 2, c: 3 });
+      expect(state).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should support reading through the draft', () => {
+      const state = createState();
+      const next = produce(state, draft => {
+        expect(Object.keys(draft)).toEqual(['user', 'todos', 'settings']);
+        expect('user' in draft).toBe(true);
+        expect(Array.isArray(draft.todos)).toBe(true);
+        expect(draft.todos.length).toBe(2);
+        draft.settings.theme = draft.user.address.city;
+      });
+
+      expect(next.settings.theme).toBe('Paris');
+    });
+  });
+
+  describe('arrays', () => {
+    it('should support mutating array methods', () => {
+      const state = { list: [3, 1, 2] };
+      const next = produce(state, draft => {
+        draft.list.push(4);
+        draft.list.sort();
+        draft.list.splice(0, 1);
+        draft.list.unshift(0);
+      });
+
+      expect(next.list).toEqual([0, 2, 3, 4]);
+      expect(state.list).toEqual([3, 1, 2]);
+    });
+
+    it('should update objects that moved within an array', () => {
+      const state = createState();
+      const next = produce(state, draft => {
+        draft.todos.unshift({ title: 'Plan', done: false });
+        draft.todos[1]!.done = true;
+      });
+
+      expect(next.todos.map(todo => todo.title)).toEqual([
+        'Plan',
+        'Write docs',
+        'Ship it',
+      ]);
+      expect(next.todos[1]!.done).toBe(true);
+      expect(state.todos[0]!.done).toBe(false);
+      expect(next.todos[2]).toBe(state.todos[1]);
+    });
+
+    it('should resolve drafts kept by non-mutating methods', () => {
+      const state = createState();
+      const next = produce(state, draft => {
+        draft.todos = draft.todos.filter(todo => todo.title !== 'Ship it');
+        draft.todos[0]!.done = true;
+      });
+
+      expect(next.todos).toEqual([{ title: 'Write docs', done: true }]);
+      expect(state.todos).toHaveLength(2);
+    });
+
+    it('should truncate arrays through length', () => {
+      const next = produce([1, 2, 3], draft => {
+        draft.length = 1;
+      });
+
+      expect(next).toEqual([1]);
+    });
+  });
+
+  describe('Maps and Sets', () => {
+    it('should draft Maps', () => {
+      const state = {
+        users: new Map([
+          ['ann', { name: 'Ann', visits: 1 }],
+          ['bob', { name: 'Bob', visits: 1 }],
+        ]),
+      };
+
+      const next = produce(state, draft => {
+        draft.users.get('ann')!.visits++;
+        draft.users.set('cid', { name: 'Cid', visits: 0 });
+        draft.users.delete('bob');
+      });
+
+      expect(next.users).toBeInstanceOf(Map);
+      expect(Array.from(next.users.keys())).toEqual(['ann', 'cid']);
+      expect(next.users.get('ann')!.visits).toBe(2);
+      expect(state.users.get('ann')!.visits).toBe(1);
+      expect(state.users.size).toBe(2);
+    });
+
+    it('should iterate Map drafts', () => {
+      const state = new Map([
+        ['a', { count: 1 }],
+        ['b', { count: 2 }],
+      ]);
+
+      const next = produce(state, draft => {
+        for (const [, value] of draft) {
+          value.count *= 10;
+        }
+        expect(draft.size).toBe(2);
+        expect(draft.has('a')).toBe(true);
+      });
+
+      expect(next.get('a')).toEqual({ count: 10 });
+      expect(next.get('b')).toEqual({ count: 20 });
+      expect(state.get('a')).toEqual({ count: 1 });
+    });
+
+    it('should share untouched Map entries', () => {
+      const state = new Map([
+        ['a', { count: 1 }],
+        ['b', { count: 2 }],
+      ]);
+
+      const next = produce(state, draft => {
+        draft.get('a')!.count = 5;
+      });
+
+      expect(next.get('b')).toBe(state.get('b'));
+      expect(produce(state, draft => void draft.get('a'))).toBe(state);
+    });
+
+    it('should draft Sets', () => {
+      const state = { tags: new Set(['a', 'b']) };
+      const next = produce(state, draft => {
+        draft.tags.add('c');
+        draft.tags.delete('a');
+      });
+
+      expect(Array.from(next.tags)).toEqual(['b', 'c']);
+      expect(Array.from(state.tags)).toEqual(['a', 'b']);
+      expect(produce(state, draft => void draft.tags.add('a'))).toBe(state);
+    });
+
+    it('should draft objects inside Sets', () => {
+      const member = { id: 1, active: false };
+      const state = new Set([member, { id: 2, active: false }]);
+
+      const next = produce(state, draft => {
+        expect(draft.has(member)).toBe(true);
+        for (const item of draft) {
+          if (item.id === 1) {
+            item.active = true;
+          }
+        }
+      });
+
+      expect(Array.from(next, item => item.active)).toEqual([true, false]);
+      expect(member.active).toBe(false);
+    });
+  });
+
+  describe('returning values', () => {
+    it('should use a returned value as the result', () => {
+      const state = createState();
+      const next = produce(state, draft => ({
+        ...draft,
+        settings: { theme: 'light' },
+      }));
+
+      expect(next.settings).toEqual({ theme: 'light' });
+      expect(next.user).toBe(state.user);
+    });
+
+    it('should accept returning the draft itself', () => {
+      const next = produce({ a: 1 }, draft => {
+        draft.a = 2;
+        return draft;
+      });
+
+      expect(next).toEqual({ a: 2 });
+    });
+
+    it('should reject modifying the draft and returning a new value', () => {
+      expect(() =>
+        produce({ a: 1 }, draft => {
+          draft.a = 2;
+          return { a: 3 };
+        })
+      ).toThrow(
+        'A produce recipe must either modify the draft or return a new value, not both'
+      );
+    });
+
+    it('should pass non-draftable bases to the recipe', () => {
+      expect(produce(1, n => n + 1)).toBe(2);
+      expect(produce('a', () => {})).toBe('a');
+
+      const date = new Date(0);
+      expect(produce(date, () => {})).toBe(date);
+    });
+  });
+
+  describe('freezing', () => {
+    it('should freeze copies and added values when requested', () => {
+      const next = produce(
+        createState(),
+        draft => {
+          draft.user.name = 'Bob';
+          draft.todos.push({ title: 'More', done: false });
+        },
+        { freeze: true }
+      );
+
+      expect(Object.isFrozen(next)).toBe(true);
+      expect(Object.isFrozen(next.user)).toBe(true);
+      expect(Object.isFrozen(next.todos)).toBe(true);
+      expect(Object.isFrozen(next.todos[2])).toBe(true);
+      expect(() => {
+        (next.user as any).name = 'Cid';
+      }).toThrow(TypeError);
+    });
+
+    it('should leave subtrees shared with the base unfrozen', () => {
+      const map = new Map([['a', { n: 1 }]]);
+      const set = new Set([{ id: 1 }]);
+      const state = { ...createState(), map, set };
+
+      const next = produce(
+        state,
+        draft => {
+          draft.user.name = 'Bob';
+          draft.settings.theme = 'light';
+        },
+        { freeze: true }
+      );
+
+      expect(next.user.address).toBe(state.user.address);
+      expect(next.map).toBe(map);
+      expect(Object.isFrozen(state)).toBe(false);
+      expect(Object.isFrozen(state.user)).toBe(false);
+      expect(Object.isFrozen(state.user.address)).toBe(false);
+      expect(Object.isFrozen(state.todos)).toBe(false);
+      expect(Object.isFrozen(map)).toBe(false);
+      expect(Object.isFrozen(set)).toBe(false);
+      expect(Object.getOwnPropertyNames(map)).toEqual([]);
+      expect(Object.getOwnPropertyNames(set)).toEqual([]);
+
+      map.set('b', { n: 2 });
+      set.add({ id: 2 });
+      state.user.address.city = 'Lyon';
+      expect(map.size).toBe(2);
+      expect(set.size).toBe(2);
+      expect(next.user.address.city).toBe('Lyon');
+
+      const unchanged = produce(state, () => {}, { freeze: true });
+      expect(unchanged).toBe(state);
+      expect(Object.isFrozen(state)).toBe(false);
+    });
+
+    it('should not freeze by default', () => {
+      const next = produce(createState(), draft => {
+        draft.user.name = 'Bob';
+      });
+
+      expect(Object.isFrozen(next)).toBe(false);
+    });
+
+    it('should block mutation methods of frozen Maps and Sets', () => {
+      const next = produce(
+        { map: new Map([['a', 1]]), set: new Set([1]) },
+        draft => {
+          draft.map.set('b', 2);
+          draft.set.add(2);
+        },
+        { freeze: true }
+      );
+
+      expect(() => next.map.set('c', 3)).toThrow(
+        'Cannot modify a frozen collection'
+      );
+      expect(() => next.set.delete(1)).toThrow(
+        'Cannot modify a frozen collection'
+      );
+      expect(next.map.get('b')).toBe(2);
+    });
+
+    it('should produce from frozen states', () => {
+      const frozen = produce(createState(), () => {}, { freeze: true });
+      const next = produce(frozen, draft => {
+        draft.todos.push({ title: 'More', done: false });
+        draft.user.address.city = 'Lyon';
+      });
+
+      expect(next.todos).toHaveLength(3);
+      expect(next.user.address.city).toBe('Lyon');
+      expect(frozen.user.address.city).toBe('Paris');
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should revoke drafts after produce returns', () => {
+      let leaked: any;
+      let leakedMap: any;
+      produce({ nested: { a: 1 }, map: new Map() }, draft => {
+        leaked = draft.nested;
+        leakedMap = draft.map;
+      });
+
+      expect(() => leaked.a).toThrow(TypeError);
+      expect(() => leakedMap.get('a')).toThrow(
+        'Cannot use a draft after produce has finished'
+      );
+    });
+
+    it('should handle drafts assigned to other locations', () => {
+      const state = { a: { value: 1 }, b: null as { value: number } | null };
+      const next = produce(state, draft => {
+        draft.b = draft.a;
+        draft.a.value = 2;
+      });
+
+      expect(next.a).toEqual({ value: 2 });
+      expect(next.b).toBe(next.a);
+    });
+
+    it('should not draft class instances', () => {
+      class Point {
+        constructor(public x: number) {}
+      }
+      const state = { point: new Point(1) };
+
+      const next = produce(state, draft => {
+        draft.point = new Point(2);
+      });
+
+      expect(next.point.x).toBe(2);
+      expect(state.point.x).toBe(1);
+    });
+
+    it('should reject defineProperty on drafts', () => {
+      expect(() =>
+        produce({}, draft => {
+          Object.defineProperty(draft, 'a', { value: 1 });
+        })
+      ).toThrow('Cannot define properties on a draft');
+    });
+
+    it('should reject non-function recipes', () => {
+      expect(() => produce({}, null as any)).toThrow(
+        'Expected recipe to be a function'
+      );
+    });
+  });
+
+  describe('real-world use cases', () => {
+    it('should write reducers without manual copying', () => {
+      type State = {
+        entities: Record<string, { id: string; likes: number }>;
+        order: string[];
+      };
+
+      const reducer = (state: State, action: { type: string; id: string }) =>
+        produce(state, draft => {
+          if (action.type === 'like') {
+            draft.entities[action.id]!.likes++;
+          } else if (action.type === 'remove') {
+            delete draft.entities[action.id];
+            draft.order.splice(draft.order.indexOf(action.id), 1);
+          }
+        });
+
+      const state: State = {
+        entities: { a: { id: 'a', likes: 0 }, b: { id: 'b', likes: 0 } },
+        order: ['a', 'b'],
+      };
+
+      const liked = reducer(state, { type: 'like', id: 'a' });
+      const removed = reducer(liked, { type: 'remove', id: 'b' });
+
+      expect(liked.entities.a!.likes).toBe(1);
+      expect(liked.entities.b).toBe(state.entities.b);
+      expect(liked.order).toBe(state.order);
+      expect(removed).toEqual({
+        entities: { a: { id: 'a', likes: 1 } },
+        order: ['a'],
+      });
+    });
+  });
+});
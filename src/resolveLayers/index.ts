@@ -0,0 +1,166 @@
+import { mergeWithOrigins } from '../deepMerge/index';
+import type {
+  DeepMergeConfig,
+  DeepMergeConfigOf,
+  DeepMergeOptions,
+  DeepMergeResult,
+  MergeableObject,
+} from '../deepMerge/index';
+import { isPlainObject } from '../typeGuards/index';
+import { stringifyPath, toPath } from '../toPath/index';
+import type { PropertyPath } from '../toPath/index';
+
+// Type definitions
+export interface ConfigLayer<V extends MergeableObject = MergeableObject> {
+  /** Name reported in the provenance of every value this layer supplies */
+  name: string;
+  value: V;
+}
+
+// Merges the remaining layer values into `Acc`, the merge of the layers before them
+type MergeLayerValues<
+  L extends readonly unknown[],
+  Acc,
+  C extends DeepMergeConfig,
+> = L extends readonly [infer Head, ...infer Rest]
+  ? MergeLayerValues<
+      Rest,
+      DeepMergeResult<Acc, Head extends ConfigLayer<infer V> ? V : never, C>,
+      C
+    >
+  : L extends readonly []
+    ? Acc
+    : // An array of unknown length: its values are only known to be objects
+      MergeableObject;
+
+/**
+ * The merged value of `resolveLayers` for layers `L`: the deep merge of their values
+ * in order, with the result config `C` of the options (see `DeepMergeConfigOf`).
+ * Layers passed as an array of unknown length merge into a `MergeableObject`.
+ *
+ * @example
+ * ```typescript
+ * type Value = LayersValue<
+ *   [{ name: string; value: { port: number } }, { name: string; value: { host: string } }]
+ * >;
+ * // { port: number; host: string }
+ * ```
+ */
+export type LayersValue<
+  L extends readonly ConfigLayer[],
+  C extends DeepMergeConfig = DeepMergeConfigOf<DeepMergeOptions>,
+> = L extends readonly [infer First, ...infer Rest]
+  ? MergeLayerValues<Rest, First extends ConfigLayer<infer V> ? V : never, C>
+  : L extends readonly []
+    ? Record<string, never>
+    : MergeableObject;
+
+export interface ResolvedLayers<T> {
+  /** The layers deep-merged in order, later layers winning */
+  value: T;
+  /**
+   * The name of the layer that supplied each leaf, keyed by the leaf's path in the
+   * `get` path syntax (`server.port`, `headers["x.request.id"]`).
+   * Arrays, Maps and Sets are leaves.
+   */
+  provenance: Record<string, string>;
+  /**
+   * Returns the name of the layer that supplied the leaf at `path`. Paths below a leaf
+   * (`tags[0]` for an array leaf `tags`) report the leaf's layer.
+   * Returns `undefined` when nothing is there, and also for an object assembled from
+   * several leaves (`server` above `server.host`), which has no single source; the
+   * `provenance` keys below it list the layers of its leaves.
+   */
+  sourceOf(path: PropertyPath): string | undefined;
+}
+
+/**
+ * Deep merges configuration layers in order and records which layer supplied each
+ * setting, to answer "where did this value come from?".
+ * Layers are merged with `deepMerge` semantics; `options` are passed through, so
+ * `DELETE`, `skipUndefined` and `nullAsReset` are honored, and a `null` reset is
+ * attributed to the first layer.
+ *
+ * The merged value is typed as `LayersValue` of the layers, so layers passed as a
+ * tuple (such as an array literal) get the type of their merge.
+ *
+ * @template L - The types of the layers
+ * @template O - The type of the options, which can change the merged type
+ * @param layers - The layers, lowest priority first
+ * @param options - `deepMerge` options used for every layer
+ * @returns The merged value, its provenance by path, and a `sourceOf` lookup
+ * @throws {TypeError} If a layer is not a `{ name, value }` object with a plain object value
+ *
+ * @example
+ * ```typescript
+ * import { resolveLayers } from 'datype';
+ *
+ * const config = resolveLayers([
+ *   { name: 'defaults', value: { server: { host: 'localhost', port: 80 } } },
+ *   { name: 'file', value: { server: { port: 8080 } } },
+ *   { name: 'env', value: { server: { host: 'example.com' } } }
+ * ]);
+ *
+ * config.value; // { server: { host: 'example.com', port: 8080 } }
+ * config.provenance; // { 'server.host': 'env', 'server.port': 'file' }
+ * config.sourceOf('server.port'); // 'file'
+ * ```
+ */
+export function resolveLayers<
+  L extends readonly ConfigLayer[] | [],
+  const O extends DeepMergeOptions = DeepMergeOptions,
+>(layers: L, options?: O): ResolvedLayers<LayersValue<L, DeepMergeConfigOf<O>>>;
+export function resolveLayers(
+  layers: readonly ConfigLayer[],
+  options: DeepMergeOptions = {}
+): ResolvedLayers<MergeableObject> {
+  if (!Array.isArray(layers)) {
+    throw new TypeError('Expected layers to be an array');
+  }
+
+  layers.forEach((layer, index) => {
+    if (
+      typeof layer !== 'object' ||
+      layer === null ||
+      typeof layer.name !== 'string'
+    ) {
+      throw new TypeError(`Layer #${index} must have a string "name"`);
+    }
+    if (!isPlainObject(layer.value)) {
+      throw new TypeError(
+        `Layer "${layer.name}" must have a plain object "value"`
+      );
+    }
+  });
+
+  const [first, ...rest] = layers;
+  const { value, origins } = mergeWithOrigins(
+    first?.value ?? {},
+    rest.map(layer => layer.value),
+    options
+  );
+
+  const provenance: Record<string, string> = {};
+  for (const [path, index] of origins) {
+    // Defined so a `__proto__` path stays a plain data property
+    Object.defineProperty(provenance, path, {
+      value: layers[index]!.name,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+
+  const sourceOf = (path: PropertyPath): string | undefined => {
+    const keys = toPath(path);
+    for (let length = keys.length; length > 0; length--) {
+      const key = stringifyPath(keys.slice(0, length));
+      if (Object.prototype.hasOwnProperty.call(provenance, key)) {
+        return provenance[key];
+      }
+    }
+    return undefined;
+  };
+
+  return { value, provenance, sourceOf };
+}
@@ -0,0 +1,27 @@
+import { bench, describe } from 'vitest';
+import { deepMergeWith } from '../deepMerge/index';
+import { resolveLayers } from './index';
+
+const createLayer = (name: string) => ({
+  name,
+  value: Object.fromEntries(
+    Array.from({ length: 4000 }, (_, i) => [
+      `key${i}`,
+      { value: name, nested: { value: name } },
+    ])
+  ),
+});
+const layers = ['defaults', 'file', 'env'].map(createLayer);
+const [first, ...rest] = layers.map(layer => layer.value);
+const mergeAll = deepMergeWith({});
+
+describe('resolveLayers', () => {
+  bench('large layers', () => {
+    resolveLayers(layers);
+  });
+
+  // Baseline: the same merge without provenance
+  bench('deepMerge baseline', () => {
+    mergeAll(first!, ...rest);
+  });
+});
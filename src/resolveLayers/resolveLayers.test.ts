@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { resolveLayers } from './index';
+import { DELETE } from '../deepMerge/index';
+
+describe('resolveLayers', () => {
+  const layers = [
+    {
+      name: 'defaults',
+      value: {
+        server: { host: 'localhost', port: 80 },
+        log: { level: 'info' },
+        features: ['auth'],
+      },
+    },
+    { name: 'file', value: { server: { port: 8080 }, features: ['search'] } },
+    { name: 'env', value: { server: { host: 'example.com' } } },
+  ];
+
+  describe('basic functionality', () => {
+    it('should merge layers in order', () => {
+      const { value } = resolveLayers(layers);
+
+      expect(value).toEqual({
+        server: { host: 'example.com', port: 8080 },
+        log: { level: 'info' },
+        features: ['auth', 'search'],
+      });
+    });
+
+    it('should record the layer that supplied each leaf', () => {
+      const { provenance } = resolveLayers(layers);
+
+      expect(provenance).toEqual({
+        'server.host': 'env',
+        'server.port': 'file',
+        'log.level': 'defaults',
+        features: 'file',
+      });
+    });
+
+    it('should answer sourceOf queries with get paths', () => {
+      const { sourceOf } = resolveLayers(layers);
+
+      expect(sourceOf('server.port')).toBe('file');
+      expect(sourceOf(['server', 'host'])).toBe('env');
+      expect(sourceOf('features[1]')).toBe('file');
+      expect(sourceOf('server')).toBeUndefined();
+      expect(sourceOf('missing.key')).toBeUndefined();
+    });
+
+    it('should handle no layers and a single layer', () => {
+      expect(resolveLayers([])).toMatchObject({ value: {}, provenance: {} });
+      expect(
+        resolveLayers([{ name: 'only', value: { a: { b: 1 } } }]).provenance
+      ).toEqual({ 'a.b': 'only' });
+    });
+  });
+
+  describe('merge semantics', () => {
+    it('should reattribute replaced subtrees', () => {
+      const { value, provenance } = resolveLayers([
+        { name: 'defaults', value: { db: { host: 'a', port: 1 } } },
+        { name: 'file', value: { db: 'postgres://b' } },
+        { name: 'env', value: { db: { host: 'c' } } },
+      ]);
+
+      expect(value).toEqual({ db: { host: 'c' } });
+      expect(provenance).toEqual({ 'db.host': 'env' });
+    });
+
+    it('should pass options through to deepMerge', () => {
+      const { value, provenance } = resolveLayers(
+        [
+          {
+            name: 'defaults',
+            value: { timeout: 5000, retries: 3, debug: false },
+          },
+          { name: 'file', value: { timeout: 100, retries: 5, debug: true } },
+          {
+            name: 'env',
+            value: { timeout: null, retries: undefined, debug: DELETE },
+          },
+        ],
+        { nullAsReset: true, skipUndefined: true }
+      );
+
+      expect(value).toEqual({ timeout: 5000, retries: 5 });
+      expect(provenance).toEqual({ timeout: 'defaults', retries: 'file' });
+    });
+
+    it('should quote keys that contain path syntax', () => {
+      const { provenance, sourceOf } = resolveLayers([
+        { name: 'defaults', value: { headers: { 'x.request.id': 'a' } } },
+        { name: 'env', value: { headers: { 'x.request.id': 'b' } } },
+      ]);
+
+      expect(provenance).toEqual({ 'headers["x.request.id"]': 'env' });
+      expect(sourceOf('headers["x.request.id"]')).toBe('env');
+    });
+
+    it('should not mutate the layers', () => {
+      const snapshot = JSON.stringify(layers);
+      resolveLayers(layers);
+
+      expect(JSON.stringify(layers)).toBe(snapshot);
+    });
+  });
+
+  describe('typing', () => {
+    it('should type the value as the merge of the layer values', () => {
+      const { value } = resolveLayers([
+        {
+          name: 'defaults',
+          value: { server: { host: 'localhost', port: 80 } },
+        },
+        { name: 'file', value: { server: { port: 8080 }, tags: ['a'] } },
+      ]);
+
+      const typed: { server: { host: string; port: number }; tags: string[] } =
+        value;
+      // @ts-expect-error port is a number in every layer
+      const wrong: string = value.server.port;
+      expect(typed.server.port).toBe(8080);
+      expect(wrong).toBe(8080);
+    });
+
+    it('should follow options that change the merged type', () => {
+      const { value } = resolveLayers(
+        [
+          { name: 'defaults', value: { hosts: ['a'], retries: 3 } },
+          { name: 'env', value: { hosts: ['b'], retries: DELETE } },
+        ],
+        { arrayMergeStrategy: 'replace' }
+      );
+
+      const hosts: string[] = value.hosts;
+      // @ts-expect-error retries was deleted
+      expect(value.retries).toBeUndefined();
+      expect(hosts).toEqual(['b']);
+    });
+
+    it('should type layers of unknown length as mergeable objects', () => {
+      const { value } = resolveLayers(layers);
+
+      const typed: Record<string, unknown> = value;
+      expect(typed).toHaveProperty('server.port', 8080);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject malformed layers', () => {
+      expect(() => resolveLayers({} as any)).toThrow(
+        'Expected layers to be an array'
+      );
+      expect(() => resolveLayers([{ value: {} } as any])).toThrow(
+        'Layer #0 must have a string "name"'
+      );
+      expect(() => resolveLayers([{ name: 'env', value: [] as any }])).toThrow(
+        'Layer "env" must have a plain object "value"'
+      );
+    });
+  });
+
+  describe('large layers', () => {
+    it('should track provenance for every leaf', () => {
+      const createLayer = (name: string) => ({
+        name,
+        value: Object.fromEntries(
+          Array.from({ length: 4000 }, (_, i) => [
+            `key${i}`,
+            { value: name, nested: { value: name } },
+          ])
+        ),
+      });
+      const largeLayers = ['defaults', 'file', 'env'].map(createLayer);
+
+      const { provenance } = resolveLayers(largeLayers);
+
+      expect(Object.keys(provenance)).toHaveLength(8000);
+      expect(provenance['key3999.nested.value']).toBe('env');
+    });
+  });
+});
@@ -1,12 +1,36 @@
+import { isIndexKey, toPath } from '../toPath/index';
+import type {
+  PathHint,
+  PathValue,
+  PropertyPath,
+  ValidPath,
+} from '../toPath/index';
+import { isKeyAllowed } from '../unsafeKeys/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
+export interface SetOptions {
+  /**
+   * How to treat `__proto__`, `constructor` and `prototype` path segments.
+   * Defaults to `'throw'`; `'skip'` returns `obj` unchanged.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+}
+
 /**
- * Immutably sets a nested property value in an object using dot notation.
+ * Immutably sets a nested property value in an object using a property path.
  * Returns a new object with the specified property set to the new value.
  *
  * @template T - The type of the object
+ * @template P - The path string literal type (completed from `Path<T>`) or tuple of keys
  * @param obj - The object to set the value in
- * @param path - The property path as a string (supports dot notation)
- * @param value - The value to set
+ * @param path - The property path (supports dot notation, `[0]` indices and quoted `["key"]` segments) or an array of keys
+ * @param value - The value to set, checked against `PathValue<T, P>` for a literal path and
+ * `T[K]` for a key of a generic object. Runtime (non-literal) string paths accept any value;
+ * literal paths naming a key that `T` does not have are type errors (see `ValidPath`)
+ * @param options - Set options (`unsafeKeys` policy for prototype-polluting path segments)
  * @returns A new object with the property set to the new value
+ * @throws {SyntaxError} If the path is malformed (see `toPath`)
+ * @throws {UnsafeKeyError} If the path contains `__proto__`, `constructor` or `prototype`
  *
  * @example
  * ```typescript
@@ -36,35 +60,136 @@
  * const updated3 = set(user, 'preferences.0', 'light-mode');
  * // updated3.preferences[0] is 'light-mode'
  *
- * // Creating new nested paths
- * const updated4 = set(user, 'profile.contact.phone', '123-456-7890');
- * // Creates the phone property in contact
+ * // Bracket and quoted segments
+ * const updated5 = set(user, 'profile["display.name"]', 'Johnny');
+ * // updated5.profile['display.name'] is 'Johnny'
  *
- * // Complex objects
- * const config = {
- *   app: {
- *     features: {
- *       auth: { enabled: true }
- *     }
- *   }
- * };
+ * // Arrays of keys (symbols, numbers, keys with any characters)
+ * const meta = Symbol('meta');
+ * const updated6 = set({ [meta]: { version: 1 } }, [meta, 'version'], 2);
+ * // updated6[meta].version is 2
+ *
+ * // Creating missing objects along optional properties
+ * const config: {
+ *   app: { features: { payments?: { enabled: boolean } } };
+ * } = { app: { features: {} } };
  *
  * const newConfig = set(config, 'app.features.payments.enabled', true);
  * // Creates the payments object with enabled: true
+ *
+ * // Runtime string paths accept any value
+ * const field: string = 'profile.contact.phone';
+ * const updated4 = set(user, field, '123-456-7890');
+ *
+ * // Typos and wrong value types are type errors
+ * set(user, 'profile.nmae', 'Jane'); // Type error: not a valid path
+ * set(user, 'profile.name', 42); // Type error: number is not assignable to string
+ *
+ * // Prototype-polluting paths are rejected
+ * set({}, '__proto__.polluted', true); // throws UnsafeKeyError
  * ```
  */
-export function set<T>(obj: T, path: string, value: any): T {
+export function set<T, const P extends PathHint<T>>(
+  obj: T,
+  path: ValidPath<T, P>,
+  value: PathValue<T, P>,
+  options?: SetOptions
+): T;
+export function set<T, K extends keyof T>(
+  obj: T,
+  path: K,
+  value: T[K],
+  options?: SetOptions
+): T;
+export function set<T>(
+  obj: T,
+  path: PropertyPath,
+  value: unknown,
+  options: SetOptions = {}
+): T {
   if (obj === null || obj === undefined) {
     throw new TypeError('Cannot set property on null or undefined');
   }
 
-  if (!path || typeof path !== 'string') {
-    throw new TypeError('Path must be a non-empty string');
+  if (
+    typeof path === 'string'
+      ? path === ''
+      : !Array.isArray(path) || !path.length
+  ) {
+    throw new TypeError('Path must be a non-empty string or array of keys');
+  }
+
+  const keys = toPath(path);
+  const copied = copyPath(obj, keys, undefined, options.unsafeKeys ?? 'throw');
+  if (!copied) {
+    return obj;
+  }
+
+  const { result, parent } = copied;
+
+  const lastKey = keys[keys.length - 1]!;
+  parent[lastKey] = value;
+
+  return result;
+}
+
+/**
+ * The copy made by `copyPath`: the new root and the copied parent of the last key.
+ */
+export interface CopiedPath<T> {
+  result: T;
+  parent: any;
+}
+
+/**
+ * Copy-on-write walk shared by the immutable path utilities (`set`, `unset`, `update`,
+ * `updateAll`, `setAll`, `applyPatch`).
+ * Shallow-copies `obj` and every container along `keys` up to the parent of the last key,
+ * creating missing containers (an array when the following key is an index).
+ * The returned `parent` is a fresh copy that can be written to without touching `obj`.
+ *
+ * When writing several paths into the same result, pass a `copies` set: containers
+ * recorded there are reused instead of being copied again, and new copies are added to it.
+ *
+ * Every key, including the last one, goes through the `unsafeKeys` policy first, so no
+ * caller can write a prototype through the walk. With `'skip'`, an unsafe key makes it
+ * return `null` without copying anything. Removals check the keys leading to the removed
+ * key themselves and pass `'allow'`, since deleting an own key cannot reach a prototype.
+ *
+ * @throws {UnsafeKeyError} If a key is unsafe and `unsafeKeys` is `'throw'` (the default)
+ */
+export function copyPath<T>(
+  obj: T,
+  keys: readonly PropertyKey[],
+  copies?: WeakSet<object>,
+  unsafeKeys?: 'throw' | 'allow'
+): CopiedPath<T>;
+export function copyPath<T>(
+  obj: T,
+  keys: readonly PropertyKey[],
+  copies: WeakSet<object> | undefined,
+  unsafeKeys: UnsafeKeyPolicy
+): CopiedPath<T> | null;
+export function copyPath<T>(
+  obj: T,
+  keys: readonly PropertyKey[],
+  copies?: WeakSet<object>,
+  unsafeKeys: UnsafeKeyPolicy = 'throw'
+): CopiedPath<T> | null {
+  if (!keys.every(key => isKeyAllowed(key, unsafeKeys))) {
+    return null;
   }
 
-  const keys = path.split('.');
+  const copy = (value: any): any => {
+    if (copies?.has(value)) {
+      return value;
+    }
+    const copied = Array.isArray(value) ? [...value] : { ...value };
+    copies?.add(copied);
+    return copied;
+  };
 
-  const result = Array.isArray(obj) ? [...obj] : { ...(obj as any) };
+  const result = copy(obj);
 
   let current: any = result;
 
@@ -72,21 +197,17 @@ export function set<T>(obj: T, path: string, value: any): T {
     const key = keys[i]!;
     const nextKey = keys[i + 1]!;
 
-    const isNextKeyNumeric = /^\d+$/.test(nextKey);
+    const isNextKeyNumeric = isIndexKey(nextKey);
 
     if (current[key] === null || current[key] === undefined) {
       current[key] = isNextKeyNumeric ? [] : {};
+      copies?.add(current[key]);
     } else {
-      current[key] = Array.isArray(current[key])
-        ? [...current[key]]
-        : { ...current[key] };
+      current[key] = copy(current[key]);
     }
 
     current = current[key];
   }
 
-  const lastKey = keys[keys.length - 1]!;
-  current[lastKey] = value;
-
-  return result;
+  return { result, parent: current };
 }
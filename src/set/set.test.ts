@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { set } from './index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
 
 describe('set', () => {
   const testObj = {
@@ -58,9 +59,9 @@ describe('set', () => {
     it('should modify nested array objects', () => {
       const result = set(testObj, 'profile.contacts.0.value', 'jane@work.com');
 
-      expect(result.profile.contacts[0].value).toBe('jane@work.com');
-      expect(testObj.profile.contacts[0].value).toBe('john@work.com'); // Original unchanged
-      expect(result.profile.contacts[0].type).toBe('email'); // Other properties preserved
+      expect(result.profile.contacts[0]!.value).toBe('jane@work.com');
+      expect(testObj.profile.contacts[0]!.value).toBe('john@work.com'); // Original unchanged
+      expect(result.profile.contacts[0]!.type).toBe('email'); // Other properties preserved
     });
 
     it('should extend arrays when setting higher indices', () => {
@@ -75,7 +76,7 @@ describe('set', () => {
 
   describe('creating new paths', () => {
     it('should create new top-level properties', () => {
-      const result = set(testObj, 'newProp', 'newValue');
+      const result: any = set(testObj, 'newProp' as string, 'newValue');
 
       expect(result.newProp).toBe('newValue');
       expect(Object.prototype.hasOwnProperty.call(testObj, 'newProp')).toBe(
@@ -84,7 +85,11 @@ describe('set', () => {
     });
 
     it('should create new nested properties', () => {
-      const result = set(testObj, 'profile.location', 'New York');
+      const result: any = set(
+        testObj,
+        'profile.location' as string,
+        'New York'
+      );
 
       expect(result.profile.location).toBe('New York');
       expect(
@@ -93,7 +98,11 @@ describe('set', () => {
     });
 
     it('should create deep nested paths', () => {
-      const result = set(testObj, 'profile.settings.display.brightness', 80);
+      const result: any = set(
+        testObj,
+        'profile.settings.display.brightness' as string,
+        80
+      );
 
       expect(result.profile.settings.display.brightness).toBe(80);
       expect(
@@ -102,7 +111,7 @@ describe('set', () => {
     });
 
     it('should create array paths', () => {
-      const result = set(testObj, 'profile.tags.0', 'developer');
+      const result: any = set(testObj, 'profile.tags.0' as string, 'developer');
 
       expect(result.profile.tags).toEqual(['developer']);
       expect(Array.isArray(result.profile.tags)).toBe(true);
@@ -112,7 +121,11 @@ describe('set', () => {
     });
 
     it('should create mixed array and object paths', () => {
-      const result = set(testObj, 'profile.workHistory.0.company', 'Acme Corp');
+      const result: any = set(
+        testObj,
+        'profile.workHistory.0.company' as string,
+        'Acme Corp'
+      );
 
       expect(result.profile.workHistory[0].company).toBe('Acme Corp');
       expect(Array.isArray(result.profile.workHistory)).toBe(true);
@@ -183,25 +196,28 @@ describe('set', () => {
 
       const result = set(nested, 'matrix.0.1', 20);
 
-      expect(result.matrix[0][1]).toBe(20);
-      expect(nested.matrix[0][1]).toBe(2); // Original unchanged
+      expect(result.matrix[0]![1]).toBe(20);
+      expect(nested.matrix[0]![1]).toBe(2); // Original unchanged
     });
   });
 
   describe('edge cases', () => {
     it('should throw for null/undefined objects', () => {
-      expect(() => set(null, 'any.path', 'value')).toThrow(
+      expect(() => set(null, 'any.path' as string, 'value')).toThrow(
         'Cannot set property on null or undefined'
       );
-      expect(() => set(undefined, 'any.path', 'value')).toThrow(
+      expect(() => set(undefined, 'any.path' as string, 'value')).toThrow(
         'Cannot set property on null or undefined'
       );
     });
 
     it('should throw for invalid paths', () => {
-      expect(() => set(testObj, '', 'value')).toThrow(
+      expect(() => set(testObj, '' as string, 'value')).toThrow(
         'Path must be a non-empty string'
       );
+      expect(() => set(testObj, [] as string[], 'value')).toThrow(
+        'Path must be a non-empty string or array of keys'
+      );
       expect(() => set(testObj, null as any, 'value')).toThrow(
         'Path must be a non-empty string'
       );
@@ -211,8 +227,8 @@ describe('set', () => {
     });
 
     it('should handle setting undefined and null values', () => {
-      const result1 = set(testObj, 'name', undefined);
-      const result2 = set(testObj, 'age', null);
+      const result1 = set(testObj, 'name' as string, undefined);
+      const result2 = set(testObj, 'age' as string, null);
 
       expect(result1.name).toBeUndefined();
       expect(result2.age).toBeNull();
@@ -309,8 +325,158 @@ describe('set', () => {
 
       const updated = set(apiResponse, 'data.users.1.active', true);
 
-      expect(updated.data.users[1].active).toBe(true);
-      expect(apiResponse.data.users[1].active).toBe(false); // Original unchanged
+      expect(updated.data.users[1]!.active).toBe(true);
+      expect(apiResponse.data.users[1]!.active).toBe(false); // Original unchanged
+    });
+  });
+
+  describe('bracket and quoted paths', () => {
+    it('should set array elements with bracket indices', () => {
+      const result = set(testObj, 'profile.contacts[1].value', '555-0000');
+
+      expect(result.profile.contacts[1]!.value).toBe('555-0000');
+      expect(testObj.profile.contacts[1]!.value).toBe('123-456-7890'); // Original unchanged
+      expect(result.profile.contacts[0]).toBe(testObj.profile.contacts[0]);
+    });
+
+    it('should create arrays for bracket indices on new paths', () => {
+      const result = set(testObj, 'profile.aliases[0]' as string, 'JD');
+
+      expect((result.profile as any).aliases).toEqual(['JD']);
+    });
+
+    it('should set keys containing dots with quoted segments', () => {
+      const obj = { headers: { 'x.request.id': 'old' } };
+      const result = set(obj, 'headers["x.request.id"]', 'new');
+
+      expect(result.headers['x.request.id']).toBe('new');
+      expect(obj.headers['x.request.id']).toBe('old'); // Original unchanged
+      expect(Object.keys(result.headers)).toEqual(['x.request.id']);
+    });
+
+    it('should set keys containing dots with escaped dots', () => {
+      const result = set({}, 'files.readme\\.md' as string, 'content') as any;
+
+      expect(result.files['readme.md']).toBe('content');
+    });
+
+    it('should throw for malformed paths', () => {
+      expect(() => set(testObj, 'profile[' as string, 'value')).toThrow(
+        SyntaxError
+      );
+      expect(() => set(testObj, 'profile.' as string, 'value')).toThrow(
+        'Invalid path "profile.": empty segment at position 8'
+      );
+    });
+  });
+
+  describe('array paths', () => {
+    const meta = Symbol('meta');
+
+    it('should set values under symbol keys', () => {
+      const obj = { [meta]: { version: 1, source: 'api' }, name: 'doc' };
+      const result = set(obj, [meta, 'version'], 2);
+
+      expect(result[meta].version).toBe(2);
+      expect(result[meta].source).toBe('api');
+      expect(obj[meta].version).toBe(1); // Original unchanged
+      expect(result[meta]).not.toBe(obj[meta]);
+    });
+
+    it('should preserve symbol keys on copied objects', () => {
+      const obj = { profile: { name: 'John', [meta]: 'tagged' } };
+      const result = set(obj, ['profile', 'name'], 'Jane');
+
+      expect(result.profile[meta]).toBe('tagged');
+    });
+
+    it('should create arrays for numeric keys on new paths', () => {
+      const result = set(
+        {} as { list?: Array<{ id?: number }> },
+        ['list', 0, 'id'],
+        1
+      );
+
+      expect(Array.isArray(result.list)).toBe(true);
+      expect(result.list?.[0]).toEqual({ id: 1 });
+    });
+
+    it('should use keys containing path syntax verbatim', () => {
+      const result = set(
+        {} as Record<string, Record<string, string>>,
+        ['a.b', '[c]'],
+        'literal'
+      );
+
+      expect(result['a.b']?.['[c]']).toBe('literal');
+    });
+  });
+
+  describe('path types', () => {
+    it('should accept runtime string paths with any value', () => {
+      const path: string = 'profile.nickname';
+
+      expect((set(testObj, path, 'JD') as any).profile.nickname).toBe('JD');
+    });
+
+    it('should reject mistyped paths and wrong value types', () => {
+      // @ts-expect-error - 'nmae' is not a key of testObj
+      expect(set(testObj, 'nmae', 'Jane')).toHaveProperty('nmae', 'Jane');
+      // @ts-expect-error - name is a string
+      expect(set(testObj, 'name', 42).name).toBe(42);
+    });
+
+    it('should accept paths into generic objects', () => {
+      const rename = <T extends { id: string }>(record: T) =>
+        set(record, 'id', 'b2');
+
+      expect(rename({ id: 'a1', extra: true })).toEqual({
+        id: 'b2',
+        extra: true,
+      });
+    });
+  });
+
+  describe('prototype pollution', () => {
+    it('should reject __proto__, constructor and prototype segments', () => {
+      // @ts-expect-error - __proto__ is not a key of the object
+      expect(() => set({}, '__proto__.polluted', true)).toThrow(UnsafeKeyError);
+      expect(() =>
+        // @ts-expect-error - constructor is not a key of the object
+        set({}, 'constructor.prototype.polluted', true)
+      ).toThrow('Unsafe key "constructor" is not allowed');
+      expect(() =>
+        set(
+          {} as Record<string, Record<string, boolean>>,
+          ['a', 'prototype'],
+          true
+        )
+      ).toThrow(UnsafeKeyError);
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should return the object unchanged when skipping unsafe paths', () => {
+      const obj: Record<string, unknown> = { a: 1 };
+
+      expect(set(obj, '__proto__.polluted', true, { unsafeKeys: 'skip' })).toBe(
+        obj
+      );
+    });
+
+    it('should write unsafe keys when explicitly allowed', () => {
+      const result = set(
+        {} as Record<string, string>,
+        ['constructor'],
+        'custom',
+        {
+          unsafeKeys: 'allow',
+        }
+      );
+
+      expect(Object.prototype.hasOwnProperty.call(result, 'constructor')).toBe(
+        true
+      );
+      expect(result.constructor).toBe('custom');
     });
   });
 });
@@ -0,0 +1,547 @@
+// Type definitions
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+type IsTuple<T extends readonly unknown[]> = number extends T['length']
+  ? false
+  : true;
+
+// Values that paths do not descend into
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: never[]) => unknown);
+
+// Remaining recursion depth for Path, to keep types that grow at each level finite
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+// True when `V` is one of the types already on the current path (`Visited`)
+type IsVisited<V, Visited> = Visited extends unknown
+  ? [V] extends [Visited]
+    ? [Visited] extends [V]
+      ? true
+      : never
+    : never
+  : never;
+
+// Keys that the path grammar cannot express unquoted are written as ["key"]
+type KeySegment<K extends string> = K extends
+  | `${string}.${string}`
+  | `${string}[${string}`
+  | `${string}]${string}`
+  | `${string}\\${string}`
+  ? `["${K}"]`
+  : K;
+
+// Appends the paths below a value to its own path segment
+type WithChildPaths<Segment extends string, V, D extends number, Visited> =
+  | Segment
+  | (PathImpl<V, D, Visited> extends infer Child
+      ? Child extends `[${string}`
+        ? `${Segment}${Child}`
+        : string extends Child
+          ? `${Segment}.${string}` | `${Segment}[${string}`
+          : `${Segment}.${Child & string}`
+      : never);
+
+type ArrayPaths<T extends readonly unknown[], D extends number, Visited> =
+  IsTuple<T> extends true
+    ? {
+        [K in Exclude<keyof T, keyof unknown[]> & string]: WithChildPaths<
+          `[${K}]` | K,
+          NonNullable<T[K]>,
+          PrevDepth[D],
+          Visited
+        >;
+      }[Exclude<keyof T, keyof unknown[]> & string]
+    : WithChildPaths<
+        `[${number}]` | `${number}`,
+        NonNullable<T[number]>,
+        PrevDepth[D],
+        Visited
+      >;
+
+type ObjectPaths<T, D extends number, Visited> = {
+  [K in keyof T & (string | number)]-?: WithChildPaths<
+    KeySegment<`${K}`>,
+    NonNullable<T[K]>,
+    PrevDepth[D],
+    Visited
+  >;
+}[keyof T & (string | number)];
+
+type PathImpl<T, D extends number, Visited> = [D] extends [never]
+  ? never
+  : IsAny<T> extends true
+    ? string
+    : T extends PathLeaf
+      ? never
+      : true extends IsVisited<T, Visited>
+        ? never
+        : T extends readonly unknown[]
+          ? ArrayPaths<T, D, Visited | T>
+          : ObjectPaths<T, D, Visited | T>;
+
+/**
+ * Union of the property paths into `T`, in the syntax accepted by `toPath`, used to
+ * complete paths in editors. Array elements can be addressed as `items.0` or `items[0]`,
+ * and keys that contain dots or brackets are written as `["quoted.keys"]`.
+ * Recursive types are listed until a type repeats, so `Path<TreeNode>` includes
+ * `children.0` but not `children.0.id`; use `ValidPath` to check a path of any depth.
+ * Resolves to `string` when `T` is `any` or `unknown`.
+ *
+ * @example
+ * ```typescript
+ * type User = { name: string; address?: { city: string }; tags: string[] };
+ *
+ * type UserPath = Path<User>;
+ * // 'name' | 'address' | 'address.city' | 'tags' | `tags.${number}` | `tags[${number}]`
+ * ```
+ */
+export type Path<T> =
+  IsAny<T> extends true
+    ? string
+    : unknown extends T
+      ? string
+      : PathImpl<NonNullable<T>, 10, never>;
+
+type AppendKey<Keys extends string[], Key extends string> = Key extends ''
+  ? Keys
+  : [...Keys, Key];
+
+type Unquote<S extends string> = S extends `"${infer K}"` | `'${infer K}'`
+  ? K
+  : S;
+
+// Type-level counterpart of toPath for string literal paths
+export type ParsePath<
+  P extends string,
+  Keys extends string[] = [],
+  Segment extends string = '',
+> = P extends ''
+  ? AppendKey<Keys, Segment>
+  : P extends `\\${infer Char}${infer Rest}`
+    ? ParsePath<Rest, Keys, `${Segment}${Char}`>
+    : P extends `[${infer Inner}]${infer Rest}`
+      ? ParsePath<Rest, [...AppendKey<Keys, Segment>, Unquote<Inner>]>
+      : P extends `.${infer Rest}`
+        ? ParsePath<Rest, AppendKey<Keys, Segment>>
+        : P extends `${infer Char}${infer Rest}`
+          ? ParsePath<Rest, Keys, `${Segment}${Char}`>
+          : never;
+
+type ValueAtKey<T, K> =
+  IsAny<T> extends true
+    ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      any
+    : unknown extends T
+      ? unknown
+      : T extends null | undefined
+        ? undefined
+        : T extends readonly unknown[]
+          ? IsTuple<T> extends true
+            ? K extends keyof T
+              ? T[K]
+              : undefined
+            : K extends `${number}` | number
+              ? T[number] | undefined
+              : K extends keyof T
+                ? T[K]
+                : undefined
+          : K extends keyof T
+            ? string extends keyof T
+              ? T[K] | undefined
+              : T[K]
+            : K extends `${infer N extends number}`
+              ? N extends keyof T
+                ? T[N]
+                : undefined
+              : undefined;
+
+type ValueAtKeys<T, Keys extends readonly unknown[]> = Keys extends readonly [
+  infer Key,
+  ...infer Rest,
+]
+  ? ValueAtKeys<ValueAtKey<T, Key>, Rest>
+  : T;
+
+// Whether a string path can descend from `T` through key `K`. Unions need only one
+// member with the key, like `Path<T>`
+type HasPathKey<T, K> =
+  IsAny<T> extends true
+    ? true
+    : unknown extends T
+      ? true
+      : T extends PathLeaf
+        ? false
+        : T extends readonly unknown[]
+          ? IsTuple<T> extends true
+            ? K extends Exclude<keyof T, keyof unknown[]>
+              ? true
+              : false
+            : K extends `${number}`
+              ? true
+              : false
+          : K extends keyof T
+            ? true
+            : K extends `${infer N extends number}`
+              ? N extends keyof T
+                ? true
+                : false
+              : false;
+
+type IsValidPath<T, Keys extends readonly unknown[]> = Keys extends readonly [
+  infer Key,
+  ...infer Rest,
+]
+  ? true extends HasPathKey<T, Key>
+    ? IsValidPath<ValueAtKey<T, Key>, Rest>
+    : false
+  : true;
+
+/**
+ * The type of the value found at path `P` inside `T`, where `P` is a string path
+ * or a tuple of keys. Includes `undefined` when the path crosses an optional or nullable value,
+ * an array index or an index signature.
+ *
+ * @example
+ * ```typescript
+ * type User = { name: string; address?: { city: string }; tags: string[] };
+ *
+ * type City = PathValue<User, 'address.city'>; // string | undefined
+ * type Tag = PathValue<User, 'tags[0]'>; // string | undefined
+ * type Name = PathValue<User, ['name']>; // string
+ * ```
+ */
+export type PathValue<T, P> =
+  IsAny<T> extends true
+    ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      any
+    : P extends string
+      ? string extends P
+        ? unknown
+        : [ParsePath<P>] extends [never]
+          ? unknown
+          : ValueAtKeys<T, ParsePath<P>>
+      : P extends readonly PropertyKey[]
+        ? number extends P['length']
+          ? unknown
+          : ValueAtKeys<T, P>
+        : unknown;
+
+/**
+ * Any `PropertyPath`, with the paths of `T` listed first so editors complete them.
+ * Used where paths that may not exist in `T` are expected, as in `has` and `unset`.
+ *
+ * @example
+ * ```typescript
+ * type Settings = { layout: { sidebar: boolean } };
+ *
+ * const known: PathHint<Settings> = 'layout.sidebar';
+ * const probed: PathHint<Settings> = 'layout.footer'; // also accepted
+ * ```
+ */
+export type PathHint<T> =
+  | Path<T>
+  // `string & Record<never, never>` keeps the literal members from being absorbed
+  | (string & Record<never, never>)
+  | readonly PropertyKey[];
+
+/**
+ * Checks a path `P` against `T`: resolves to `P` when it is a literal path whose keys all
+ * exist in `T`, a runtime (non-literal) string or an array of keys, and to `Path<T>`
+ * otherwise, so a mistyped literal path is a type error. Literal paths are parsed and
+ * walked key by key, so paths of any depth into recursive types are checked.
+ *
+ * @example
+ * ```typescript
+ * function read<T, const P extends PathHint<T>>(obj: T, path: ValidPath<T, P>): void {}
+ *
+ * read({ a: { b: 1 } }, 'a.b'); // ok
+ * read({ a: { b: 1 } }, 'a.c'); // Type error
+ * read({ a: { b: 1 } }, 'a.c' as string); // ok
+ * ```
+ */
+export type ValidPath<T, P> =
+  | (P extends string
+      ? string extends P
+        ? P
+        : IsValidPath<T, ParsePath<P>> extends true
+          ? P
+          : Path<T>
+      : never)
+  // Intersecting with `P` itself keeps arrays of keys inferred as tuples
+  | (P & readonly PropertyKey[]);
+
+/**
+ * A property path: either a string in the `toPath` grammar or an array of keys.
+ * Arrays of keys can address symbol keys and keys containing any characters
+ * without escaping.
+ */
+export type PropertyPath = string | readonly PropertyKey[];
+
+function invalidPath(path: string, reason: string, position: number): never {
+  throw new SyntaxError(
+    `Invalid path "${path}": ${reason} at position ${position}`
+  );
+}
+
+/**
+ * Reads a bracket segment starting at `start` (which must point at `[`).
+ * Returns the key inside the brackets and the index just past the closing `]`.
+ */
+function readBracket(path: string, start: number): [string, number] {
+  let i = start + 1;
+  const quote = path[i];
+
+  if (quote === '"' || quote === "'") {
+    let key = '';
+    i++;
+
+    while (i < path.length && path[i] !== quote) {
+      if (path[i] === '\\') {
+        if (i + 1 >= path.length) {
+          invalidPath(path, 'unterminated escape sequence', i);
+        }
+        i++;
+      }
+      key += path[i];
+      i++;
+    }
+
+    if (i >= path.length) {
+      invalidPath(path, `unterminated ${quote} quote`, start + 1);
+    }
+
+    i++;
+    if (path[i] !== ']') {
+      invalidPath(path, "expected ']' after quoted key", i);
+    }
+
+    return [key, i + 1];
+  }
+
+  let index = '';
+  while (i < path.length && path[i] !== ']') {
+    if (!/\d/.test(path[i]!)) {
+      invalidPath(path, 'expected an array index or a quoted key', i);
+    }
+    index += path[i];
+    i++;
+  }
+
+  if (i >= path.length) {
+    invalidPath(path, "unterminated '['", start);
+  }
+
+  if (index === '') {
+    invalidPath(path, 'empty brackets', start);
+  }
+
+  return [index, i + 1];
+}
+
+/**
+ * Returns true if `key` addresses an array element: a non-negative integer
+ * or a string of digits.
+ */
+export function isIndexKey(key: PropertyKey): boolean {
+  return typeof key === 'number'
+    ? Number.isInteger(key) && key >= 0
+    : typeof key === 'string' && /^\d+$/.test(key);
+}
+
+/**
+ * Converts a property path into an array of keys.
+ * This is the path grammar shared by `get`, `set` and the other path utilities.
+ *
+ * Supported string syntax:
+ * - Dot notation: `a.b.c`
+ * - Array indices: `items[0]` (equivalent to `items.0`)
+ * - Quoted keys: `headers["x.request.id"]` or `headers['x.request.id']`
+ * - Escaped characters: `a\.b` is the single key `a.b`
+ *
+ * Arrays of keys are returned as a copy, so symbol and numeric keys pass through unchanged.
+ *
+ * @param path - The property path to parse, or an array of keys
+ * @returns The keys that make up the path
+ * @throws {SyntaxError} If the path is malformed (empty segments, unterminated
+ * brackets or quotes, invalid bracket contents)
+ * @throws {TypeError} If the path is not a string or an array of property keys
+ *
+ * @example
+ * ```typescript
+ * import { toPath } from 'datype';
+ *
+ * toPath('user.address.city'); // ['user', 'address', 'city']
+ * toPath('items[0].name'); // ['items', '0', 'name']
+ * toPath('headers["x.request.id"]'); // ['headers', 'x.request.id']
+ * toPath('files.readme\\.md'); // ['files', 'readme.md']
+ * toPath(['items', 0, Symbol.for('meta')]); // ['items', 0, Symbol(meta)]
+ *
+ * toPath('a..b'); // throws SyntaxError: Invalid path "a..b": empty segment at position 2
+ * ```
+ */
+export function toPath(path: string): string[];
+export function toPath(path: PropertyPath): PropertyKey[];
+export function toPath(path: PropertyPath): PropertyKey[] {
+  if (Array.isArray(path)) {
+    for (const key of path) {
+      const type = typeof key;
+      if (type !== 'string' && type !== 'number' && type !== 'symbol') {
+        throw new TypeError('Path keys must be strings, numbers or symbols');
+      }
+    }
+    return [...path];
+  }
+
+  if (typeof path !== 'string') {
+    throw new TypeError('Path must be a string or an array of keys');
+  }
+
+  return path === '' ? [] : parseString(path);
+}
+
+/**
+ * Parses a path like `toPath` and also returns the indexes of the keys written
+ * literally: in brackets, or with an escaped character. Path patterns treat only
+ * the other keys as wildcards, so `["*"]` and `\*` match a key named `*`.
+ * Keys of an array path are never literal.
+ *
+ * @param path - The property path to parse, or an array of keys
+ * @returns The keys and the indexes of the literal ones
+ * @throws {SyntaxError} If the path is malformed (see `toPath`)
+ * @throws {TypeError} If the path is not a string or an array of property keys
+ */
+export function toPathWithLiterals(path: PropertyPath): {
+  keys: PropertyKey[];
+  literals: Set<number>;
+} {
+  const literals = new Set<number>();
+  const keys =
+    typeof path === 'string' && path !== ''
+      ? parseString(path, literals)
+      : toPath(path);
+  return { keys, literals };
+}
+
+// Parses a non-empty string path, adding the indexes of bracketed and escaped keys
+// to `literals` when given
+function parseString(path: string, literals?: Set<number>): string[] {
+  const keys: string[] = [];
+  let segment = '';
+  let inSegment = false;
+  let afterBracket = false;
+  let i = 0;
+
+  while (i < path.length) {
+    const char = path[i]!;
+
+    if (afterBracket && char !== '.' && char !== '[') {
+      invalidPath(path, "expected '.' or '[' after ']'", i);
+    }
+
+    if (char === '.') {
+      if (!inSegment && !afterBracket) {
+        invalidPath(path, 'empty segment', i);
+      }
+      if (inSegment) {
+        keys.push(segment);
+      }
+      segment = '';
+      inSegment = false;
+      afterBracket = false;
+      i++;
+
+      if (i >= path.length) {
+        invalidPath(path, 'empty segment', i);
+      }
+      if (path[i] === '[') {
+        invalidPath(path, "unexpected '['", i);
+      }
+      continue;
+    }
+
+    if (char === '[') {
+      if (inSegment) {
+        keys.push(segment);
+        segment = '';
+        inSegment = false;
+      }
+      const [key, next] = readBracket(path, i);
+      literals?.add(keys.length);
+      keys.push(key);
+      afterBracket = true;
+      i = next;
+      continue;
+    }
+
+    if (char === ']') {
+      invalidPath(path, "unexpected ']'", i);
+    }
+
+    if (char === '\\') {
+      if (i + 1 >= path.length) {
+        invalidPath(path, 'unterminated escape sequence', i);
+      }
+      // The segment being read becomes the next key
+      literals?.add(keys.length);
+      i++;
+    }
+
+    segment += path[i];
+    inSegment = true;
+    i++;
+  }
+
+  if (inSegment) {
+    keys.push(segment);
+  }
+
+  return keys;
+}
+
+/**
+ * Converts an array of keys into a path string that `toPath` parses back into
+ * the same keys. Keys that contain path syntax are written as `["quoted"]` segments.
+ *
+ * @param keys - The keys to join
+ * @returns The path string
+ * @throws {TypeError} If a key is a symbol, which a string path cannot represent
+ *
+ * @example
+ * ```typescript
+ * import { stringifyPath } from 'datype';
+ *
+ * stringifyPath(['user', 'address', 'city']); // 'user.address.city'
+ * stringifyPath(['items', 0, 'name']); // 'items.0.name'
+ * stringifyPath(['headers', 'x.request.id']); // 'headers["x.request.id"]'
+ * ```
+ */
+export function stringifyPath(keys: readonly PropertyKey[]): string {
+  let path = '';
+
+  for (const key of keys) {
+    if (typeof key === 'symbol') {
+      throw new TypeError('Symbol keys cannot be represented in a string path');
+    }
+
+    const segment = String(key);
+
+    if (segment === '' || /[.[\]\\]/.test(segment)) {
+      path += `["${segment.replace(/["\\]/g, '\\$&')}"]`;
+    } else {
+      path += path === '' ? segment : `.${segment}`;
+    }
+  }
+
+  return path;
+}
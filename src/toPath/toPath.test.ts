@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import { isIndexKey, stringifyPath, toPath } from './index';
+
+describe('toPath', () => {
+  describe('dot notation', () => {
+    it('should split dotted paths', () => {
+      expect(toPath('a')).toEqual(['a']);
+      expect(toPath('a.b.c')).toEqual(['a', 'b', 'c']);
+      expect(toPath('items.0.name')).toEqual(['items', '0', 'name']);
+    });
+
+    it('should return an empty array for an empty path', () => {
+      expect(toPath('')).toEqual([]);
+    });
+
+    it('should keep whitespace and special characters inside segments', () => {
+      expect(toPath('first name.last-name')).toEqual([
+        'first name',
+        'last-name',
+      ]);
+      expect(toPath('$ref.@id')).toEqual(['$ref', '@id']);
+    });
+  });
+
+  describe('bracket notation', () => {
+    it('should parse array indices', () => {
+      expect(toPath('items[0]')).toEqual(['items', '0']);
+      expect(toPath('items[0].name')).toEqual(['items', '0', 'name']);
+      expect(toPath('matrix[1][12]')).toEqual(['matrix', '1', '12']);
+    });
+
+    it('should allow a path to start with an index', () => {
+      expect(toPath('[0]')).toEqual(['0']);
+      expect(toPath('[0].name')).toEqual(['0', 'name']);
+    });
+
+    it('should parse double-quoted keys', () => {
+      expect(toPath('headers["x.request.id"]')).toEqual([
+        'headers',
+        'x.request.id',
+      ]);
+    });
+
+    it('should parse single-quoted keys', () => {
+      expect(toPath("headers['x.request.id'].value")).toEqual([
+        'headers',
+        'x.request.id',
+        'value',
+      ]);
+    });
+
+    it('should allow brackets and other quotes inside quoted keys', () => {
+      expect(toPath('a["[0]"]')).toEqual(['a', '[0]']);
+      expect(toPath(`a["it's"]`)).toEqual(['a', "it's"]);
+    });
+
+    it('should support escapes inside quoted keys', () => {
+      expect(toPath('a["say \\"hi\\""]')).toEqual(['a', 'say "hi"']);
+      expect(toPath('a["back\\\\slash"]')).toEqual(['a', 'back\\slash']);
+    });
+
+    it('should allow empty quoted keys', () => {
+      expect(toPath('a[""]')).toEqual(['a', '']);
+    });
+  });
+
+  describe('escaped characters', () => {
+    it('should treat escaped dots as part of the key', () => {
+      expect(toPath('files.readme\\.md')).toEqual(['files', 'readme.md']);
+      expect(toPath('a\\.b\\.c')).toEqual(['a.b.c']);
+    });
+
+    it('should treat escaped brackets and backslashes as part of the key', () => {
+      expect(toPath('a\\[0\\]')).toEqual(['a[0]']);
+      expect(toPath('a\\\\b')).toEqual(['a\\b']);
+    });
+  });
+
+  describe('arrays of keys', () => {
+    it('should return a copy of the keys', () => {
+      const sym = Symbol('meta');
+      const keys = ['items', 0, sym];
+      const result = toPath(keys);
+
+      expect(result).toEqual(['items', 0, sym]);
+      expect(result).not.toBe(keys);
+    });
+
+    it('should not parse string keys inside arrays', () => {
+      expect(toPath(['a.b', '[0]'])).toEqual(['a.b', '[0]']);
+    });
+
+    it('should reject keys that are not property keys', () => {
+      expect(() => toPath(['a', {} as any])).toThrow(
+        'Path keys must be strings, numbers or symbols'
+      );
+      expect(() => toPath([null as any])).toThrow(TypeError);
+    });
+  });
+
+  describe('isIndexKey', () => {
+    it('should accept non-negative integers and digit strings', () => {
+      expect(isIndexKey(0)).toBe(true);
+      expect(isIndexKey(12)).toBe(true);
+      expect(isIndexKey('3')).toBe(true);
+    });
+
+    it('should reject other keys', () => {
+      expect(isIndexKey(-1)).toBe(false);
+      expect(isIndexKey(1.5)).toBe(false);
+      expect(isIndexKey('1.5')).toBe(false);
+      expect(isIndexKey('a')).toBe(false);
+      expect(isIndexKey(Symbol('0'))).toBe(false);
+    });
+  });
+
+  describe('malformed paths', () => {
+    it('should reject empty segments', () => {
+      expect(() => toPath('a..b')).toThrow(
+        'Invalid path "a..b": empty segment at position 2'
+      );
+      expect(() => toPath('.a')).toThrow('empty segment at position 0');
+      expect(() => toPath('a.')).toThrow('empty segment at position 2');
+      expect(() => toPath('a[0].')).toThrow('empty segment');
+    });
+
+    it('should reject unterminated brackets and quotes', () => {
+      expect(() => toPath('a[0')).toThrow("unterminated '[' at position 1");
+      expect(() => toPath('a["b')).toThrow('unterminated " quote');
+      expect(() => toPath("a['b]")).toThrow("unterminated ' quote");
+    });
+
+    it('should reject invalid bracket contents', () => {
+      expect(() => toPath('a[]')).toThrow('empty brackets');
+      expect(() => toPath('a[b]')).toThrow(
+        'expected an array index or a quoted key'
+      );
+      expect(() => toPath('a[-1]')).toThrow(
+        'expected an array index or a quoted key'
+      );
+      expect(() => toPath('a["b"x]')).toThrow("expected ']' after quoted key");
+    });
+
+    it('should reject stray characters around brackets', () => {
+      expect(() => toPath('a]')).toThrow("unexpected ']'");
+      expect(() => toPath('a[0]b')).toThrow("expected '.' or '[' after ']'");
+      expect(() => toPath('a.[0]')).toThrow("unexpected '['");
+    });
+
+    it('should reject dangling escapes', () => {
+      expect(() => toPath('a\\')).toThrow('unterminated escape sequence');
+      expect(() => toPath('a["b\\')).toThrow('unterminated escape sequence');
+    });
+
+    it('should throw SyntaxError for malformed paths', () => {
+      expect(() => toPath('a..b')).toThrow(SyntaxError);
+    });
+
+    it('should throw TypeError for non-string paths', () => {
+      expect(() => toPath(123 as any)).toThrow(TypeError);
+      expect(() => toPath(null as any)).toThrow(
+        'Path must be a string or an array of keys'
+      );
+    });
+  });
+});
+
+describe('stringifyPath', () => {
+  it('should join plain keys with dots', () => {
+    expect(stringifyPath(['user', 'address', 'city'])).toBe(
+      'user.address.city'
+    );
+    expect(stringifyPath(['items', 0, 'name'])).toBe('items.0.name');
+    expect(stringifyPath([])).toBe('');
+  });
+
+  it('should quote keys containing path syntax', () => {
+    expect(stringifyPath(['headers', 'x.request.id'])).toBe(
+      'headers["x.request.id"]'
+    );
+    expect(stringifyPath(['a[0]', 'b'])).toBe('["a[0]"].b');
+    expect(stringifyPath(['say "hi"'])).toBe('say "hi"');
+    expect(stringifyPath(['a.b', 'say "hi"\\'])).toBe(
+      '["a.b"]["say \\"hi\\"\\\\"]'
+    );
+    expect(stringifyPath(['a', ''])).toBe('a[""]');
+  });
+
+  it('should round-trip through toPath', () => {
+    const paths = [
+      ['a', 'b'],
+      ['x.y', 'z'],
+      ['', 'weird]', 'back\\slash', 'quote"s', "it's"],
+      ['[0]', '0'],
+    ];
+
+    for (const keys of paths) {
+      expect(toPath(stringifyPath(keys))).toEqual(keys);
+    }
+  });
+
+  it('should reject symbol keys', () => {
+    expect(() => stringifyPath(['a', Symbol('b')])).toThrow(
+      'Symbol keys cannot be represented in a string path'
+    );
+  });
+});
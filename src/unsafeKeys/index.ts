@@ -0,0 +1,77 @@
+// Type definitions
+
+/**
+ * How a utility treats the keys `__proto__`, `constructor` and `prototype`:
+ * - `'skip'` leaves the key out of the result
+ * - `'throw'` throws an `UnsafeKeyError`
+ * - `'allow'` writes the key like any other (no protection)
+ */
+export type UnsafeKeyPolicy = 'skip' | 'throw' | 'allow';
+
+/**
+ * Thrown when a utility refuses to write a key that could modify an object's
+ * prototype chain (`__proto__`, `constructor` or `prototype`).
+ * The offending key is available as `error.key`.
+ *
+ * @example
+ * ```typescript
+ * import { set, UnsafeKeyError } from 'datype';
+ *
+ * try {
+ *   set({}, '__proto__.polluted', true);
+ * } catch (error) {
+ *   if (error instanceof UnsafeKeyError) {
+ *     console.log(error.key); // '__proto__'
+ *   }
+ * }
+ * ```
+ */
+export class UnsafeKeyError extends TypeError {
+  readonly key: string;
+
+  constructor(key: string) {
+    super(
+      `Unsafe key "${key}" is not allowed (functions with an unsafeKeys option accept 'allow' to opt out)`
+    );
+    this.name = 'UnsafeKeyError';
+    this.key = key;
+  }
+}
+
+/**
+ * Returns true for keys that can reach or replace an object's prototype
+ * when used as a property name: `__proto__`, `constructor` and `prototype`.
+ *
+ * @param key - The property key to check
+ * @returns True if the key is unsafe to write from untrusted input
+ *
+ * @example
+ * ```typescript
+ * import { isUnsafeKey } from 'datype';
+ *
+ * isUnsafeKey('__proto__'); // true
+ * isUnsafeKey('name'); // false
+ * ```
+ */
+export function isUnsafeKey(key: PropertyKey): boolean {
+  return key === '__proto__' || key === 'constructor' || key === 'prototype';
+}
+
+/**
+ * Applies an `UnsafeKeyPolicy` to a key that is about to be written.
+ * Returns false when the key should be skipped and throws when it must be rejected.
+ */
+export function isKeyAllowed(
+  key: PropertyKey,
+  policy: UnsafeKeyPolicy
+): boolean {
+  if (policy === 'allow' || !isUnsafeKey(key)) {
+    return true;
+  }
+
+  if (policy === 'throw') {
+    throw new UnsafeKeyError(key as string);
+  }
+
+  return false;
+}
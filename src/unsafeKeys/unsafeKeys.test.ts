@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { UnsafeKeyError, isKeyAllowed, isUnsafeKey } from './index';
+
+describe('unsafeKeys', () => {
+  describe('isUnsafeKey', () => {
+    it('should flag keys that reach the prototype chain', () => {
+      expect(isUnsafeKey('__proto__')).toBe(true);
+      expect(isUnsafeKey('constructor')).toBe(true);
+      expect(isUnsafeKey('prototype')).toBe(true);
+    });
+
+    it('should accept other keys', () => {
+      expect(isUnsafeKey('proto')).toBe(false);
+      expect(isUnsafeKey('Constructor')).toBe(false);
+      expect(isUnsafeKey(0)).toBe(false);
+      expect(isUnsafeKey(Symbol('__proto__'))).toBe(false);
+    });
+  });
+
+  describe('isKeyAllowed', () => {
+    it('should allow safe keys under every policy', () => {
+      expect(isKeyAllowed('name', 'skip')).toBe(true);
+      expect(isKeyAllowed('name', 'throw')).toBe(true);
+      expect(isKeyAllowed('name', 'allow')).toBe(true);
+    });
+
+    it('should apply the policy to unsafe keys', () => {
+      expect(isKeyAllowed('__proto__', 'skip')).toBe(false);
+      expect(isKeyAllowed('__proto__', 'allow')).toBe(true);
+      expect(() => isKeyAllowed('__proto__', 'throw')).toThrow(UnsafeKeyError);
+    });
+  });
+
+  describe('UnsafeKeyError', () => {
+    it('should be a named TypeError exposing the key', () => {
+      const error = new UnsafeKeyError('prototype');
+
+      expect(error).toBeInstanceOf(TypeError);
+      expect(error).toBeInstanceOf(UnsafeKeyError);
+      expect(error.name).toBe('UnsafeKeyError');
+      expect(error.key).toBe('prototype');
+      expect(error.message).toContain('Unsafe key "prototype" is not allowed');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { has } from '../has/index';
+import { copyPath } from '../set/index';
+import { isIndexKey, toPath } from '../toPath/index';
+import type { PathHint, PropertyPath } from '../toPath/index';
+import { isKeyAllowed } from '../unsafeKeys/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
+export interface UnsetOptions {
+  /**
+   * How to treat `__proto__`, `constructor` and `prototype` segments leading to the
+   * removed key. Defaults to `'throw'`; `'skip'` returns `obj` unchanged. Removing an own
+   * key with one of these names is always allowed.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+}
+
+/**
+ * Immutably removes a nested property from an object.
+ * Returns a new object without the property; array elements are spliced out,
+ * so later elements shift down instead of leaving a hole.
+ * Only the objects along the path are copied, everything else keeps its reference.
+ *
+ * @template T - The type of the object
+ * @param obj - The object to remove the property from
+ * @param path - The property path (same syntax as `set`) or an array of keys. Any path
+ * is accepted; the paths of `T` are offered as completions
+ * @param options - Unset options (`unsafeKeys` policy for the path leading to the key)
+ * @returns A new object without the property, or `obj` itself if the path does not exist
+ * @throws {SyntaxError} If the path is malformed (see `toPath`)
+ * @throws {UnsafeKeyError} If the path goes through `__proto__`, `constructor` or `prototype`
+ *
+ * @example
+ * ```typescript
+ * import { unset } from 'datype';
+ *
+ * const state = {
+ *   user: { name: 'John', token: 'secret' },
+ *   todos: ['write', 'test', 'ship']
+ * };
+ *
+ * unset(state, 'user.token');
+ * // { user: { name: 'John' }, todos: ['write', 'test', 'ship'] }
+ *
+ * unset(state, 'todos[1]');
+ * // { user: { name: 'John', token: 'secret' }, todos: ['write', 'ship'] }
+ *
+ * // Missing paths leave the object untouched
+ * unset(state, 'user.email') === state; // true
+ *
+ * // Own keys named like prototype properties can be removed
+ * unset(JSON.parse('{"constructor": 1, "id": 2}'), 'constructor'); // { id: 2 }
+ * ```
+ */
+export function unset<T>(obj: T, path: PathHint<T>, options?: UnsetOptions): T;
+export function unset<T>(
+  obj: T,
+  path: PropertyPath,
+  options: UnsetOptions = {}
+): T {
+  if (obj === null || obj === undefined) {
+    throw new TypeError('Cannot unset property on null or undefined');
+  }
+
+  if (
+    typeof path === 'string'
+      ? path === ''
+      : !Array.isArray(path) || !path.length
+  ) {
+    throw new TypeError('Path must be a non-empty string or array of keys');
+  }
+
+  const keys = toPath(path);
+  const policy = options.unsafeKeys ?? 'throw';
+
+  // Deleting an own key cannot reach a prototype, so only the keys leading to it are checked
+  if (!keys.slice(0, -1).every(key => isKeyAllowed(key, policy))) {
+    return obj;
+  }
+
+  if (!has(obj, keys)) {
+    return obj;
+  }
+
+  const { result, parent } = copyPath(obj, keys, undefined, 'allow');
+  const lastKey = keys[keys.length - 1]!;
+
+  if (Array.isArray(parent) && isIndexKey(lastKey)) {
+    parent.splice(Number(lastKey), 1);
+  } else {
+    delete parent[lastKey];
+  }
+
+  return result;
+}
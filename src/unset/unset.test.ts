@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import { unset } from './index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
+
+describe('unset', () => {
+  const testObj = {
+    name: 'John',
+    profile: {
+      email: 'john@example.com',
+      preferences: {
+        theme: 'dark',
+        notifications: true,
+      },
+      contacts: [
+        { type: 'email', value: 'john@work.com' },
+        { type: 'phone', value: '123-456-7890' },
+      ],
+    },
+    hobbies: ['reading', 'gaming', 'cooking'],
+  };
+
+  describe('basic removal', () => {
+    it('should remove top-level properties', () => {
+      const result = unset(testObj, 'name');
+
+      expect('name' in result).toBe(false);
+      expect(testObj.name).toBe('John'); // Original unchanged
+      expect(result.profile).toBe(testObj.profile);
+    });
+
+    it('should remove nested properties', () => {
+      const result = unset(testObj, 'profile.preferences.theme');
+
+      expect('theme' in result.profile.preferences).toBe(false);
+      expect(result.profile.preferences.notifications).toBe(true);
+      expect(testObj.profile.preferences.theme).toBe('dark'); // Original unchanged
+    });
+
+    it('should remove properties whose value is undefined', () => {
+      const obj = { a: undefined, b: 1 };
+      const result = unset(obj, 'a');
+
+      expect(Object.keys(result)).toEqual(['b']);
+    });
+  });
+
+  describe('array pruning', () => {
+    it('should splice array elements instead of leaving holes', () => {
+      const result = unset(testObj, 'hobbies.1');
+
+      expect(result.hobbies).toEqual(['reading', 'cooking']);
+      expect(result.hobbies.length).toBe(2);
+      expect(testObj.hobbies).toEqual(['reading', 'gaming', 'cooking']); // Original unchanged
+    });
+
+    it('should remove objects from nested arrays', () => {
+      const result = unset(testObj, 'profile.contacts[0]');
+
+      expect(result.profile.contacts).toEqual([
+        { type: 'phone', value: '123-456-7890' },
+      ]);
+      expect(result.profile.contacts[0]).toBe(testObj.profile.contacts[1]);
+    });
+
+    it('should remove properties of array elements', () => {
+      const result = unset(testObj, 'profile.contacts[1].value');
+
+      expect(result.profile.contacts[1]).toEqual({ type: 'phone' });
+      expect(result.profile.contacts[0]).toBe(testObj.profile.contacts[0]);
+    });
+
+    it('should handle arrays as root object', () => {
+      const arr = ['a', 'b', 'c'];
+      const result = unset(arr, [0]);
+
+      expect(result).toEqual(['b', 'c']);
+      expect(arr).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('structural sharing', () => {
+    it('should only copy objects along the path', () => {
+      const result = unset(testObj, 'profile.preferences.theme');
+
+      expect(result).not.toBe(testObj);
+      expect(result.profile).not.toBe(testObj.profile);
+      expect(result.profile.contacts).toBe(testObj.profile.contacts);
+      expect(result.hobbies).toBe(testObj.hobbies);
+    });
+
+    it('should return the original object when the path does not exist', () => {
+      expect(unset(testObj, 'profile.missing')).toBe(testObj);
+      expect(unset(testObj, 'missing.deep.path')).toBe(testObj);
+      expect(unset(testObj, 'hobbies.10')).toBe(testObj);
+    });
+
+    it('should not treat inherited properties as removable', () => {
+      expect(unset(testObj, 'toString')).toBe(testObj);
+    });
+  });
+
+  describe('path forms', () => {
+    it('should support quoted keys', () => {
+      const obj = { headers: { 'x.request.id': 'req-1', accept: '*/*' } };
+      const result = unset(obj, 'headers["x.request.id"]');
+
+      expect(result.headers).toEqual({ accept: '*/*' });
+    });
+
+    it('should support symbol keys', () => {
+      const meta = Symbol('meta');
+      const obj = { data: { [meta]: 'tag', value: 1 } };
+      const result = unset(obj, ['data', meta]);
+
+      expect(meta in result.data).toBe(false);
+      expect(result.data.value).toBe(1);
+      expect(meta in obj.data).toBe(true); // Original unchanged
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should throw for null/undefined objects', () => {
+      expect(() => unset(null, 'a')).toThrow(
+        'Cannot unset property on null or undefined'
+      );
+      expect(() => unset(undefined, 'a')).toThrow(
+        'Cannot unset property on null or undefined'
+      );
+    });
+
+    it('should throw for invalid paths', () => {
+      expect(() => unset(testObj, '')).toThrow(
+        'Path must be a non-empty string or array of keys'
+      );
+      expect(() => unset(testObj, [])).toThrow(
+        'Path must be a non-empty string or array of keys'
+      );
+      expect(() => unset(testObj, 'profile[')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('prototype pollution', () => {
+    it('should remove own constructor and prototype keys', () => {
+      const obj = JSON.parse('{"constructor": 1, "meta": {"prototype": 2}}');
+
+      expect(unset(obj, 'constructor')).toEqual({ meta: { prototype: 2 } });
+      expect(unset(obj, 'meta.prototype')).toEqual({
+        constructor: 1,
+        meta: {},
+      });
+      expect(unset({}, 'constructor')).toEqual({});
+    });
+
+    it('should apply the unsafeKeys option to the keys leading to the removed key', () => {
+      const obj = { a: 1 };
+
+      expect(() => unset(obj, '__proto__.toString')).toThrow(UnsafeKeyError);
+      expect(
+        unset(obj, 'constructor.prototype.toString', { unsafeKeys: 'skip' })
+      ).toBe(obj);
+      expect(typeof ({} as any).toString).toBe('function');
+    });
+  });
+
+  describe('real-world use cases', () => {
+    it('should remove entities from normalized state', () => {
+      const state = {
+        entities: {
+          users: { u1: { name: 'Ann' }, u2: { name: 'Bob' } },
+        },
+        ids: ['u1', 'u2'],
+      };
+
+      const result = unset(state, 'entities.users.u1');
+
+      expect(result.entities.users).toEqual({ u2: { name: 'Bob' } });
+      expect(result.entities.users.u2).toBe(state.entities.users.u2);
+      expect(result.ids).toBe(state.ids);
+    });
+
+    it('should accept paths that are not part of the type', () => {
+      const state = { user: { name: 'Ann' } };
+      const field: string = 'user.name';
+
+      expect(unset(state, 'user.email')).toBe(state);
+      expect(unset(state, field)).toEqual({ user: {} });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { copyPath } from '../set/index';
+import { toPath } from '../toPath/index';
+import type {
+  PathHint,
+  PathValue,
+  PropertyPath,
+  ValidPath,
+} from '../toPath/index';
+import type { UnsafeKeyPolicy } from '../unsafeKeys/index';
+
+export interface UpdateOptions {
+  /**
+   * How to treat `__proto__`, `constructor` and `prototype` path segments.
+   * Defaults to `'throw'`; `'skip'` returns `obj` unchanged.
+   */
+  unsafeKeys?: UnsafeKeyPolicy;
+}
+
+/**
+ * Immutably updates a nested property by applying a function to its current value.
+ * Reading and writing happen in a single copy-on-write pass, like `set`:
+ * only the objects along the path are copied and missing objects are created.
+ *
+ * @template T - The type of the object
+ * @template P - The path string literal type (completed from `Path<T>`) or tuple of keys
+ * @param obj - The object to update
+ * @param path - The property path (same syntax as `set`) or an array of keys
+ * @param updater - Receives the current value (`undefined` if missing) and returns the new value.
+ * Typed as `PathValue<T, P>` for a literal path into a concrete type, `unknown` otherwise
+ * @param options - Update options (`unsafeKeys` policy for prototype-polluting path segments)
+ * @returns A new object with the property set to the updater's result
+ * @throws {SyntaxError} If the path is malformed (see `toPath`)
+ * @throws {UnsafeKeyError} If the path contains `__proto__`, `constructor` or `prototype`
+ *
+ * @example
+ * ```typescript
+ * import { update } from 'datype';
+ *
+ * const state = {
+ *   cart: { items: [{ id: 1, qty: 1 }], total: 10 }
+ * };
+ *
+ * // Increment a counter
+ * update(state, 'cart.items[0].qty', qty => (qty ?? 0) + 1);
+ * // { cart: { items: [{ id: 1, qty: 2 }], total: 10 } }
+ *
+ * // Append to an array
+ * update(state, 'cart.items', items => [...items, { id: 2, qty: 1 }]);
+ *
+ * // Missing keys are created
+ * const visits: Record<string, number> = {};
+ * update(visits, 'home', count => (count ?? 0) + 1);
+ * // { home: 1 }
+ * ```
+ */
+export function update<T, const P extends PathHint<T>>(
+  obj: T,
+  path: ValidPath<T, P>,
+  updater: (value: PathValue<T, P>) => PathValue<T, P>,
+  options?: UpdateOptions
+): T;
+export function update<T>(
+  obj: T,
+  path: PropertyPath,
+  updater: (value: unknown) => unknown,
+  options: UpdateOptions = {}
+): T {
+  if (obj === null || obj === undefined) {
+    throw new TypeError('Cannot update property on null or undefined');
+  }
+
+  if (
+    typeof path === 'string'
+      ? path === ''
+      : !Array.isArray(path) || !path.length
+  ) {
+    throw new TypeError('Path must be a non-empty string or array of keys');
+  }
+
+  if (typeof updater !== 'function') {
+    throw new TypeError('Expected updater to be a function');
+  }
+
+  const keys = toPath(path);
+  const copied = copyPath(obj, keys, undefined, options.unsafeKeys ?? 'throw');
+  if (!copied) {
+    return obj;
+  }
+
+  const { result, parent } = copied;
+  const lastKey = keys[keys.length - 1]!;
+  parent[lastKey] = updater(parent[lastKey]);
+
+  return result;
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from 'vitest';
+import { update } from './index';
+import { UnsafeKeyError } from '../unsafeKeys/index';
+
+describe('update', () => {
+  const testObj = {
+    name: 'John',
+    stats: { visits: 3, likes: 10 },
+    cart: {
+      items: [
+        { id: 1, qty: 1 },
+        { id: 2, qty: 4 },
+      ],
+    },
+    tags: ['a', 'b'],
+  };
+
+  describe('basic updates', () => {
+    it('should apply the updater to the current value', () => {
+      const result = update(testObj, 'stats.visits', visits => visits + 1);
+
+      expect(result.stats.visits).toBe(4);
+      expect(testObj.stats.visits).toBe(3); // Original unchanged
+      expect(result.stats.likes).toBe(10);
+    });
+
+    it('should call the updater once with the current value', () => {
+      const updater = vi.fn((name: string) => name.toUpperCase());
+      const result = update(testObj, 'name', updater);
+
+      expect(updater).toHaveBeenCalledTimes(1);
+      expect(updater).toHaveBeenCalledWith('John');
+      expect(result.name).toBe('JOHN');
+    });
+
+    it('should update array elements', () => {
+      const result = update(
+        testObj,
+        'cart.items[1].qty',
+        qty => (qty ?? 0) * 2
+      );
+
+      expect(result.cart.items[1]!.qty).toBe(8);
+      expect(testObj.cart.items[1]!.qty).toBe(4); // Original unchanged
+    });
+
+    it('should replace whole subtrees', () => {
+      const result = update(testObj, 'tags', tags => [...tags, 'c']);
+
+      expect(result.tags).toEqual(['a', 'b', 'c']);
+      expect(testObj.tags).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('missing paths', () => {
+    it('should pass undefined for missing values', () => {
+      const updater = vi.fn(() => 1);
+      const result = update({} as Record<string, any>, 'stats.visits', updater);
+
+      expect(updater).toHaveBeenCalledWith(undefined);
+      expect(result).toEqual({ stats: { visits: 1 } });
+    });
+
+    it('should create arrays for numeric keys', () => {
+      const result = update(
+        {} as { list?: string[] },
+        'list[0]',
+        () => 'first'
+      );
+
+      expect(result.list).toEqual(['first']);
+    });
+  });
+
+  describe('structural sharing', () => {
+    it('should only copy objects along the path', () => {
+      const result = update(
+        testObj,
+        'cart.items[0].qty',
+        qty => (qty ?? 0) + 1
+      );
+
+      expect(result.cart.items[0]).not.toBe(testObj.cart.items[0]);
+      expect(result.cart.items[1]).toBe(testObj.cart.items[1]);
+      expect(result.stats).toBe(testObj.stats);
+      expect(result.tags).toBe(testObj.tags);
+    });
+  });
+
+  describe('typing', () => {
+    it('should reject unknown paths and mistyped results', () => {
+      // @ts-expect-error stats has no key "vists"
+      update(testObj, 'stats.vists', visits => visits);
+      // @ts-expect-error the updater must return a number
+      update(testObj, 'stats.visits', () => 'many');
+
+      const path: string = 'stats.visits';
+      const result = update(testObj, path, (visits: unknown) => visits);
+      expect(result).toEqual(testObj);
+    });
+  });
+
+  describe('path forms', () => {
+    it('should support arrays of keys with symbols', () => {
+      const meta = Symbol('meta');
+      const obj = { [meta]: { version: 1 } };
+      const result = update(obj, [meta, 'version'], version => version + 1);
+
+      expect(result[meta].version).toBe(2);
+      expect(obj[meta].version).toBe(1);
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should throw for null/undefined objects', () => {
+      // @ts-expect-error null has no properties to update
+      expect(() => update(null, 'a', () => 1)).toThrow(
+        'Cannot update property on null or undefined'
+      );
+    });
+
+    it('should throw for invalid paths', () => {
+      expect(() => update(testObj, '', () => testObj)).toThrow(
+        'Path must be a non-empty string or array of keys'
+      );
+      expect(() => update(testObj, 'stats..visits', () => 1)).toThrow(
+        SyntaxError
+      );
+    });
+
+    it('should throw when the updater is not a function', () => {
+      expect(() => update(testObj, 'name', 'Jane' as any)).toThrow(
+        'Expected updater to be a function'
+      );
+    });
+  });
+
+  describe('prototype pollution', () => {
+    it('should reject __proto__, constructor and prototype segments', () => {
+      // @ts-expect-error __proto__ is not a key of the object
+      expect(() => update({}, '__proto__.polluted', () => true)).toThrow(
+        UnsafeKeyError
+      );
+      expect(() =>
+        // @ts-expect-error constructor.prototype is not a path of the object
+        update({}, ['constructor', 'prototype', 'polluted'], () => true)
+      ).toThrow('Unsafe key "constructor" is not allowed');
+      // @ts-expect-error __proto__ is not a key of the object
+      expect(() => update({}, '__proto__', () => ({ polluted: true }))).toThrow(
+        UnsafeKeyError
+      );
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should apply the unsafeKeys option', () => {
+      const obj: Record<string, any> = { a: 1 };
+      const skipped = update(obj, '__proto__.polluted', () => true, {
+        unsafeKeys: 'skip',
+      });
+      const allowed = update(
+        JSON.parse('{"constructor": 1}'),
+        'constructor',
+        (count: any) => count + 1,
+        { unsafeKeys: 'allow' }
+      );
+
+      expect(skipped).toBe(obj);
+      expect(allowed.constructor).toBe(2);
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+
+  describe('real-world use cases', () => {
+    it('should toggle flags in reducer state', () => {
+      const state = {
+        todos: [
+          { id: 1, done: false },
+          { id: 2, done: false },
+        ],
+      };
+
+      const next = update(state, ['todos', 1, 'done'], done => !done);
+
+      expect(next.todos[1]!.done).toBe(true);
+      expect(next.todos[0]).toBe(state.todos[0]);
+      expect(state.todos[1]!.done).toBe(false);
+    });
+  });
+});
@@ -10,6 +10,7 @@ export default defineConfig({
       include: ['src/**/*.ts'],
       exclude: [
         'src/**/*.test.ts',
+        'src/**/*.bench.ts',
         'src/**/*.d.ts',
         'src/index.ts',
         'src/categories/**/*.ts',